@@ -0,0 +1,5 @@
+// Runtime stand-ins for the Obsidian API, the real module only exists inside the app
+
+export function requestUrl(): Promise<never> {
+	return Promise.reject(new Error('requestUrl is not available in tests'));
+}
@@ -0,0 +1,10 @@
+/** @type {import('ts-jest').JestConfigWithTsJest} */
+module.exports = {
+	preset: 'ts-jest',
+	testEnvironment: 'node',
+	roots: ['<rootDir>/src'],
+	moduleNameMapper: {
+		// The obsidian package only ships type definitions
+		'^obsidian$': '<rootDir>/__mocks__/obsidian.ts'
+	}
+};
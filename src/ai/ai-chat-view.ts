@@ -1,8 +1,11 @@
 import { ItemView, WorkspaceLeaf, TFile, Notice, MarkdownRenderer, MarkdownView, Modal, Editor, setIcon, requestUrl, App, Vault } from 'obsidian';
 import ImageCapturePlugin from '../main';
 import { AIManager, AIMessage, AIConversation } from './ai-manager';
+import { RequestCancelledError } from './streaming';
+import { getProviderErrorMessage } from './provider-errors';
 import { ChatHistoryModal } from '../ui/chat-history-modal';
 import { MessageRenderManager } from '../managers/message-render-manager';
+import { applyReviewedImages, ReferencedImage } from '../managers/pii-redaction-manager';
 import { t } from '../i18n';
 import { getLogger } from '../utils/logger';
 import { formatLocalDateTime, formatTimestampForFilename, formatDisplayTime } from '../utils/time';
@@ -51,6 +54,7 @@ export class AIChatView extends ItemView {
 	
 	private instanceMethods = new WeakMap<any, {
 		updateSendButtonState?: () => void;
+		setGenerating?: (generating: boolean) => void;
 	}>();
 	
 	private eventHandlers = new WeakMap<HTMLElement, {
@@ -72,6 +76,9 @@ export class AIChatView extends ItemView {
 	
 	// Current session model management (separate from global default)
 	private currentModelConfigId: string | null = null;
+	
+	// Cancellation token of the in-flight AI request, null when idle
+	private activeRequestController: AbortController | null = null;
 
 	constructor(leaf: WorkspaceLeaf, plugin: ImageCapturePlugin) {
 		super(leaf);
@@ -116,6 +123,11 @@ export class AIChatView extends ItemView {
 		await this.updateContent();
 	}
 
+	// Render a partial (streaming) response into an existing message element
+	streamMessage(message: AIMessage): void {
+		this.messageRenderer.streamMessage(message);
+	}
+
 	async updateContent(): Promise<void> {
 		const container = this.containerEl.children[1] as HTMLElement;
 		
@@ -970,6 +982,14 @@ export class AIChatView extends ItemView {
 
 		setIcon(sendButton, 'send');
 
+		// Stop button - only visible while a response is being generated
+		const stopButton = bottomRow.createEl('button', { 
+			cls: 'ai-chat-stop-button invisible',
+			attr: { title: t('aiChat.stopGeneratingTooltip') }
+		});
+		setIcon(stopButton, 'square');
+		stopButton.addEventListener('click', () => this.stopGenerating());
+
 
 		// Setup drag and drop on the entire input area
 		this.setupDragAndDrop(inputArea);
@@ -1000,8 +1020,16 @@ export class AIChatView extends ItemView {
 			}
 		};
 
+		// Swap the send button for the stop button while a response is being generated
+		const setGenerating = (generating: boolean) => {
+			sendButton.disabled = generating;
+			setIcon(sendButton, generating ? 'hourglass' : 'send');
+			sendButton.toggleClass('invisible', generating);
+			stopButton.toggleClass('invisible', !generating);
+		};
+
 		const sendMessage = async (sendOnly: boolean = false) => {
-			const message = textInput.value.trim();
+			let message = textInput.value.trim();
 			const inputData = this.inputAreaElements.get(inputArea);
 			const imageDataList = inputData?.currentImageDataList || [];
 			
@@ -1022,13 +1050,40 @@ export class AIChatView extends ItemView {
 				isVisionCapable = currentModel?.isVisionCapable || false;
 			}
 
+			// Privacy review: images only join the conversation after the user confirms the proposed redactions.
+			// Send-only messages are reviewed too, their images are sent with the context of later turns
+			let reviewedTempIds: string[] = [];
+			if ((sendOnly || isVisionCapable) && this.plugin.piiRedactionManager.isEnabled()) {
+				const references: ReferencedImage[] = [];
+				for (const imgRef of this.aiManager.parseImageReferences(message)) {
+					if (references.some(reference => reference.path === imgRef.path)) continue;
+					const dataUrl = await this.aiManager.resolveImageForAPI(imgRef.path);
+					if (dataUrl) {
+						references.push({ path: imgRef.path, fileName: imgRef.fileName, dataUrl });
+					}
+				}
+
+				if (imageDataList.length > 0 || references.length > 0) {
+					const reviewed = await this.plugin.piiRedactionManager.reviewImages([
+						...imageDataList.map((img: any) => img.dataUrl),
+						...references.map(reference => reference.dataUrl)
+					]);
+					if (!reviewed) return;
+					const result = applyReviewedImages(message, imageDataList, references, reviewed, this.aiManager.getImageReferenceManager());
+					message = result.message;
+					reviewedTempIds = result.referenceTempIds;
+				}
+			}
+
 			// Clear text input
 			textInput.value = '';
 			if (!sendOnly) {
-				sendButton.disabled = true;
-				setIcon(sendButton, 'hourglass');
+				setGenerating(true);
 			}
 
+			// Latest streamed text, kept so a stopped request can leave its partial answer
+			let partialResponse = '';
+
 			try {
 				// Get or create conversation
 				let conversation = this.aiManager.getCurrentConversationData();
@@ -1133,6 +1188,8 @@ export class AIChatView extends ItemView {
 				// Create and add user message to conversation (using ORIGINAL message with full content for display)
 				const userMessage = await this.createUserMessage(message, imageDataList);
 				conversation.messages.push(userMessage);
+				// The stored message now holds the redacted references
+				reviewedTempIds.forEach(tempId => this.aiManager.getImageReferenceManager().removeRef(tempId));
 				
 				// 使用MessageRenderManager增量添加用户消息
 				await this.messageRenderer.appendMessage(userMessage);
@@ -1164,8 +1221,14 @@ export class AIChatView extends ItemView {
 				// 使用MessageRenderManager增量添加typing指示器
 				await this.messageRenderer.appendMessage(typingMessage);
 
-				// Send to AI and get response
-				const response = await this.aiManager.sendPreBuiltMessagesToAI(messagesToSend, currentModel);
+				// Send to AI and stream the response into the typing message
+				// The conversation only receives the final message once the stream has completed
+				const requestController = new AbortController();
+				this.activeRequestController = requestController;
+				const response = await this.aiManager.sendPreBuiltMessagesToAI(messagesToSend, currentModel, (partialContent) => {
+					partialResponse = partialContent;
+					this.messageRenderer.streamMessage({ ...typingMessage, content: partialContent });
+				}, requestController.signal);
 
 				// Remove typing indicator from conversation data
 				const typingIndex = conversation.messages.findIndex(m => m.hasOwnProperty('isTyping'));
@@ -1173,8 +1236,9 @@ export class AIChatView extends ItemView {
 					conversation.messages.splice(typingIndex, 1);
 				}
 
-				// Add AI response
-				const assistantMessage = this.createAssistantMessage(response);
+				// Add AI response, noting which model answered in case a fallback took over
+				const assistantMessage = this.createAssistantMessage(response.content);
+				assistantMessage.modelName = response.modelConfig.name;
 				conversation.messages.push(assistantMessage);
 				
 				// 使用MessageRenderManager替换typing为实际回复
@@ -1187,6 +1251,12 @@ export class AIChatView extends ItemView {
 				this.startAutoSaveTimer();
 
 			} catch (error) {
+				// Stopped by the user - replace the typing indicator with the partial answer
+				if (error instanceof RequestCancelledError) {
+					await this.finishCancelledResponse(partialResponse);
+					return;
+				}
+
 				getLogger().error('Failed to send message:', error);
 				
 				// Handle error by showing error message instead of removing everything
@@ -1198,14 +1268,14 @@ export class AIChatView extends ItemView {
 						const typingMsg = conversation.messages[typingIndex];
 						
 						// Create error message to replace typing indicator
-						const errorMessage = this.createAssistantMessage(`❌ Error: ${error.message}`);
+						const errorMessage = this.createAssistantMessage(`❌ Error: ${getProviderErrorMessage(error)}`);
 						conversation.messages[typingIndex] = errorMessage; // Replace in conversation
 						
 						// Use MessageRenderManager to replace typing with error message
 						await this.messageRenderer.replaceMessage(typingMsg.id, errorMessage);
 					} else {
 						// If no typing indicator found, add error message normally
-						const errorMessage = this.createAssistantMessage(`❌ Error: ${error.message}`);
+						const errorMessage = this.createAssistantMessage(`❌ Error: ${getProviderErrorMessage(error)}`);
 						conversation.messages.push(errorMessage);
 						await this.messageRenderer.appendMessage(errorMessage);
 					}
@@ -1215,11 +1285,11 @@ export class AIChatView extends ItemView {
 				// textInput.value = message; // Removed this line
 				
 				// Error notice is now shown in the chat, so we can make this less intrusive
-				new Notice(`Request failed: ${error.message}`);
+				new Notice(`Request failed: ${getProviderErrorMessage(error)}`);
 			} finally {
 				if (!sendOnly) {
-					sendButton.disabled = false;
-					setIcon(sendButton, 'send');
+					this.activeRequestController = null;
+					setGenerating(false);
 				}
 			}
 		};
@@ -1248,12 +1318,62 @@ export class AIChatView extends ItemView {
 		});
 
 		// Store update function for later use
-		this.instanceMethods.set(this, { updateSendButtonState });
+		this.instanceMethods.set(this, { updateSendButtonState, setGenerating });
 		
 		// Initialize button state
 		updateSendButtonState();
 	}
 
+	/**
+	 * 停止当前正在生成的回复
+	 */
+	stopGenerating(): void {
+		if (this.activeRequestController) {
+			getLogger().log('⏹️ Stopping AI response');
+			this.activeRequestController.abort();
+		}
+	}
+
+	/**
+	 * 面板外发起的请求（如直接发送截图）也由停止按钮控制：返回该请求的取消令牌
+	 */
+	beginExternalRequest(): AbortController {
+		const controller = new AbortController();
+		this.activeRequestController = controller;
+		this.instanceMethods.get(this)?.setGenerating?.(true);
+		return controller;
+	}
+
+	endExternalRequest(controller: AbortController): void {
+		// A newer request may already own the stop button
+		if (this.activeRequestController !== controller) return;
+		this.activeRequestController = null;
+		this.instanceMethods.get(this)?.setGenerating?.(false);
+	}
+
+	/**
+	 * 用户中止后，用部分回复（或"已取消"提示）替换 typing 指示器
+	 */
+	private async finishCancelledResponse(partialContent: string): Promise<void> {
+		const conversation = this.aiManager.getCurrentConversationData();
+		if (!conversation) return;
+
+		const cancelledMessage = this.aiManager.createCancelledMessage(partialContent);
+		const typingIndex = conversation.messages.findIndex(m => m.hasOwnProperty('isTyping'));
+		if (typingIndex > -1) {
+			const typingMsg = conversation.messages[typingIndex];
+			conversation.messages[typingIndex] = cancelledMessage;
+			await this.messageRenderer.replaceMessage(typingMsg.id, cancelledMessage);
+		} else {
+			conversation.messages.push(cancelledMessage);
+			await this.messageRenderer.appendMessage(cancelledMessage);
+		}
+
+		// Partial answers are part of the conversation, let auto-save pick them up
+		this.lastAutoSaveContent = null;
+		this.startAutoSaveTimer();
+	}
+
 	private createModelSelector(container: HTMLElement): void {
 		const allModels = this.plugin.settings.modelConfigs;
 		
@@ -2245,6 +2365,9 @@ export class AIChatView extends ItemView {
 	}
 
 	async onClose(): Promise<void> {
+		// Abort any response still being generated
+		this.stopGenerating();
+		
 		// Final auto-save before closing
 		await this.performFinalAutoSave();
 		
@@ -2883,7 +3006,9 @@ tags:
 			
 			// Message header with BestNote format including timestamp and includeInContext info
 			const includeInContextInfo = message.includeInContext !== false ? 'true' : 'false';
-			markdown += `${messageType}: <!-- ${formatLocalDateTime(message.timestamp)}|includeInContext:${includeInContextInfo} -->\n`;
+			// The answering model's name is kept inside the comment, without characters that would end it
+			const modelInfo = message.modelName ? `|model:${message.modelName.replace(/[|>]/g, ' ').trim()}` : '';
+			markdown += `${messageType}: <!-- ${formatLocalDateTime(message.timestamp)}|includeInContext:${includeInContextInfo}${modelInfo} -->\n`;
 			
 			// Add text content first if present
 			if (message.content) {
@@ -3074,7 +3199,8 @@ tags:
 					type: message.type,
 					content: content,
 					timestamp: message.timestamp, // Preserve original timestamp
-					includeInContext: message.includeInContext // Preserve includeInContext setting
+					includeInContext: message.includeInContext, // Preserve includeInContext setting
+					modelName: message.modelName
 					// 移除 tempImages 字段，现在由 ImageReferenceManager 统一管理
 				};
 				
@@ -1,9 +1,23 @@
-import { Notice, WorkspaceLeaf, TFile, requestUrl, RequestUrlResponsePromise, RequestUrlResponse } from 'obsidian';
+import { Notice, WorkspaceLeaf, TFile, requestUrl } from 'obsidian';
 import ImageCapturePlugin from '../main';
-import { LLM_PROVIDERS, ModelConfig } from '../types';
+import { ModelConfig } from '../types';
 import { AI_CHAT_VIEW_TYPE } from './ai-chat-view';
 import { getLogger } from '../utils/logger';
 import { t } from '../i18n';
+import { streamSSERequest, withCancellation, waitWithCancellation, HttpStatusError, RequestCancelledError, RequestTimeoutError, StreamRequest, StreamUnavailableError, StreamUpdateCallback } from './streaming';
+import { getProviderDisplayName, getProviderErrorMessage, getRetryDelay, MAX_RETRIES, ProviderError } from './provider-errors';
+import { getProviderAdapter, isProviderReady, ProviderAdapter, ProviderCredential } from './providers';
+import { BpeEncoding, countMessageTokens, fitHistoryToBudget, getModelFamily, getTokenCounter, getTokenMargin, setBpeRanksSource } from './tokenizer';
+
+// tiktoken publishes its BPE tables here, they are only downloaded when the user turns on "Download tokenizer tables"
+const BPE_RANKS_URL = 'https://openaipublic.blob.core.windows.net/encodings';
+// SHA-256 of each table, pinned to the hashes tiktoken itself checks
+const BPE_RANKS_SHA256: Record<BpeEncoding, string> = {
+	'cl100k_base': '223921b76ee99bde995b7ff738513eef100fb51d18c93597a113bcffe865b2a7',
+	'o200k_base': '446a9538cb6c348e3516120d7c08b09f57c36495e2acfffe59a5bf8b0cfb1a2d'
+};
+// Output space kept free when trimming history, unless the model's configured maximum is smaller
+const MIN_OUTPUT_TOKENS = 256;
 
 // Interface for temporary image data
 interface TempImageData {
@@ -134,6 +148,9 @@ interface MessageContentItem {
 interface AIChatViewMethods {
 	updateContent?(): void;
 	getCurrentMode?(): string;
+	streamMessage?(message: AIMessage): void;
+	beginExternalRequest?(): AbortController;
+	endExternalRequest?(controller: AbortController): void;
 }
 
 export interface AIMessage {
@@ -144,6 +161,13 @@ export interface AIMessage {
 	timestamp: Date;
 	isTyping?: boolean;
 	includeInContext?: boolean;  // 是否参与上下文构建，默认为true
+	modelName?: string;          // Model that answered, set on assistant replies
+}
+
+// Reply text together with the model config that produced it (the primary or one of its fallbacks)
+export interface AIResponse {
+	content: string;
+	modelConfig: ModelConfig;
 }
 
 export interface AIConversation {
@@ -165,6 +189,12 @@ export class AIManager {
 	constructor(plugin: ImageCapturePlugin) {
 		this.plugin = plugin;
 		this.imageRefManager = new ImageReferenceManager(plugin);
+		this.updateTokenizerSource();
+	}
+
+	// Exact OpenAI token counts need the downloaded tables, everything else uses the estimate
+	updateTokenizerSource(): void {
+		setBpeRanksSource(this.plugin.settings.downloadTokenizerTables ? encoding => this.loadBpeRanks(encoding) : null);
 	}
 
 	// 获取图片引用管理器的公共访问方法
@@ -187,7 +217,7 @@ export class AIManager {
 	}
 
 
-	async sendImagesToAI(images: { dataUrl: string, fileName: string, localPath?: string | null }[], userMessage?: string): Promise<void> {
+	async sendImagesToAI(images: { dataUrl: string, fileName: string, localPath?: string | null }[], userMessage?: string, signal?: AbortSignal): Promise<void> {
 		if (!this.plugin.settings.enableAIAnalysis) {
 			throw new Error('AI analysis is disabled');
 		}
@@ -207,10 +237,17 @@ export class AIManager {
 
 		// Get provider credentials
 		const credentials = this.plugin.settings.providerCredentials[defaultModelConfig.providerId];
-		if (!credentials || !credentials.verified || !credentials.apiKey.trim()) {
+		if (!isProviderReady(defaultModelConfig.providerId, credentials)) {
 			throw new Error('Provider credentials not verified. Please verify API key in Settings.');
 		}
 
+		// Let the user confirm redactions before any image is uploaded
+		if (this.plugin.piiRedactionManager.isEnabled()) {
+			const reviewed = await this.plugin.piiRedactionManager.reviewImages(images.map(img => img.dataUrl));
+			if (!reviewed) return;
+			images = images.map((img, i) => ({ ...img, dataUrl: reviewed[i] }));
+		}
+
 		// Create or get current conversation
 		let conversation = this.getCurrentConversation();
 		if (!conversation) {
@@ -257,6 +294,9 @@ export class AIManager {
 		conversation.messages.push(typingMessage);
 		this.updateAIPanel();
 
+		// Latest streamed text, kept so a cancelled request can leave its partial answer
+		let partialResponse = '';
+
 		try {
 			// Extract text content from user message (without images)
 			const { textContent } = this.parseMarkdownContent(userMsg.content);
@@ -268,7 +308,12 @@ export class AIManager {
 				textContent || '', // 删除默认的分析文本，使用空字符串
 				images.map(img => img.dataUrl), 
 				defaultModelConfig,
-				true // 保持兼容性，实际逻辑在 buildContextMessages 中处理
+				true, // 保持兼容性，实际逻辑在 buildContextMessages 中处理
+				(partialContent) => {
+					partialResponse = partialContent;
+					this.streamToAIPanel({ ...typingMessage, content: partialContent });
+				},
+				signal
 			);
 
 			// Remove typing indicator more reliably
@@ -284,13 +329,14 @@ export class AIManager {
 			const assistantMsg: AIMessage = {
 				id: this.generateMessageId(),
 				type: 'assistant',
-				content: response,
-				timestamp: new Date()
+				content: response.content,
+				timestamp: new Date(),
+				modelName: response.modelConfig.name // A fallback may have answered instead of the default model
 			};
 			conversation.messages.push(assistantMsg);
 
 			// Update last used timestamp
-			defaultModelConfig.lastUsed = new Date();
+			response.modelConfig.lastUsed = new Date();
 			await this.plugin.saveSettings();
 
 			// Update panel
@@ -308,11 +354,18 @@ export class AIManager {
 			// Also remove any other lingering typing indicators to prevent conflicts
 			conversation.messages = conversation.messages.filter(m => !m.isTyping);
 
+			// Stopped by the user - keep whatever was streamed so far instead of reporting an error
+			if (error instanceof RequestCancelledError) {
+				conversation.messages.push(this.createCancelledMessage(partialResponse));
+				this.updateAIPanel();
+				return;
+			}
+
 			// Add error message
 			const errorMsg: AIMessage = {
 				id: this.generateMessageId(),
 				type: 'assistant',
-				content: `Error: ${error.message}`,
+				content: `Error: ${getProviderErrorMessage(error)}`,
 				timestamp: new Date()
 			};
 			conversation.messages.push(errorMsg);
@@ -332,7 +385,16 @@ export class AIManager {
 			localPath: localPath || null
 		}];
 		
-		return await this.sendImagesToAI(imageArray, userMessage);
+		// Hand the cancellation token to the panel so its stop button can abort this request
+		await this.showAIPanel();
+		const aiLeaf = this.plugin.app.workspace.getLeavesOfType(AI_CHAT_VIEW_TYPE)[0];
+		const view = aiLeaf?.view as AIChatViewMethods | undefined;
+		const controller = view?.beginExternalRequest ? view.beginExternalRequest() : new AbortController();
+		try {
+			return await this.sendImagesToAI(imageArray, userMessage, controller.signal);
+		} finally {
+			view?.endExternalRequest?.(controller);
+		}
 	}
 
 
@@ -342,6 +404,9 @@ export class AIManager {
 	// Context building function for conversation history - COMPLETELY SIMPLIFIED
 	async buildContextMessages(conversation: AIConversation | null, currentMessage: string, currentImages?: string[], modelConfig?: ModelConfig, includeModeprompt?: boolean): Promise<any[]> {
 		const messages: any[] = [];
+		// History and the messages after it are collected separately so history can be trimmed to the token budget
+		const history: any[] = [];
+		const trailing: any[] = [];
 		const contextSettings = this.plugin.settings.contextSettings || {
 			maxContextMessages: 10,
 		};
@@ -417,14 +482,14 @@ export class AIManager {
 					}
 					
 					// Add this message block as one API message
-					messages.push({
+					history.push({
 						role: role,
 						content: messageContent
 					});
 				} else {
 					// Text-only message block or no images
 					if (textContent && textContent.trim()) {
-						messages.push({
+						history.push({
 							role: role,
 							content: textContent
 						});
@@ -442,7 +507,7 @@ export class AIManager {
 		if (shouldApply) {
 			const modePrompt = this.getModePrompt(currentMode);
 			if (modePrompt && modePrompt.trim()) {
-				messages.push({
+				trailing.push({
 					role: 'system',
 					content: modePrompt
 				});
@@ -472,18 +537,22 @@ export class AIManager {
 				});
 			}
 			
-			messages.push({
+			trailing.push({
 				role: 'user',
 				content: messageContent
 			});
 		} else {
 			// Current text-only message
-			messages.push({
+			trailing.push({
 				role: 'user',
 				content: currentMessage
 			});
 		}
 
+		// 5. Drop the oldest history until everything fits the model's context window
+		const keptHistory = await this.trimHistoryToBudget(history, [...messages, ...trailing], targetModelConfig);
+		messages.push(...keptHistory, ...trailing);
+
 		getLogger().log('🔧 buildContextMessages result:', {
 			messagesCount: messages.length,
 			messages: messages.map(m => ({
@@ -497,7 +566,10 @@ export class AIManager {
 	}
 
 	// New API call with context support
-	async callAIWithContext(conversation: AIConversation | null, message: string, images?: string[], modelConfig?: ModelConfig, includeModeprompt?: boolean): Promise<string> {
+	// onUpdate enables streaming: it receives the accumulated response text as chunks arrive
+	// signal is the cancellation token, aborting it rejects with RequestCancelledError
+	// Goes through the model's fallback chain like sendPreBuiltMessagesToAI
+	async callAIWithContext(conversation: AIConversation | null, message: string, images?: string[], modelConfig?: ModelConfig, includeModeprompt?: boolean, onUpdate?: StreamUpdateCallback, signal?: AbortSignal): Promise<AIResponse> {
 		// Use provided model config or default
 		const targetModelConfig = modelConfig || this.plugin.settings.modelConfigs.find(
 			mc => mc.id === this.plugin.settings.defaultModelConfigId
@@ -511,11 +583,12 @@ export class AIManager {
 		const contextMessages = await this.buildContextMessages(conversation, message, images, targetModelConfig, includeModeprompt);
 		
 		// Call appropriate API with context
-		return await this.callAPIWithContextMessages(contextMessages, targetModelConfig);
+		return await this.sendPreBuiltMessagesToAI(contextMessages, targetModelConfig, onUpdate, signal);
 	}
 
 	// New method: Send pre-built messages to AI (separated from message construction)
-	async sendPreBuiltMessagesToAI(messages: any[], modelConfig?: ModelConfig): Promise<string> {
+	// Falls back along the model's fallback chain when it stays rate-limited or unavailable after retrying
+	async sendPreBuiltMessagesToAI(messages: any[], modelConfig?: ModelConfig, onUpdate?: StreamUpdateCallback, signal?: AbortSignal): Promise<AIResponse> {
 		// Use provided model config or default
 		const targetModelConfig = modelConfig || this.plugin.settings.modelConfigs.find(
 			mc => mc.id === this.plugin.settings.defaultModelConfigId
@@ -525,20 +598,91 @@ export class AIManager {
 			throw new Error('No model configured');
 		}
 
-		// Send the pre-built messages directly to API
-		return await this.callAPIWithContextMessages(messages, targetModelConfig);
+		// A fallback only takes over while nothing has been streamed yet
+		let received = false;
+		const trackedUpdate = onUpdate ? (content: string) => {
+			received = true;
+			onUpdate(content);
+		} : undefined;
+
+		const chain = this.getFallbackChain(targetModelConfig, this.hasImageContent(messages));
+		for (let i = 0; i < chain.length; i++) {
+			const current = chain[i];
+			try {
+				// The history was trimmed for the first model, a fallback may have a smaller context window
+				const modelMessages = i === 0 ? messages : await this.fitMessagesToModel(messages, current);
+				// Send the pre-built messages directly to API
+				const content = await this.callAPIWithContextMessages(modelMessages, current, trackedUpdate, signal);
+				return { content, modelConfig: current };
+			} catch (error) {
+				const next = chain[i + 1];
+				if (!next || received || !(error instanceof ProviderError) || !error.retryable) {
+					throw error;
+				}
+				getLogger().warn(`⚠️ ${current.name} failed (${error.kind}), falling back to ${next.name}`);
+				new Notice(t('aiChat.fallingBack', { model: current.name, fallback: next.name }));
+			}
+		}
+		throw new Error('No model configured');
+	}
+
+	/**
+	 * 模型本身加上按顺序排列的备用模型；缺失的配置、凭据未验证的提供商，以及有图片时不支持视觉的备用模型都会被跳过
+	 */
+	private getFallbackChain(modelConfig: ModelConfig, hasImages: boolean): ModelConfig[] {
+		const { modelConfigs, providerCredentials } = this.plugin.settings;
+		const chain = [modelConfig];
+		(modelConfig.fallbackModelIds || []).forEach(id => {
+			const fallback = modelConfigs.find(mc => mc.id === id);
+			if (!fallback || chain.includes(fallback)) return;
+			if (hasImages && !fallback.isVisionCapable) return;
+			if (!isProviderReady(fallback.providerId, providerCredentials[fallback.providerId])) return;
+			chain.push(fallback);
+		});
+		return chain;
+	}
+
+	/**
+	 * 把已构建好的消息重新裁剪到另一个模型的上下文窗口：
+	 * 开头的系统提示词和末尾的当前消息（连同其前面的模式提示词）保持不变，只丢弃中间最早的历史
+	 */
+	private async fitMessagesToModel(messages: any[], modelConfig: ModelConfig): Promise<any[]> {
+		let historyStart = 0;
+		while (historyStart < messages.length && messages[historyStart].role === 'system') {
+			historyStart++;
+		}
+		let trailingStart = messages.map(message => message.role).lastIndexOf('user');
+		if (trailingStart < historyStart) return messages;
+		while (trailingStart > historyStart && messages[trailingStart - 1].role === 'system') {
+			trailingStart--;
+		}
+
+		const leading = messages.slice(0, historyStart);
+		const trailing = messages.slice(trailingStart);
+		const history = await this.trimHistoryToBudget(messages.slice(historyStart, trailingStart), [...leading, ...trailing], modelConfig);
+		return [...leading, ...history, ...trailing];
+	}
+
+	private hasImageContent(messages: any[]): boolean {
+		return messages.some(message => Array.isArray(message.content)
+			&& message.content.some((part: MessageContentItem) => part.type === 'image_url'));
 	}
 
-	// New function to call API with pre-built context messages
-	private async callAPIWithContextMessages(messages: any[], modelConfig: ModelConfig): Promise<string> {
+	// Calls exactly this model with pre-built context messages, without the fallback chain
+	async callAPIWithContextMessages(messages: any[], modelConfig: ModelConfig, onUpdate?: StreamUpdateCallback, signal?: AbortSignal): Promise<string> {
 		// Import logger
 		const { getLogger } = require('../utils/logger');
 		const logger = getLogger();
 
 		// Get provider credentials
 		const credentials = this.plugin.settings.providerCredentials[modelConfig.providerId];
-		if (!credentials || !credentials.verified || !credentials.apiKey.trim()) {
-			throw new Error('Provider credentials not verified');
+		if (!credentials || !isProviderReady(modelConfig.providerId, credentials)) {
+			throw new ProviderError('auth', 'Provider credentials not verified', modelConfig.providerId);
+		}
+
+		const adapter = getProviderAdapter(modelConfig.providerId);
+		if (!adapter) {
+			throw new Error(`Unsupported provider: ${modelConfig.providerId}`);
 		}
 
 		logger.log(`🔄 Calling AI API with context - Provider: ${modelConfig.providerId}, Model: ${modelConfig.modelId}`);
@@ -546,7 +690,7 @@ export class AIManager {
 		logger.log(`⚙️ Current model config - ID: ${modelConfig.id}, MaxTokens: ${modelConfig.settings.maxTokens}`);
 
 		// Calculate safe maxTokens based on model's context window
-		const safeMaxTokens = this.calculateSafeMaxTokens(messages, modelConfig);
+		const safeMaxTokens = await this.calculateSafeMaxTokens(messages, modelConfig);
 		logger.log(`🔧 Adjusted maxTokens from ${modelConfig.settings.maxTokens} to ${safeMaxTokens}`);
 		
 		// Create a temporary model config with adjusted maxTokens
@@ -558,94 +702,41 @@ export class AIManager {
 			}
 		};
 
-		let response: RequestUrlResponse;
-
-		if (modelConfig.providerId === 'openai') {
-			response = await this.callOpenAIWithContext(messages, adjustedModelConfig, credentials);
-		} else if (modelConfig.providerId === 'anthropic') {
-			response = await this.callClaudeWithContext(messages, adjustedModelConfig, credentials);
-		} else if (modelConfig.providerId === 'google') {
-			response = await this.callGoogleWithContext(messages, adjustedModelConfig, credentials);
-		} else if (modelConfig.providerId === 'cohere') {
-			response = await this.callCohereWithContext(messages, adjustedModelConfig, credentials);
-		} else if (modelConfig.providerId === 'openrouter') {
-			response = await this.callOpenRouterWithContext(messages, adjustedModelConfig, credentials);
-		} else if (modelConfig.providerId === 'custom' || modelConfig.providerId.startsWith('custom_')) {
-			response = await this.callCustomAPIWithContext(messages, adjustedModelConfig, credentials);
-		} else {
-			throw new Error(`Unsupported provider: ${modelConfig.providerId}`);
-		}
-
-		getLogger().log(`API Response Status: ${response.status}`);
-
-		if (response.status < 200 || response.status >= 300) {
-			const errorText = response.text;
-			getLogger().error(`API call failed. Status: ${response.status}, Response: ${errorText}`);
-			throw new Error(`API call failed: ${response.status} ${errorText}`);
-		}
-
-		const responseText = response.text;
-		getLogger().log('API Response Preview:', responseText.substring(0, 200) + '...');
-		getLogger().log('API Response End:', responseText.substring(Math.max(0, responseText.length - 200)));
-		
-		// Check if response appears to be truncated (doesn't end properly)
-		if (responseText.includes('<think>') && !responseText.includes('</think>')) {
-			getLogger().warn('⚠️ Thinking response appears to be truncated - missing closing tag');
-		}
-		
-		// Parse response based on provider
-		if (modelConfig.providerId === 'openai' || modelConfig.providerId === 'openrouter' || modelConfig.providerId === 'custom' || modelConfig.providerId.startsWith('custom_')) {
-			const data = JSON.parse(responseText);
-			
-			// For thinking models, check if there's additional content beyond message.content
-			const choice = data.choices[0];
-			let content = choice.message.content;
-			
-			// Handle thinking models that might have reasoning/thinking content
-			if (choice.message.reasoning || choice.reasoning) {
-				const thinking = choice.message.reasoning || choice.reasoning;
-				content = `<think>\n${thinking}\n</think>\n\n${content}`;
-			}
-			
-			// Some thinking models put the full response in different fields
-			if (choice.message.thinking_content) {
-				content = `<think>\n${choice.message.thinking_content}\n</think>\n\n${content}`;
-			}
-			
-			return content;
-		} else if (modelConfig.providerId === 'anthropic') {
-			const data = JSON.parse(responseText);
-			return data.content[0].text;
-		} else if (modelConfig.providerId === 'google') {
-			const data = JSON.parse(responseText);
-			return data.candidates[0].content.parts[0].text;
-		} else if (modelConfig.providerId === 'cohere') {
-			const data = JSON.parse(responseText);
-			return data.text;
-		}
-		
-		throw new Error('Unknown provider response format');
+		return await this.requestWithRetry(
+			modelConfig.providerId,
+			update => this.executeContextRequest(adapter, messages, adjustedModelConfig, credentials, update, signal),
+			onUpdate,
+			signal
+		);
 	}
 
-
-	private extractResponseContent(data: any, providerId: string): string {
-		try {
-			if (providerId === 'openai' || providerId === 'custom' || providerId.startsWith('custom_') || providerId === 'openrouter') {
-				return data.choices?.[0]?.message?.content || 'No response received';
-			} else if (providerId === 'anthropic') {
-				return data.content?.[0]?.text || 'No response received';
-			} else if (providerId === 'google') {
-				return data.candidates?.[0]?.content?.parts?.[0]?.text || 'No response received';
-			} else if (providerId === 'cohere') {
-				return data.text || 'No response received';
+	/**
+	 * 对限流、服务端错误和网络错误按指数退避重试，优先遵循 Retry-After
+	 * 已经流式输出过内容的请求不再重试，避免回复被重复拼接
+	 */
+	private async requestWithRetry(providerId: string, request: (onUpdate?: StreamUpdateCallback) => Promise<string>, onUpdate?: StreamUpdateCallback, signal?: AbortSignal): Promise<string> {
+		let received = false;
+		const trackedUpdate = onUpdate ? (content: string) => {
+			received = true;
+			onUpdate(content);
+		} : undefined;
+
+		for (let attempt = 0; ; attempt++) {
+			try {
+				return await request(trackedUpdate);
+			} catch (error) {
+				const delay = error instanceof ProviderError && !received ? getRetryDelay(error, attempt) : null;
+				if (delay === null) {
+					throw error;
+				}
+				getLogger().warn(`⚠️ ${error.kind} error (${error.message}), retrying in ${delay}ms (${attempt + 1}/${MAX_RETRIES})`);
+				new Notice(t('aiChat.retrying', { provider: getProviderDisplayName(providerId), seconds: Math.ceil(delay / 1000), attempt: attempt + 1, max: MAX_RETRIES }));
+				await waitWithCancellation(delay, signal);
 			}
-			return 'Unknown response format';
-		} catch (error) {
-			getLogger().error('Failed to extract response content:', error);
-			return 'Failed to parse AI response';
 		}
 	}
 
+
 	createNewConversation(title: string): AIConversation {
 		const conversation: AIConversation = {
 			id: this.generateConversationId(),
@@ -892,6 +983,28 @@ export class AIManager {
 		}
 	}
 
+	/**
+	 * 创建被用户中止的助手消息：有部分内容时保留部分内容，否则显示"已取消"并排除出上下文
+	 */
+	createCancelledMessage(partialContent: string): AIMessage {
+		const hasContent = partialContent.trim().length > 0;
+		return {
+			id: this.generateMessageId(),
+			type: 'assistant',
+			content: hasContent ? partialContent : t('aiChat.responseCancelled'),
+			timestamp: new Date(),
+			includeInContext: hasContent
+		};
+	}
+
+	// Forward a partial response to the AI panel without touching the conversation data
+	private streamToAIPanel(message: AIMessage): void {
+		const aiLeaf = this.plugin.app.workspace.getLeavesOfType(AI_CHAT_VIEW_TYPE)[0];
+		if (aiLeaf && (aiLeaf.view as AIChatViewMethods).streamMessage) {
+			(aiLeaf.view as AIChatViewMethods).streamMessage!(message);
+		}
+	}
+
 	getCurrentConversationData(): AIConversation | null {
 		return this.getCurrentConversation();
 	}
@@ -1149,165 +1262,6 @@ export class AIManager {
 		};
 	}
 
-	// Text-only API methods for better chat experience
-	private async callOpenAITextOnly(message: string, modelConfig: ModelConfig, credentials: any): Promise<RequestUrlResponsePromise> {
-		// Get baseUrl from provider config or credentials
-		const provider = LLM_PROVIDERS.find(p => p.id === 'openai');
-		const baseUrl = credentials.baseUrl || provider?.defaultBaseUrl || 'https://api.openai.com/v1';
-		
-		return requestUrl( {
-			url: `${baseUrl}/chat/completions`,
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-				'Authorization': `Bearer ${credentials.apiKey}`
-			},
-			body: JSON.stringify({
-				model: modelConfig.modelId,
-				messages: [
-					{
-						role: 'system',
-						content: this.getEffectiveSystemPrompt()
-					},
-					{
-						role: 'user',
-						content: message
-					}
-				],
-				max_tokens: modelConfig.settings.maxTokens,
-				temperature: modelConfig.settings.temperature,
-				top_p: modelConfig.settings.topP,
-				frequency_penalty: modelConfig.settings.frequencyPenalty,
-				presence_penalty: modelConfig.settings.presencePenalty
-			})
-		});
-	}
-
-	private async callClaudeTextOnly(message: string, modelConfig: ModelConfig, credentials: any): Promise<RequestUrlResponsePromise> {
-		const requestBody: any = {
-			model: modelConfig.modelId,
-			max_tokens: modelConfig.settings.maxTokens,
-			temperature: modelConfig.settings.temperature,
-			messages: [{
-				role: 'user',
-				content: message
-			}],
-			system: this.getEffectiveSystemPrompt()
-		};
-
-		return requestUrl( {
-			url:'https://api.anthropic.com/v1/messages',
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-				'x-api-key': credentials.apiKey,
-				'anthropic-version': '2023-06-01'
-			},
-			body: JSON.stringify(requestBody)
-		});
-	}
-
-	private async callGoogleTextOnly(message: string, modelConfig: ModelConfig, credentials: any): Promise<RequestUrlResponsePromise> {
-		const url = `https://generativelanguage.googleapis.com/v1beta/models/${modelConfig.modelId}:generateContent?key=${credentials.apiKey}`;
-		
-		return requestUrl( {
-			url:url,
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json'
-			},
-			body: JSON.stringify({
-				contents: [{
-					parts: [{ text: message }]
-				}],
-				generationConfig: {
-					temperature: modelConfig.settings.temperature,
-					maxOutputTokens: modelConfig.settings.maxTokens
-				}
-			})
-		});
-	}
-
-	private async callOpenRouterTextOnly(message: string, modelConfig: ModelConfig, credentials: any): Promise<RequestUrlResponsePromise> {
-		return requestUrl( {
-			url:'https://openrouter.ai/api/v1/chat/completions',
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-				'Authorization': `Bearer ${credentials.apiKey}`,
-				'HTTP-Referer': 'https://obsidian.md',
-				'X-Title': 'Obsidian CaptureAI Plugin'
-			},
-			body: JSON.stringify({
-				model: modelConfig.modelId,
-				messages: [
-					{
-						role: 'system',
-						content: this.getEffectiveSystemPrompt()
-					},
-					{
-						role: 'user',
-						content: message
-					}
-				],
-				max_tokens: modelConfig.settings.maxTokens,
-				temperature: modelConfig.settings.temperature,
-				top_p: modelConfig.settings.topP,
-				frequency_penalty: modelConfig.settings.frequencyPenalty,
-				presence_penalty: modelConfig.settings.presencePenalty
-			})
-		});
-	}
-
-	private async callCustomAPITextOnly(message: string, modelConfig: ModelConfig, credentials: any): Promise<RequestUrlResponsePromise> {
-		// Use customProvider from modelConfig if available (new structure)
-		const customConfig = modelConfig.customProvider;
-		let baseUrl: string, apiPath: string, apiKey: string;
-
-		if (customConfig) {
-			// New structure: get config from modelConfig.customProvider
-			baseUrl = customConfig.baseUrl;
-			apiPath = customConfig.apiPath || '/v1/chat/completions';
-			apiKey = customConfig.apiKey;
-		} else {
-			// Fallback to old structure: get config from credentials
-			if (!credentials?.baseUrl) {
-				throw new Error('Base URL is required for custom provider');
-			}
-			baseUrl = credentials.baseUrl;
-			apiPath = credentials.apiPath || '/v1/chat/completions';
-			apiKey = credentials.apiKey;
-		}
-
-		// Use custom API path if provided, otherwise default to "/v1/chat/completions"
-		const fullUrl = `${baseUrl.replace(/\/+$/, '')}${apiPath}`;
-
-		return requestUrl( {
-			url:fullUrl,
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-				'Authorization': `Bearer ${apiKey}`
-			},
-			body: JSON.stringify({
-				model: modelConfig.modelId,
-				messages: [
-					{
-						role: 'system',
-						content: this.getEffectiveSystemPrompt()
-					},
-					{
-						role: 'user',
-						content: message
-					}
-				],
-				max_tokens: modelConfig.settings.maxTokens,
-				temperature: modelConfig.settings.temperature
-			})
-		});
-	}
-
-
 	private getEffectiveSystemPrompt(): string {
 		const globalPrompt = this.plugin.settings.globalSystemPrompt?.trim();
 		return globalPrompt || 'You are a helpful AI assistant.';
@@ -1330,240 +1284,189 @@ export class AIManager {
 		return modePrompts[mode as keyof typeof modePrompts];
 	}
 
-	// Context-aware API calls for different providers
-	private async callOpenAIWithContext(messages: any[], modelConfig: ModelConfig, credentials: any): Promise<RequestUrlResponsePromise> {
-		// Import logger
-		const { getLogger } = require('../utils/logger');
-		const logger = getLogger();
-
-		const requestBody = {
-			model: modelConfig.modelId,
-			messages: messages,
-			max_tokens: modelConfig.settings.maxTokens,
-			temperature: modelConfig.settings.temperature,
-			top_p: modelConfig.settings.topP,
-			frequency_penalty: modelConfig.settings.frequencyPenalty,
-			presence_penalty: modelConfig.settings.presencePenalty
-		};
+	/**
+	 * 执行上下文请求：有 onUpdate 且提供商支持时走 SSE 流式请求，否则（或流式无法建立时）走 requestUrl
+	 */
+	private async executeContextRequest(adapter: ProviderAdapter, messages: any[], modelConfig: ModelConfig, credentials: ProviderCredential, onUpdate?: StreamUpdateCallback, signal?: AbortSignal): Promise<string> {
+		const streamRequest = onUpdate ? adapter.buildRequest(messages, modelConfig, credentials, true) : null;
+		if (onUpdate && streamRequest) {
+			try {
+				return await this.streamContextRequest(adapter, streamRequest, modelConfig, onUpdate, signal);
+			} catch (error) {
+				if (error instanceof HttpStatusError) {
+					throw adapter.parseError(error.status, error.body, error.headers);
+				}
+				if (error instanceof RequestTimeoutError) {
+					throw new ProviderError('timeout', error.message, adapter.providerId);
+				}
+				if (!(error instanceof StreamUnavailableError)) {
+					throw error;
+				}
+				getLogger().warn(`⚠️ Streaming unavailable (${error.message}), falling back to non-streaming request`);
+			}
+		}
 
-		logger.log(`📤 OpenAI API Request Body:`, JSON.stringify(requestBody, null, 2));
-		logger.log(`🔑 Using API Key: ${credentials.apiKey.substring(0, 10)}...`);
-
-		// Get baseUrl from provider config or credentials
-		const provider = LLM_PROVIDERS.find(p => p.id === 'openai');
-		const baseUrl = credentials.baseUrl || provider?.defaultBaseUrl || 'https://api.openai.com/v1';
-
-		return requestUrl( {
-			url: `${baseUrl}/chat/completions`,
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-				'Authorization': `Bearer ${credentials.apiKey}`
-			},
-			body: JSON.stringify(requestBody)
-		});
-	}
+		const request = adapter.buildRequest(messages, modelConfig, credentials, false);
+		if (!request) {
+			throw new Error(`Provider ${adapter.providerId} cannot build a request`);
+		}
 
-	private async callClaudeWithContext(messages: any[], modelConfig: ModelConfig, credentials: any): Promise<RequestUrlResponsePromise> {
-		// Filter out system messages for Claude and extract system prompt
-		let systemPrompt = '';
-		const filteredMessages = messages.filter(msg => {
-			if (msg.role === 'system') {
-				systemPrompt = msg.content;
-				return false;
+		// requestUrl cannot be aborted, a cancelled request is simply abandoned
+		let response;
+		try {
+			response = await withCancellation(requestUrl({
+				url: request.url,
+				method: 'POST',
+				headers: request.headers,
+				body: request.body,
+				throw: false
+			}), signal);
+		} catch (error) {
+			// With throw: false, requestUrl only rejects when no response arrived at all
+			if (error instanceof RequestCancelledError) {
+				throw error;
 			}
-			return true;
-		});
+			throw new ProviderError('network', error.message, adapter.providerId);
+		}
 
-		return requestUrl( {
-			url:'https://api.anthropic.com/v1/messages',
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-				'x-api-key': credentials.apiKey,
-				'anthropic-version': '2023-06-01'
-			},
-			body: JSON.stringify({
-				model: modelConfig.modelId,
-				system: systemPrompt,
-				messages: filteredMessages,
-				max_tokens: modelConfig.settings.maxTokens,
-				temperature: modelConfig.settings.temperature,
-				top_p: modelConfig.settings.topP
-			})
-		});
-	}
+		getLogger().log(`API Response Status: ${response.status}`);
+
+		if (response.status < 200 || response.status >= 300) {
+			const errorText = response.text;
+			getLogger().error(`API call failed. Status: ${response.status}, Response: ${errorText}`);
+			throw adapter.parseError(response.status, errorText, response.headers);
+		}
 
-	private async callGoogleWithContext(messages: any[], modelConfig: ModelConfig, credentials: any): Promise<RequestUrlResponsePromise> {
-		const baseUrl = credentials.baseUrl || 'https://generativelanguage.googleapis.com';
+		const responseText = response.text;
+		getLogger().log('API Response Preview:', responseText.substring(0, 200) + '...');
+		getLogger().log('API Response End:', responseText.substring(Math.max(0, responseText.length - 200)));
 		
-		// Convert messages to Gemini format
-		const geminiMessages = messages.filter(msg => msg.role !== 'system').map(msg => ({
-			role: msg.role === 'assistant' ? 'model' : 'user',
-			parts: Array.isArray(msg.content) ? msg.content.map((part: any) => {
-				if (part.type === 'text') {
-					return { text: part.text };
-				} else if (part.type === 'image_url') {
-					return {
-						inline_data: {
-							mime_type: 'image/png',
-							data: part.image_url.url.split(',')[1]
-						}
-					};
-				}
-				return part;
-			}) : [{ text: msg.content }]
-		}));
-
-		return requestUrl( {
-			url:`${baseUrl}/v1beta/models/${modelConfig.modelId}:generateContent?key=${credentials.apiKey}`,
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json'
-			},
-			body: JSON.stringify({
-				contents: geminiMessages,
-				generationConfig: {
-					maxOutputTokens: modelConfig.settings.maxTokens,
-					temperature: modelConfig.settings.temperature,
-					topP: modelConfig.settings.topP
-				}
-			})
-		});
-	}
+		// Check if response appears to be truncated (doesn't end properly)
+		if (responseText.includes('<think>') && !responseText.includes('</think>')) {
+			getLogger().warn('⚠️ Thinking response appears to be truncated - missing closing tag');
+		}
 
-	private async callCohereWithContext(messages: any[], modelConfig: ModelConfig, credentials: any): Promise<RequestUrlResponsePromise> {
-		// Cohere's chat API format
-		const chatHistory = messages.filter(msg => msg.role !== 'system' && msg.role !== 'user').map(msg => ({
-			role: msg.role === 'assistant' ? 'CHATBOT' : 'USER',
-			message: typeof msg.content === 'string' ? msg.content : msg.content[0]?.text || ''
-		}));
-
-		// Get the latest user message
-		const userMessages = messages.filter(msg => msg.role === 'user');
-		const latestUserMessage = userMessages[userMessages.length - 1];
-		const messageText = typeof latestUserMessage.content === 'string' 
-			? latestUserMessage.content 
-			: latestUserMessage.content.find((part: any) => part.type === 'text')?.text || '';
-
-		return requestUrl( {
-			url:'https://api.cohere.ai/v1/chat',
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-				'Authorization': `Bearer ${credentials.apiKey}`
-			},
-			body: JSON.stringify({
-				model: modelConfig.modelId,
-				message: messageText,
-				chat_history: chatHistory,
-				max_tokens: modelConfig.settings.maxTokens,
-				temperature: modelConfig.settings.temperature,
-				p: modelConfig.settings.topP
-			})
-		});
+		const content = adapter.parseResponse(responseText);
+		// Non-streamed responses still go through the callback so callers render them the same way
+		if (onUpdate) {
+			onUpdate(content);
+		}
+		return content;
 	}
 
-	private async callOpenRouterWithContext(messages: any[], modelConfig: ModelConfig, credentials: any): Promise<RequestUrlResponsePromise> {
-		// Import logger
-		const { getLogger } = require('../utils/logger');
-		const logger = getLogger();
-
-		const baseUrl = credentials.baseUrl || 'https://openrouter.ai/api/v1';
-		
-		const requestBody = {
-			model: modelConfig.modelId,
-			messages: messages,
-			max_tokens: modelConfig.settings.maxTokens,
-			temperature: modelConfig.settings.temperature,
-			top_p: modelConfig.settings.topP,
-			frequency_penalty: modelConfig.settings.frequencyPenalty,
-			presence_penalty: modelConfig.settings.presencePenalty
-		};
+	/**
+	 * 流式读取响应，每个增量到达时把累计文本交给 onUpdate
+	 * maxResponseTime 作为空闲超时使用：只要还在持续收到数据就不会超时
+	 */
+	private async streamContextRequest(adapter: ProviderAdapter, request: StreamRequest, modelConfig: ModelConfig, onUpdate: StreamUpdateCallback, signal?: AbortSignal): Promise<string> {
+		let content = '';
+		let thinking = '';
 
-		logger.log(`📤 OpenRouter API Request Body:`, JSON.stringify(requestBody, null, 2));
-		logger.log(`🔑 Using API Key: ${credentials.apiKey.substring(0, 10)}...`);
-		logger.log(`🌐 Base URL: ${baseUrl}`);
-
-		return requestUrl( {
-			url:`${baseUrl}/chat/completions`,
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-				'Authorization': `Bearer ${credentials.apiKey}`,
-				'HTTP-Referer': 'https://obsidian.md',
-				'X-Title': 'Obsidian CaptureAI'
-			},
-			body: JSON.stringify(requestBody)
-		});
-	}
+		// Same <think> layout as the non-streaming parser so the renderer treats both identically
+		const compose = () => thinking ? `<think>\n${thinking}\n</think>\n\n${content}` : content;
 
-	private async callCustomAPIWithContext(messages: any[], modelConfig: ModelConfig, credentials: any): Promise<RequestUrlResponsePromise> {
-		// Import logger
-		const { getLogger } = require('../utils/logger');
-		const logger = getLogger();
+		getLogger().log(`🌊 Streaming request to ${request.url.split('?')[0]}`);
 
-		const requestBody = {
-			model: modelConfig.modelId,
-			messages: messages,
-			max_tokens: modelConfig.settings.maxTokens,
-			temperature: modelConfig.settings.temperature,
-			top_p: modelConfig.settings.topP,
-			frequency_penalty: modelConfig.settings.frequencyPenalty,
-			presence_penalty: modelConfig.settings.presencePenalty
-		};
+		await streamSSERequest(request, (modelConfig.settings.maxResponseTime || 0) * 1000, (event) => {
+			const delta = adapter.parseStreamEvent(event);
+			if (delta.thinking || delta.content) {
+				thinking += delta.thinking || '';
+				content += delta.content || '';
+				onUpdate(compose());
+			}
+			return delta.done === true;
+		}, signal);
 
-		const fullUrl = `${credentials.baseUrl}${credentials.apiPath || '/v1/chat/completions'}`;
-
-		logger.log(`📤 Custom API Request Body:`, JSON.stringify(requestBody, null, 2));
-		logger.log(`🔑 Using API Key: ${credentials.apiKey.substring(0, 10)}...`);
-		logger.log(`🌐 Full URL: ${fullUrl}`);
-
-		// For custom APIs, we'll use OpenAI format as the default
-		return requestUrl( {
-			url:fullUrl,
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-				'Authorization': `Bearer ${credentials.apiKey}`
-			},
-			body: JSON.stringify(requestBody)
-		});
+		const result = compose();
+		getLogger().log(`✅ Stream completed, ${result.length} characters received`);
+		return result;
 	}
 
 	// Calculate safe maxTokens to avoid context window overflow
-	private calculateSafeMaxTokens(messages: any[], modelConfig: ModelConfig): number {
-		// Import logger
-		const { getLogger } = require('../utils/logger');
-		const logger = getLogger();
-
+	private async calculateSafeMaxTokens(messages: any[], modelConfig: ModelConfig): Promise<number> {
 		// Get model's context window from type definitions
 		const model = this.getModelInfo(modelConfig.providerId, modelConfig.modelId);
 		const contextWindow = model?.contextWindow || 4096; // Fallback to conservative estimate
 		
-		logger.log(`🔍 Model info for ${modelConfig.modelId}: contextWindow = ${contextWindow}, found = ${!!model}`);
+		getLogger().log(`🔍 Model info for ${modelConfig.modelId}: contextWindow = ${contextWindow}, found = ${!!model}`);
 		
-		// Estimate tokens in messages (rough approximation)
-		const estimatedInputTokens = this.estimateTokens(messages);
+		// Count input tokens with the model's tokenizer, images by their provider's formula
+		const counter = await getTokenCounter(modelConfig.providerId, modelConfig.modelId);
+		const inputTokens = countMessageTokens(messages, counter, getModelFamily(modelConfig.providerId, modelConfig.modelId));
 		
-		// Reserve space for input + safety margin (20% of context window)
-		const safetyMargin = Math.floor(contextWindow * 0.2);
-		const maxOutputTokens = contextWindow - estimatedInputTokens - safetyMargin;
+		// The margin only covers the counting error, so it shrinks when the count is exact
+		const safetyMargin = getTokenMargin(counter, inputTokens);
+		const maxOutputTokens = contextWindow - inputTokens - safetyMargin;
 		
 		// Ensure we don't exceed the configured maxTokens or go below a minimum
 		const configuredMax = modelConfig.settings.maxTokens;
-		const minimumTokens = 512; // Minimum reasonable output
-		
 		const finalMaxTokens = Math.max(
-			minimumTokens,
+			Math.min(MIN_OUTPUT_TOKENS, configuredMax),
 			Math.min(configuredMax, maxOutputTokens)
 		);
 		
-		logger.log(`🧮 Token calculation - Context Window: ${contextWindow}, Input: ${estimatedInputTokens}, Safety Margin: ${safetyMargin}, Final Max: ${finalMaxTokens}`);
+		getLogger().log(`🧮 Token calculation (${counter.name}) - Context Window: ${contextWindow}, Input: ${inputTokens}, Safety Margin: ${safetyMargin}, Final Max: ${finalMaxTokens}`);
 		
 		return finalMaxTokens;
 	}
 
+	/**
+	 * 按 token 预算裁剪历史消息：从最早的消息开始丢弃，直到 固定部分 + 历史 + 预留输出 能放进上下文窗口
+	 * maxContextMessages 仍是消息块数量的上限
+	 */
+	private async trimHistoryToBudget(history: any[], fixedMessages: any[], modelConfig: ModelConfig | undefined): Promise<any[]> {
+		if (!modelConfig || history.length === 0) return history;
+
+		const contextWindow = this.getModelInfo(modelConfig.providerId, modelConfig.modelId)?.contextWindow || 4096;
+		const counter = await getTokenCounter(modelConfig.providerId, modelConfig.modelId);
+		const family = getModelFamily(modelConfig.providerId, modelConfig.modelId);
+
+		// Keep room for the reply: the configured maximum, but never more than half the window
+		const outputReserve = Math.max(
+			Math.min(MIN_OUTPUT_TOKENS, modelConfig.settings.maxTokens),
+			Math.min(modelConfig.settings.maxTokens, Math.floor(contextWindow / 2))
+		);
+		const { kept, tokens } = fitHistoryToBudget(history, fixedMessages, counter, family, contextWindow - outputReserve);
+
+		if (kept.length < history.length) {
+			getLogger().log(`✂️ Dropped ${history.length - kept.length} of ${history.length} history messages to fit ${contextWindow} tokens (${counter.name}, ${tokens} tokens kept)`);
+		}
+		return kept;
+	}
+
+	/**
+	 * tiktoken 的 BPE 表：优先读取插件目录中的缓存，没有时下载一次并缓存
+	 * 缓存和下载的内容都要与固定的 SHA-256 一致，否则不使用，改为估算
+	 */
+	private async loadBpeRanks(encoding: BpeEncoding): Promise<string | null> {
+		const adapter = this.plugin.app.vault.adapter;
+		const dir = `${this.plugin.manifest.dir}/tokenizers`;
+		const path = `${dir}/${encoding}.tiktoken`;
+		if (await adapter.exists(path)) {
+			const cached = await adapter.read(path);
+			if (await this.hasExpectedHash(cached, encoding)) {
+				return cached;
+			}
+			getLogger().warn(`⚠️ Cached ${encoding} table does not match its pinned hash, downloading it again`);
+		}
+
+		const response = await requestUrl({ url: `${BPE_RANKS_URL}/${encoding}.tiktoken` });
+		if (!(await this.hasExpectedHash(response.text, encoding))) {
+			throw new Error(`Downloaded ${encoding} table does not match its pinned hash`);
+		}
+		if (!(await adapter.exists(dir))) {
+			await adapter.mkdir(dir);
+		}
+		await adapter.write(path, response.text);
+		return response.text;
+	}
+
+	private async hasExpectedHash(table: string, encoding: BpeEncoding): Promise<boolean> {
+		const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(table));
+		const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+		return hex === BPE_RANKS_SHA256[encoding];
+	}
+
 	// Get model information from type definitions
 	private getModelInfo(providerId: string, modelId: string): { contextWindow?: number } | null {
 		// Import the providers from types
@@ -1596,33 +1499,6 @@ export class AIManager {
 		return { contextWindow: 16384 }; // 16K context window
 	}
 
-	// Simple token estimation (rough approximation: 1 token ≈ 4 characters for text, special handling for images)
-	private estimateTokens(messages: any[]): number {
-		let totalTokens = 0;
-		
-		for (const message of messages) {
-			if (typeof message.content === 'string') {
-				// Simple text message
-				totalTokens += Math.ceil(message.content.length / 4);
-			} else if (Array.isArray(message.content)) {
-				// Multi-modal message
-				for (const content of message.content) {
-					if (content.type === 'text') {
-						totalTokens += Math.ceil((content.text || '').length / 4);
-					} else if (content.type === 'image_url') {
-						// Images typically cost ~1500 tokens for vision models
-						totalTokens += 1500;
-					}
-				}
-			}
-		}
-		
-		// Add some overhead for system prompts and formatting
-		totalTokens += 100;
-		
-		return totalTokens;
-	}
-
 	// Extract MIME type from data URL
 	private getMimeTypeFromDataUrl(dataUrl: string): string | null {
 		const match = dataUrl.match(/^data:([^;]+);base64,/);
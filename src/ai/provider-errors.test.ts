@@ -0,0 +1,91 @@
+import { classifyProviderError, extractErrorDetails, getRetryDelay, MAX_RETRIES, parseRetryAfter, ProviderError, ProviderErrorKind } from './provider-errors';
+
+describe('classifyProviderError', () => {
+	it('classifies by HTTP status', () => {
+		expect(classifyProviderError(401, 'Unauthorized')).toBe('auth');
+		expect(classifyProviderError(403, '')).toBe('auth');
+		expect(classifyProviderError(402, '')).toBe('quota');
+		expect(classifyProviderError(429, 'Too Many Requests')).toBe('rate-limit');
+		expect(classifyProviderError(408, '')).toBe('timeout');
+		expect(classifyProviderError(504, '')).toBe('timeout');
+		expect(classifyProviderError(500, 'Internal error')).toBe('server');
+		expect(classifyProviderError(529, 'overloaded_error Overloaded')).toBe('server');
+		expect(classifyProviderError(400, 'Bad request')).toBe('unknown');
+	});
+
+	it('lets the error text override the status', () => {
+		expect(classifyProviderError(400, "This model's maximum context length is 8192 tokens")).toBe('context-overflow');
+		expect(classifyProviderError(400, 'invalid_request_error prompt is too long: 210000 tokens')).toBe('context-overflow');
+		expect(classifyProviderError(400, 'The response was filtered due to the content management policy')).toBe('content-filter');
+		expect(classifyProviderError(429, 'insufficient_quota You exceeded your current quota')).toBe('quota');
+		expect(classifyProviderError(400, 'Your credit balance is too low')).toBe('quota');
+	});
+
+	it('classifies errors reported inside a stream, which have no status', () => {
+		expect(classifyProviderError(undefined, 'rate_limit_error')).toBe('rate-limit');
+		expect(classifyProviderError(undefined, 'something broke')).toBe('unknown');
+	});
+});
+
+describe('extractErrorDetails', () => {
+	it('reads the common error body shapes', () => {
+		expect(extractErrorDetails('{"error":{"message":"Bad key","type":"invalid_api_key"}}')).toEqual({ message: 'Bad key', code: 'invalid_api_key' });
+		expect(extractErrorDetails('[{"error":{"message":"Quota","status":"RESOURCE_EXHAUSTED"}}]')).toEqual({ message: 'Quota', code: 'RESOURCE_EXHAUSTED' });
+		expect(extractErrorDetails('{"error":"model not found"}')).toEqual({ message: 'model not found', code: '' });
+		expect(extractErrorDetails(' Bad Gateway ')).toEqual({ message: 'Bad Gateway', code: '' });
+	});
+});
+
+describe('parseRetryAfter', () => {
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it('reads seconds with any header case', () => {
+		expect(parseRetryAfter({ 'Retry-After': '2' })).toBe(2000);
+		expect(parseRetryAfter({ 'retry-after': '0.5' })).toBe(500);
+	});
+
+	it('reads an HTTP date relative to now', () => {
+		jest.useFakeTimers().setSystemTime(new Date('2025-01-01T00:00:00Z'));
+		expect(parseRetryAfter({ 'retry-after': 'Wed, 01 Jan 2025 00:00:10 GMT' })).toBe(10000);
+		expect(parseRetryAfter({ 'retry-after': 'Tue, 31 Dec 2024 23:59:00 GMT' })).toBe(0);
+	});
+
+	it('returns undefined without a usable header', () => {
+		expect(parseRetryAfter(undefined)).toBeUndefined();
+		expect(parseRetryAfter({ 'content-type': 'application/json' })).toBeUndefined();
+		expect(parseRetryAfter({ 'retry-after': 'soon' })).toBeUndefined();
+	});
+});
+
+describe('getRetryDelay', () => {
+	const error = (kind: ProviderErrorKind, retryAfterMs?: number) =>
+		new ProviderError(kind, 'failed', 'openai', undefined, retryAfterMs);
+
+	it('does not retry errors that would fail again', () => {
+		const kinds: ProviderErrorKind[] = ['auth', 'quota', 'context-overflow', 'content-filter', 'timeout', 'unknown'];
+		kinds.forEach(kind => {
+			expect(getRetryDelay(error(kind), 0)).toBeNull();
+		});
+	});
+
+	it('backs off exponentially with jitter', () => {
+		[0, 1, 2].forEach(attempt => {
+			const delay = getRetryDelay(error('rate-limit'), attempt);
+			const base = 1000 * Math.pow(2, attempt);
+			expect(delay).toBeGreaterThanOrEqual(base);
+			expect(delay).toBeLessThanOrEqual(base * 1.25);
+		});
+	});
+
+	it('stops after the last attempt', () => {
+		expect(getRetryDelay(error('server'), MAX_RETRIES)).toBeNull();
+	});
+
+	it('follows Retry-After unless it asks for too long a pause', () => {
+		expect(getRetryDelay(error('rate-limit', 4000), 0)).toBe(4000);
+		expect(getRetryDelay(error('rate-limit', 0), 2)).toBe(0);
+		expect(getRetryDelay(error('rate-limit', 120000), 0)).toBeNull();
+	});
+});
@@ -0,0 +1,126 @@
+import { t } from '../i18n';
+import { LLM_PROVIDERS } from '../types';
+
+/**
+ * 提供商错误：按类型区分（认证、限流、上下文超长、内容过滤、超时、网络等），决定是否重试，并生成本地化提示
+ * 各适配器通过 parseError 把错误响应解析为 ProviderError
+ */
+
+export type ProviderErrorKind =
+	| 'auth'
+	| 'quota'
+	| 'rate-limit'
+	| 'context-overflow'
+	| 'content-filter'
+	| 'timeout'
+	| 'network'
+	| 'server'
+	| 'unknown';
+
+// Kinds that may succeed when the same request is sent again a little later
+const RETRYABLE_KINDS: ProviderErrorKind[] = ['rate-limit', 'server', 'network'];
+
+export const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+const CONTEXT_OVERFLOW_PATTERN = /context[ _]length|context[ _]window|maximum context|prompt is too long|too many tokens|token limit|input is too long/;
+const CONTENT_FILTER_PATTERN = /content[ _]?filter|content management policy|content_policy|safety|moderation|flagged/;
+const QUOTA_PATTERN = /insufficient_quota|exceeded your current quota|billing|credit balance|payment required/;
+
+export class ProviderError extends Error {
+	readonly kind: ProviderErrorKind;
+	readonly providerId: string;
+	readonly status?: number;
+	readonly retryAfterMs?: number; // Pause requested by the server through Retry-After
+
+	constructor(kind: ProviderErrorKind, message: string, providerId: string, status?: number, retryAfterMs?: number) {
+		super(message);
+		this.name = 'ProviderError';
+		this.kind = kind;
+		this.providerId = providerId;
+		this.status = status;
+		this.retryAfterMs = retryAfterMs;
+	}
+
+	get retryable(): boolean {
+		return RETRYABLE_KINDS.includes(this.kind);
+	}
+}
+
+/**
+ * Error kind from the HTTP status and the provider's error text (code and message).
+ * `status` is undefined for errors reported inside a stream.
+ */
+export function classifyProviderError(status: number | undefined, text: string): ProviderErrorKind {
+	const lower = text.toLowerCase();
+	if (CONTEXT_OVERFLOW_PATTERN.test(lower)) return 'context-overflow';
+	if (CONTENT_FILTER_PATTERN.test(lower)) return 'content-filter';
+	if (QUOTA_PATTERN.test(lower) || status === 402) return 'quota';
+	if (status === 401 || status === 403) return 'auth';
+	if (status === 429 || lower.includes('rate limit') || lower.includes('rate_limit')) return 'rate-limit';
+	if (status === 408 || status === 504) return 'timeout';
+	if (status !== undefined && status >= 500) return 'server';
+	return 'unknown';
+}
+
+/**
+ * Message and code from an error body. Handles `{ error: { message, type|code|status } }`,
+ * `{ error: "..." }`, `{ message }` and Gemini's array form, falls back to the raw text.
+ */
+export function extractErrorDetails(responseText: string): { message: string; code: string } {
+	let data: any;
+	try {
+		data = JSON.parse(responseText);
+	} catch (error) {
+		return { message: responseText.trim(), code: '' };
+	}
+
+	const body = Array.isArray(data) ? data[0] : data;
+	const error = body?.error ?? body;
+	if (typeof error === 'string') {
+		return { message: error, code: '' };
+	}
+	const message = error?.message || body?.message || responseText.trim();
+	const code = error?.type || error?.code || error?.status || '';
+	return { message: String(message), code: String(code) };
+}
+
+// Retry-After in milliseconds, given as seconds or an HTTP date. Header names are matched case-insensitively.
+export function parseRetryAfter(headers?: Record<string, string>): number | undefined {
+	if (!headers) return undefined;
+	const name = Object.keys(headers).find(key => key.toLowerCase() === 'retry-after');
+	const value = name ? headers[name] : undefined;
+	if (!value) return undefined;
+
+	const seconds = Number(value);
+	if (isFinite(seconds)) return Math.max(0, seconds * 1000);
+	const date = Date.parse(value);
+	return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * 下一次重试前的等待时间（毫秒），不应重试时返回 null
+ * 优先遵循 Retry-After；服务器要求的等待超过上限时直接报错，而不是让用户长时间等待
+ */
+export function getRetryDelay(error: ProviderError, attempt: number): number | null {
+	if (!error.retryable || attempt >= MAX_RETRIES) return null;
+	if (error.retryAfterMs !== undefined) {
+		return error.retryAfterMs <= MAX_RETRY_DELAY_MS ? error.retryAfterMs : null;
+	}
+	// Exponential backoff with a little jitter so parallel requests don't retry in lockstep
+	const backoff = BASE_RETRY_DELAY_MS * Math.pow(2, attempt);
+	return Math.round(Math.min(MAX_RETRY_DELAY_MS, backoff * (1 + Math.random() * 0.25)));
+}
+
+// Localized, actionable message for the chat; other errors keep their own message
+export function getProviderErrorMessage(error: unknown): string {
+	if (!(error instanceof ProviderError)) {
+		return error instanceof Error ? error.message : String(error);
+	}
+	return t(`aiError.${error.kind}`, { provider: getProviderDisplayName(error.providerId), detail: error.message });
+}
+
+export function getProviderDisplayName(providerId: string): string {
+	return LLM_PROVIDERS.find(p => p.id === providerId)?.displayName || providerId;
+}
@@ -0,0 +1,75 @@
+import { toAnthropicContentBlock, toAnthropicMessages } from './anthropic';
+
+describe('toAnthropicContentBlock', () => {
+	it('turns an image data URL into a base64 image block', () => {
+		const block = toAnthropicContentBlock({ type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } });
+		expect(block).toEqual({
+			type: 'image',
+			source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' }
+		});
+	});
+
+	it('normalises image/jpg to image/jpeg', () => {
+		const block = toAnthropicContentBlock({ type: 'image_url', image_url: { url: 'data:image/jpg;base64,/9j/4AAQ' } });
+		expect(block.source.media_type).toBe('image/jpeg');
+		expect(block.source.data).toBe('/9j/4AAQ');
+	});
+
+	it('references remote images by URL', () => {
+		const block = toAnthropicContentBlock({ type: 'image_url', image_url: { url: 'https://example.com/shot.png' } });
+		expect(block).toEqual({ type: 'image', source: { type: 'url', url: 'https://example.com/shot.png' } });
+	});
+
+	it('treats a data URL without base64 payload as a URL', () => {
+		const block = toAnthropicContentBlock({ type: 'image_url', image_url: { url: 'data:image/svg+xml,<svg/>' } });
+		expect(block.source.type).toBe('url');
+	});
+
+	it('keeps text parts and passes through parts already in Anthropic format', () => {
+		expect(toAnthropicContentBlock({ type: 'text', text: 'hello' })).toEqual({ type: 'text', text: 'hello' });
+		const native = { type: 'image', source: { type: 'base64', media_type: 'image/webp', data: 'UklG' } };
+		expect(toAnthropicContentBlock(native)).toBe(native);
+	});
+});
+
+describe('toAnthropicMessages', () => {
+	it('keeps text-only messages as plain strings', () => {
+		const result = toAnthropicMessages([
+			{ role: 'user', content: 'What is on screen?' },
+			{ role: 'assistant', content: 'A settings dialog.' }
+		]);
+		expect(result).toEqual({
+			system: '',
+			messages: [
+				{ role: 'user', content: 'What is on screen?' },
+				{ role: 'assistant', content: 'A settings dialog.' }
+			]
+		});
+	});
+
+	it('merges every system message into one system string, in order', () => {
+		const result = toAnthropicMessages([
+			{ role: 'system', content: 'You are helpful.' },
+			{ role: 'user', content: 'Hi' },
+			{ role: 'system', content: [{ type: 'text', text: 'Answer in English.' }] },
+			{ role: 'system', content: '   ' },
+			{ role: 'user', content: 'Describe this' }
+		]);
+		expect(result.system).toBe('You are helpful.\n\nAnswer in English.');
+		expect(result.messages.map(message => message.role)).toEqual(['user', 'user']);
+	});
+
+	it('converts mixed text and image content', () => {
+		const result = toAnthropicMessages([{
+			role: 'user',
+			content: [
+				{ type: 'text', text: 'Read this' },
+				{ type: 'image_url', image_url: { url: 'data:image/jpeg;base64,AAAA' } }
+			]
+		}]);
+		expect(result.messages[0].content).toEqual([
+			{ type: 'text', text: 'Read this' },
+			{ type: 'image', source: { type: 'base64', media_type: 'image/jpeg', data: 'AAAA' } }
+		]);
+	});
+});
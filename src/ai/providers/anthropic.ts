@@ -0,0 +1,176 @@
+import { LLMModel, ModelConfig } from '../../types';
+import { StreamRequest } from '../streaming';
+import { BaseProviderAdapter, ProviderCredential, StreamDelta } from './provider-adapter';
+import { extractErrorDetails, ProviderError, ProviderErrorKind } from '../provider-errors';
+
+/**
+ * 把 OpenAI 风格的上下文消息转换为 Anthropic Messages API 格式（纯函数，不依赖插件状态）
+ * - 所有 system 消息按顺序合并为顶层 system 字段（Anthropic 不接受 system 角色的消息）
+ * - image_url 部分转换为 { type: 'image', source: { type: 'base64', media_type, data } }
+ */
+export function toAnthropicMessages(messages: any[]): { system: string; messages: any[] } {
+	const systemParts: string[] = [];
+	const converted: any[] = [];
+
+	for (const msg of messages) {
+		if (msg.role === 'system') {
+			const text = typeof msg.content === 'string'
+				? msg.content
+				: (msg.content || []).filter((part: any) => part.type === 'text').map((part: any) => part.text).join('\n');
+			if (text && text.trim()) {
+				systemParts.push(text);
+			}
+			continue;
+		}
+
+		converted.push({
+			role: msg.role === 'assistant' ? 'assistant' : 'user',
+			content: Array.isArray(msg.content) ? msg.content.map(toAnthropicContentBlock) : msg.content
+		});
+	}
+
+	return {
+		system: systemParts.join('\n\n'),
+		messages: converted
+	};
+}
+
+// Convert one OpenAI content part, parts that are already in Anthropic format pass through
+export function toAnthropicContentBlock(part: any): any {
+	if (part.type === 'text') {
+		return { type: 'text', text: part.text };
+	}
+
+	if (part.type === 'image_url') {
+		const url: string = part.image_url?.url || '';
+		const match = url.match(/^data:([^;]+);base64,(.*)$/);
+		if (match) {
+			return {
+				type: 'image',
+				source: {
+					type: 'base64',
+					// Anthropic only knows the canonical JPEG type
+					media_type: match[1] === 'image/jpg' ? 'image/jpeg' : match[1],
+					data: match[2]
+				}
+			};
+		}
+		// Remote images are referenced by URL
+		return { type: 'image', source: { type: 'url', url } };
+	}
+
+	return part;
+}
+
+const ANTHROPIC_ERROR_KINDS: Record<string, ProviderErrorKind> = {
+	'authentication_error': 'auth',
+	'permission_error': 'auth',
+	'rate_limit_error': 'rate-limit',
+	'overloaded_error': 'server',
+	'api_error': 'server',
+	'timeout_error': 'timeout'
+};
+
+export class AnthropicAdapter extends BaseProviderAdapter {
+	readonly providerId = 'anthropic';
+
+	private getBaseUrl(credentials: ProviderCredential): string {
+		return credentials.baseUrl || this.provider?.defaultBaseUrl || 'https://api.anthropic.com/v1';
+	}
+
+	private getHeaders(credentials: ProviderCredential): Record<string, string> {
+		return {
+			'Content-Type': 'application/json',
+			'x-api-key': credentials.apiKey,
+			'anthropic-version': '2023-06-01'
+		};
+	}
+
+	buildRequest(messages: any[], modelConfig: ModelConfig, credentials: ProviderCredential, stream: boolean): StreamRequest | null {
+		const { system, messages: anthropicMessages } = toAnthropicMessages(messages);
+
+		const requestBody: Record<string, any> = {
+			model: modelConfig.modelId,
+			system: system,
+			messages: anthropicMessages,
+			max_tokens: modelConfig.settings.maxTokens,
+			temperature: modelConfig.settings.temperature,
+			top_p: modelConfig.settings.topP
+		};
+
+		const headers = this.getHeaders(credentials);
+		if (stream) {
+			requestBody.stream = true;
+			// fetch runs in the renderer, Anthropic requires an explicit opt-in for browser requests
+			headers['anthropic-dangerous-direct-browser-access'] = 'true';
+		}
+
+		return {
+			url: `${this.getBaseUrl(credentials)}/messages`,
+			headers,
+			body: JSON.stringify(requestBody)
+		};
+	}
+
+	parseResponse(responseText: string): string {
+		const data = JSON.parse(responseText);
+		return data.content[0].text;
+	}
+
+	// Anthropic names the failure in error.type, e.g. 529 overloaded_error
+	parseError(status: number | undefined, responseText: string, headers?: Record<string, string>): ProviderError {
+		const error = super.parseError(status, responseText, headers);
+		const { code } = extractErrorDetails(responseText);
+		const kind = ANTHROPIC_ERROR_KINDS[code];
+		if (!kind || error.kind === 'context-overflow' || error.kind === 'quota') return error;
+		return new ProviderError(kind, error.message, this.providerId, status, error.retryAfterMs);
+	}
+
+	protected parseStreamChunk(data: any): StreamDelta {
+		if (data.type === 'content_block_delta') {
+			return {
+				content: data.delta?.text || '',
+				thinking: data.delta?.thinking || ''
+			};
+		}
+		return { done: data.type === 'message_stop' };
+	}
+
+	async listModels(credentials: ProviderCredential): Promise<LLMModel[]> {
+		// Anthropic has a models endpoint as of 2025
+		const data = await this.fetchModelsJson(`${this.getBaseUrl(credentials)}/models`, this.getHeaders(credentials));
+		if (!data?.data || !Array.isArray(data.data)) {
+			return [];
+		}
+
+		return data.data
+			.filter((model: any) => {
+				// Include all Claude models
+				const id = model.id?.toLowerCase() || '';
+				return id.includes('claude');
+			})
+			.map((model: any) => {
+				const displayName = model.display_name || model.id;
+
+				// Determine context window based on known models
+				let contextWindow = 200000; // Default for Claude 3+ models
+				const id = model.id?.toLowerCase() || '';
+				if (id.includes('claude-4')) {
+					contextWindow = 1000000; // Claude 4 supports 1M tokens
+				}
+
+				return {
+					id: model.id,
+					name: displayName,
+					hasVision: true, // Will be tested when adding model
+					contextWindow: contextWindow,
+					maxTokens: 8192
+				};
+			});
+	}
+
+	async verifyKey(credentials: ProviderCredential): Promise<boolean> {
+		const apiKey = credentials.apiKey.trim();
+		return apiKey.startsWith('sk-ant-') && apiKey.length > 50;
+	}
+}
@@ -0,0 +1,79 @@
+import { LLMModel, ModelConfig } from '../../types';
+import { StreamRequest } from '../streaming';
+import { BaseProviderAdapter, ProviderCredential } from './provider-adapter';
+
+/**
+ * Cohere Chat API (v1)：不支持流式输出和图片
+ */
+export class CohereAdapter extends BaseProviderAdapter {
+	readonly providerId = 'cohere';
+
+	private getHeaders(credentials: ProviderCredential): Record<string, string> {
+		return {
+			'Content-Type': 'application/json',
+			'Authorization': `Bearer ${credentials.apiKey}`
+		};
+	}
+
+	buildRequest(messages: any[], modelConfig: ModelConfig, credentials: ProviderCredential, stream: boolean): StreamRequest | null {
+		if (stream) {
+			return null;
+		}
+
+		// Cohere's chat API format
+		const chatHistory = messages.filter(msg => msg.role !== 'system' && msg.role !== 'user').map(msg => ({
+			role: msg.role === 'assistant' ? 'CHATBOT' : 'USER',
+			message: typeof msg.content === 'string' ? msg.content : msg.content[0]?.text || ''
+		}));
+
+		// Get the latest user message
+		const userMessages = messages.filter(msg => msg.role === 'user');
+		const latestUserMessage = userMessages[userMessages.length - 1];
+		const messageText = typeof latestUserMessage.content === 'string' 
+			? latestUserMessage.content 
+			: latestUserMessage.content.find((part: any) => part.type === 'text')?.text || '';
+
+		return {
+			url: 'https://api.cohere.ai/v1/chat',
+			headers: this.getHeaders(credentials),
+			body: JSON.stringify({
+				model: modelConfig.modelId,
+				message: messageText,
+				chat_history: chatHistory,
+				max_tokens: modelConfig.settings.maxTokens,
+				temperature: modelConfig.settings.temperature,
+				p: modelConfig.settings.topP
+			})
+		};
+	}
+
+	parseResponse(responseText: string): string {
+		const data = JSON.parse(responseText);
+		return data.text;
+	}
+
+	async listModels(credentials: ProviderCredential): Promise<LLMModel[]> {
+		const baseUrl = credentials.baseUrl || this.provider?.defaultBaseUrl || 'https://api.cohere.com/v1';
+		const data = await this.fetchModelsJson(`${baseUrl}/models`, this.getHeaders(credentials));
+		if (!data?.models || !Array.isArray(data.models)) {
+			return [];
+		}
+
+		return data.models
+			.filter((model: any) => model.endpoints?.includes('chat'))
+			.map((model: any) => ({
+				id: model.name,
+				name: model.name,
+				hasVision: true, // Will be tested when adding model
+				contextWindow: model.context_length || 4096
+			}));
+	}
+
+	async verifyKey(credentials: ProviderCredential): Promise<boolean> {
+		return credentials.apiKey.trim().length > 30;
+	}
+
+	async testVision(modelConfig: ModelConfig, credentials: ProviderCredential): Promise<boolean> {
+		throw new Error(`Vision testing not implemented for provider: ${this.providerId}`);
+	}
+}
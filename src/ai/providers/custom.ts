@@ -0,0 +1,14 @@
+import { OpenAICompatibleAdapter } from './openai-compatible';
+import { ProviderCredential } from './provider-adapter';
+
+/**
+ * 自定义提供商：任意 OpenAI 兼容网关，地址由 baseUrl + apiPath 组成
+ * 模型名称由用户手动输入，因此不提供模型列表
+ */
+export class CustomAdapter extends OpenAICompatibleAdapter {
+	readonly providerId = 'custom';
+
+	protected getChatUrl(credentials: ProviderCredential): string {
+		return `${credentials.baseUrl}${credentials.apiPath || '/v1/chat/completions'}`;
+	}
+}
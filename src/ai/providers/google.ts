@@ -0,0 +1,130 @@
+import { LLMModel, ModelConfig } from '../../types';
+import { StreamRequest } from '../streaming';
+import { BaseProviderAdapter, ProviderCredential, StreamDelta } from './provider-adapter';
+import { extractErrorDetails, ProviderError } from '../provider-errors';
+
+// Finish reasons that mean the reply was withheld by Gemini's safety settings
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+export class GoogleAdapter extends BaseProviderAdapter {
+	readonly providerId = 'google';
+
+	private getBaseUrl(credentials: ProviderCredential): string {
+		return credentials.baseUrl || 'https://generativelanguage.googleapis.com';
+	}
+
+	buildRequest(messages: any[], modelConfig: ModelConfig, credentials: ProviderCredential, stream: boolean): StreamRequest | null {
+		// Convert messages to Gemini format
+		const geminiMessages = messages.filter(msg => msg.role !== 'system').map(msg => ({
+			role: msg.role === 'assistant' ? 'model' : 'user',
+			parts: Array.isArray(msg.content) ? msg.content.map((part: any) => {
+				if (part.type === 'text') {
+					return { text: part.text };
+				} else if (part.type === 'image_url') {
+					return {
+						inline_data: {
+							mime_type: 'image/png',
+							data: part.image_url.url.split(',')[1]
+						}
+					};
+				}
+				return part;
+			}) : [{ text: msg.content }]
+		}));
+
+		const method = stream ? 'streamGenerateContent?alt=sse&' : 'generateContent?';
+		return {
+			url: `${this.getBaseUrl(credentials)}/v1beta/models/${modelConfig.modelId}:${method}key=${credentials.apiKey}`,
+			headers: {
+				'Content-Type': 'application/json'
+			},
+			body: JSON.stringify({
+				contents: geminiMessages,
+				generationConfig: {
+					maxOutputTokens: modelConfig.settings.maxTokens,
+					temperature: modelConfig.settings.temperature,
+					topP: modelConfig.settings.topP
+				}
+			})
+		};
+	}
+
+	parseResponse(responseText: string): string {
+		const data = JSON.parse(responseText);
+		this.checkBlocked(data);
+		return data.candidates[0].content.parts[0].text;
+	}
+
+	// Gemini reports RESOURCE_EXHAUSTED for rate limits and an invalid key as a 400 with API_KEY_INVALID
+	parseError(status: number | undefined, responseText: string, headers?: Record<string, string>): ProviderError {
+		const error = super.parseError(status, responseText, headers);
+		const { code } = extractErrorDetails(responseText);
+		if (code === 'RESOURCE_EXHAUSTED') {
+			return new ProviderError('rate-limit', error.message, this.providerId, status, error.retryAfterMs ?? this.getRetryDelay(responseText));
+		}
+		if (code === 'PERMISSION_DENIED' || code === 'UNAUTHENTICATED' || responseText.includes('API_KEY_INVALID')) {
+			return new ProviderError('auth', error.message, this.providerId, status);
+		}
+		return error;
+	}
+
+	// RetryInfo detail of an error body ("retryDelay": "12s"), in milliseconds
+	private getRetryDelay(responseText: string): number | undefined {
+		const match = responseText.match(/"retryDelay"\s*:\s*"([\d.]+)s"/);
+		return match ? parseFloat(match[1]) * 1000 : undefined;
+	}
+
+	// Blocked prompts and replies come back as a normal response without text
+	private checkBlocked(data: any) {
+		const blockReason = data.promptFeedback?.blockReason;
+		const finishReason = data.candidates?.[0]?.finishReason;
+		if (blockReason || BLOCKED_FINISH_REASONS.includes(finishReason)) {
+			throw new ProviderError('content-filter', `Blocked by Gemini: ${blockReason || finishReason}`, this.providerId);
+		}
+	}
+
+	protected parseStreamChunk(data: any): StreamDelta {
+		this.checkBlocked(data);
+		const parts: any[] = data.candidates?.[0]?.content?.parts || [];
+		let content = '';
+		let thinking = '';
+		parts.forEach(part => {
+			if (part.thought) {
+				thinking += part.text || '';
+			} else {
+				content += part.text || '';
+			}
+		});
+		return { content, thinking };
+	}
+
+	async listModels(credentials: ProviderCredential): Promise<LLMModel[]> {
+		// Google AI Studio models endpoint
+		const data = await this.fetchModelsJson(
+			`https://generativelanguage.googleapis.com/v1beta/models?key=${credentials.apiKey}`,
+			{ 'Content-Type': 'application/json' }
+		);
+		if (!data?.models || !Array.isArray(data.models)) {
+			return [];
+		}
+
+		return data.models
+			.filter((model: any) => {
+				// Include all Google models that support text generation
+				const name = model.name?.toLowerCase() || '';
+				return name.includes('gemini') || name.includes('bison') || name.includes('chat');
+			})
+			.map((model: any) => {
+				return {
+					id: model.name.replace('models/', ''),
+					name: model.displayName || model.name.replace('models/', ''),
+					hasVision: true, // Will be tested when adding model
+					contextWindow: 4096
+				};
+			});
+	}
+
+	async verifyKey(credentials: ProviderCredential): Promise<boolean> {
+		return credentials.apiKey.trim().length > 30; // Google API keys vary in format
+	}
+}
@@ -0,0 +1,37 @@
+import { isLocalModel, isLoopbackUrl } from './index';
+import { ModelConfig } from '../../types';
+
+const modelConfig = (providerId: string, customBaseUrl?: string): ModelConfig => ({
+	id: 'model',
+	name: 'Model',
+	providerId,
+	modelId: 'model',
+	isVisionCapable: true,
+	settings: { maxTokens: 1000, temperature: 0.7, maxResponseTime: 30 },
+	createdAt: new Date(),
+	customProvider: customBaseUrl ? { name: 'Custom', baseUrl: customBaseUrl, apiKey: '' } : undefined
+});
+
+describe('isLoopbackUrl', () => {
+	it('accepts localhost and loopback addresses', () => {
+		['http://localhost:11434', 'http://LOCALHOST', 'http://lmstudio.localhost:1234/v1', 'http://127.0.0.1:8080', 'http://127.1.2.3', 'http://[::1]:11434']
+			.forEach(url => expect(isLoopbackUrl(url)).toBe(true));
+	});
+
+	it('rejects remote hosts and unparseable addresses', () => {
+		['https://api.openai.com/v1', 'http://192.168.1.10:11434', 'http://localhost.example.com', 'localhost:11434', '']
+			.forEach(url => expect(isLoopbackUrl(url)).toBe(false));
+	});
+});
+
+describe('isLocalModel', () => {
+	it('uses the provider default address when none is configured', () => {
+		expect(isLocalModel(modelConfig('ollama'), { apiKey: '', verified: true })).toBe(true);
+		expect(isLocalModel(modelConfig('openai'), { apiKey: 'sk', verified: true })).toBe(false);
+	});
+
+	it('prefers the configured address', () => {
+		expect(isLocalModel(modelConfig('ollama'), { apiKey: '', baseUrl: 'http://gpu-box:11434', verified: true })).toBe(false);
+		expect(isLocalModel(modelConfig('custom', 'http://127.0.0.1:5000'), undefined)).toBe(true);
+	});
+});
@@ -0,0 +1,89 @@
+import { LLM_PROVIDERS, LLMProvider, ModelConfig } from '../../types';
+import { debugWarn } from '../../utils/logger';
+import { ProviderAdapter, ProviderCredential } from './provider-adapter';
+import { OpenAIAdapter } from './openai';
+import { AnthropicAdapter } from './anthropic';
+import { GoogleAdapter } from './google';
+import { CohereAdapter } from './cohere';
+import { OpenRouterAdapter } from './openrouter';
+import { CustomAdapter } from './custom';
+import { OllamaAdapter } from './ollama';
+
+export type { ProviderAdapter, ProviderCredential, StreamDelta } from './provider-adapter';
+export { BaseProviderAdapter } from './provider-adapter';
+export { OpenAICompatibleAdapter } from './openai-compatible';
+export { toAnthropicMessages } from './anthropic';
+export { isLikelyVisionModel } from './ollama';
+
+const adapters = new Map<string, ProviderAdapter>();
+
+/**
+ * 注册提供商适配器
+ * 传入 provider 定义时会一并加入 LLM_PROVIDERS，这样新网关无需修改 AIManager 或设置界面即可使用
+ */
+export function registerProviderAdapter(adapter: ProviderAdapter, provider?: LLMProvider): void {
+	if (provider && !LLM_PROVIDERS.some(p => p.id === provider.id)) {
+		LLM_PROVIDERS.push(provider);
+	}
+	if (!LLM_PROVIDERS.some(p => p.id === adapter.providerId)) {
+		debugWarn(`Provider adapter "${adapter.providerId}" has no matching entry in LLM_PROVIDERS`);
+	}
+	adapters.set(adapter.providerId, adapter);
+}
+
+export function getProviderAdapter(providerId: string): ProviderAdapter | undefined {
+	const adapter = adapters.get(providerId);
+	if (adapter) return adapter;
+
+	// Legacy "custom_<id>" providers all speak the custom (OpenAI-compatible) protocol
+	if (providerId.startsWith('custom_')) {
+		return adapters.get('custom');
+	}
+	return undefined;
+}
+
+/**
+ * 提供商是否可用：已验证，且（需要 API Key 的提供商）已填写 API Key
+ * 本地提供商不需要 API Key，验证结果表示服务可达
+ */
+export function isProviderReady(providerId: string, credentials?: ProviderCredential): boolean {
+	if (!credentials || !credentials.verified) return false;
+	return !providerRequiresApiKey(providerId) || credentials.apiKey.trim() !== '';
+}
+
+export function providerRequiresApiKey(providerId: string): boolean {
+	const provider = LLM_PROVIDERS.find(p => p.id === providerId);
+	// Unknown ids (e.g. legacy custom_<id>) keep the key requirement
+	return provider ? provider.requiresApiKey : true;
+}
+
+/**
+ * 模型请求是否只发往本机（localhost 或回环地址）
+ * 隐私审查据此判断未遮挡的图片是否会离开本机
+ */
+export function isLocalModel(modelConfig: ModelConfig, credentials?: ProviderCredential): boolean {
+	const provider = LLM_PROVIDERS.find(p => p.id === modelConfig.providerId);
+	const baseUrl = modelConfig.customProvider?.baseUrl || credentials?.baseUrl || provider?.defaultBaseUrl || '';
+	return isLoopbackUrl(baseUrl);
+}
+
+export function isLoopbackUrl(url: string): boolean {
+	let hostname: string;
+	try {
+		hostname = new URL(url.trim()).hostname.toLowerCase();
+	} catch (error) {
+		return false;
+	}
+	// IPv6 hosts keep their brackets in URL.hostname
+	const host = hostname.replace(/^\[|\]$/g, '');
+	return host === 'localhost' || host.endsWith('.localhost') || host === '::1' || /^127(\.\d{1,3}){3}$/.test(host);
+}
+
+// Built-in providers
+registerProviderAdapter(new OpenAIAdapter());
+registerProviderAdapter(new AnthropicAdapter());
+registerProviderAdapter(new GoogleAdapter());
+registerProviderAdapter(new CohereAdapter());
+registerProviderAdapter(new OpenRouterAdapter());
+registerProviderAdapter(new CustomAdapter());
+registerProviderAdapter(new OllamaAdapter());
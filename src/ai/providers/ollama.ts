@@ -0,0 +1,130 @@
+import { requestUrl } from 'obsidian';
+import { LLMModel, ModelConfig } from '../../types';
+import { OpenAICompatibleAdapter } from './openai-compatible';
+import { ProviderCredential } from './provider-adapter';
+import { getLogger } from '../../utils/logger';
+
+// Name fragments of well-known local vision models
+const VISION_MODEL_PATTERNS = [
+	'llava', 'bakllava', 'vision', 'qwen-vl', 'qwen2-vl', 'qwen2.5-vl', 'qwen2.5vl', 'qwenvl',
+	'minicpm-v', 'moondream', 'gemma3', 'pixtral', 'internvl', 'cogvlm', 'idefics', 'smolvlm', '-vl'
+];
+
+// Model families reported by Ollama that carry an image encoder
+const VISION_FAMILIES = ['clip', 'mllama'];
+
+/**
+ * 根据模型名称判断是否为视觉模型（llava、qwen-vl 等）
+ */
+export function isLikelyVisionModel(modelName: string): boolean {
+	const lower = modelName.toLowerCase();
+	return VISION_MODEL_PATTERNS.some(pattern => lower.includes(pattern));
+}
+
+/**
+ * 本地模型服务：Ollama 或 LM Studio 等 OpenAI 兼容服务
+ * 不需要 API Key，"验证"即检测服务是否可达；模型从 /api/tags（Ollama）或 /v1/models 发现
+ */
+export class OllamaAdapter extends OpenAICompatibleAdapter {
+	readonly providerId = 'ollama';
+
+	// Server root without trailing slash or /v1, users paste either form
+	private getServerRoot(credentials: ProviderCredential): string {
+		const baseUrl = (credentials.baseUrl || this.provider?.defaultBaseUrl || 'http://localhost:11434').trim();
+		return baseUrl.replace(/\/+$/, '').replace(/\/v1$/, '');
+	}
+
+	protected getChatUrl(credentials: ProviderCredential): string {
+		return `${this.getServerRoot(credentials)}/v1/chat/completions`;
+	}
+
+	protected getHeaders(credentials: ProviderCredential): Record<string, string> {
+		const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+		// Local servers normally run without auth, but a key is forwarded if one is set
+		if (credentials.apiKey && credentials.apiKey.trim()) {
+			headers['Authorization'] = `Bearer ${credentials.apiKey.trim()}`;
+		}
+		return headers;
+	}
+
+	async listModels(credentials: ProviderCredential): Promise<LLMModel[]> {
+		const root = this.getServerRoot(credentials);
+
+		// Ollama native endpoint, includes model families for vision detection
+		try {
+			const data = await this.fetchModelsJson(`${root}/api/tags`, this.getHeaders(credentials));
+			if (data?.models && Array.isArray(data.models)) {
+				return data.models.map((model: any) => {
+					const families: string[] = model.details?.families || [];
+					return {
+						id: model.name,
+						name: model.name,
+						hasVision: families.some(f => VISION_FAMILIES.includes(f)) || isLikelyVisionModel(model.name),
+						contextWindow: 8192
+					};
+				});
+			}
+		} catch (error) {
+			getLogger().log(`/api/tags not available on ${root}, trying /v1/models`);
+		}
+
+		// OpenAI-compatible endpoint (LM Studio, llama.cpp server, vLLM ...)
+		const data = await this.fetchModelsJson(`${root}/v1/models`, this.getHeaders(credentials));
+		if (!data?.data || !Array.isArray(data.data)) {
+			return [];
+		}
+		return data.data.map((model: any) => ({
+			id: model.id,
+			name: model.id,
+			hasVision: isLikelyVisionModel(model.id),
+			contextWindow: 8192
+		}));
+	}
+
+	// Reachability check instead of key validation
+	async verifyKey(credentials: ProviderCredential): Promise<boolean> {
+		const root = this.getServerRoot(credentials);
+		for (const path of ['/api/tags', '/v1/models']) {
+			try {
+				const response = await requestUrl({
+					url: `${root}${path}`,
+					method: 'GET',
+					headers: this.getHeaders(credentials),
+					throw: false
+				});
+				if (response.status >= 200 && response.status < 300) {
+					return true;
+				}
+			} catch (error) {
+				getLogger().log(`Local server not reachable at ${root}${path}:`, error);
+			}
+		}
+		return false;
+	}
+
+	// Ask Ollama for the model's capabilities, fall back to name detection for other servers
+	async testVision(modelConfig: ModelConfig, credentials: ProviderCredential): Promise<boolean> {
+		try {
+			const response = await requestUrl({
+				url: `${this.getServerRoot(credentials)}/api/show`,
+				method: 'POST',
+				headers: this.getHeaders(credentials),
+				body: JSON.stringify({ model: modelConfig.modelId }),
+				throw: false
+			});
+			if (response.status >= 200 && response.status < 300) {
+				const data = response.json;
+				if (Array.isArray(data?.capabilities)) {
+					return data.capabilities.includes('vision');
+				}
+				const families: string[] = data?.details?.families || [];
+				if (families.some(f => VISION_FAMILIES.includes(f))) {
+					return true;
+				}
+			}
+		} catch (error) {
+			getLogger().log('Model capabilities not available, using name detection:', error);
+		}
+		return isLikelyVisionModel(modelConfig.modelId);
+	}
+}
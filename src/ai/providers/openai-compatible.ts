@@ -0,0 +1,121 @@
+import { LLMModel, ModelConfig } from '../../types';
+import { SSEEvent, StreamRequest } from '../streaming';
+import { BaseProviderAdapter, ProviderCredential, StreamDelta } from './provider-adapter';
+import { getLogger } from '../../utils/logger';
+import { ProviderError } from '../provider-errors';
+
+/**
+ * OpenAI Chat Completions 协议的通用实现，OpenAI / OpenRouter / 自定义网关都基于它
+ */
+export abstract class OpenAICompatibleAdapter extends BaseProviderAdapter {
+	// Full URL of the chat completions endpoint
+	protected abstract getChatUrl(credentials: ProviderCredential): string;
+
+	// Extra headers sent with every request (e.g. OpenRouter attribution)
+	protected getExtraHeaders(): Record<string, string> {
+		return {};
+	}
+
+	protected getBaseUrl(credentials: ProviderCredential, fallback: string): string {
+		return credentials.baseUrl || this.provider?.defaultBaseUrl || fallback;
+	}
+
+	protected getHeaders(credentials: ProviderCredential): Record<string, string> {
+		return {
+			'Content-Type': 'application/json',
+			'Authorization': `Bearer ${credentials.apiKey}`,
+			...this.getExtraHeaders()
+		};
+	}
+
+	buildRequest(messages: any[], modelConfig: ModelConfig, credentials: ProviderCredential, stream: boolean): StreamRequest | null {
+		const requestBody: Record<string, any> = {
+			model: modelConfig.modelId,
+			messages: messages,
+			max_tokens: modelConfig.settings.maxTokens,
+			temperature: modelConfig.settings.temperature,
+			top_p: modelConfig.settings.topP,
+			frequency_penalty: modelConfig.settings.frequencyPenalty,
+			presence_penalty: modelConfig.settings.presencePenalty
+		};
+		if (stream) {
+			requestBody.stream = true;
+		}
+
+		const url = this.getChatUrl(credentials);
+		getLogger().log(`📤 ${this.providerId} API Request Body:`, JSON.stringify(requestBody, null, 2));
+		getLogger().log(`🔑 Using API Key: ${credentials.apiKey.substring(0, 10)}...`);
+		getLogger().log(`🌐 Full URL: ${url}`);
+
+		return {
+			url,
+			headers: this.getHeaders(credentials),
+			body: JSON.stringify(requestBody)
+		};
+	}
+
+	parseResponse(responseText: string): string {
+		const data = JSON.parse(responseText);
+
+		// For thinking models, check if there's additional content beyond message.content
+		const choice = data.choices[0];
+		let content = choice.message.content;
+
+		// A filtered reply arrives as a normal response with no content
+		if (choice.finish_reason === 'content_filter' && !content) {
+			throw new ProviderError('content-filter', 'Reply withheld by the content filter', this.providerId);
+		}
+
+		// Handle thinking models that might have reasoning/thinking content
+		if (choice.message.reasoning || choice.reasoning) {
+			const thinking = choice.message.reasoning || choice.reasoning;
+			content = `<think>\n${thinking}\n</think>\n\n${content}`;
+		}
+
+		// Some thinking models put the full response in different fields
+		if (choice.message.thinking_content) {
+			content = `<think>\n${choice.message.thinking_content}\n</think>\n\n${content}`;
+		}
+
+		return content;
+	}
+
+	parseStreamEvent(event: SSEEvent): StreamDelta {
+		if (event.data === '[DONE]') {
+			return { done: true };
+		}
+		return super.parseStreamEvent(event);
+	}
+
+	protected parseStreamChunk(data: any): StreamDelta {
+		const delta = data.choices?.[0]?.delta || {};
+		return {
+			content: delta.content || '',
+			thinking: delta.reasoning || delta.reasoning_content || delta.thinking_content || ''
+		};
+	}
+
+	// GET {baseUrl}/models and map the `data` array, filtered by includeModel
+	protected async listOpenAIModels(baseUrl: string, credentials: ProviderCredential): Promise<LLMModel[]> {
+		const data = await this.fetchModelsJson(`${baseUrl}/models`, this.getHeaders(credentials));
+		if (!data?.data || !Array.isArray(data.data)) {
+			return [];
+		}
+		return data.data
+			.filter((model: any) => this.includeModel(model))
+			.map((model: any) => this.toLLMModel(model));
+	}
+
+	protected includeModel(model: any): boolean {
+		return true;
+	}
+
+	protected toLLMModel(model: any): LLMModel {
+		return {
+			id: model.id,
+			name: model.name || model.id,
+			hasVision: true, // Will be tested when adding model
+			contextWindow: model.context_length || 4096
+		};
+	}
+}
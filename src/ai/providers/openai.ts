@@ -0,0 +1,35 @@
+import { LLMModel } from '../../types';
+import { OpenAICompatibleAdapter } from './openai-compatible';
+import { ProviderCredential } from './provider-adapter';
+
+export class OpenAIAdapter extends OpenAICompatibleAdapter {
+	readonly providerId = 'openai';
+
+	protected getChatUrl(credentials: ProviderCredential): string {
+		return `${this.getBaseUrl(credentials, 'https://api.openai.com/v1')}/chat/completions`;
+	}
+
+	async listModels(credentials: ProviderCredential): Promise<LLMModel[]> {
+		return this.listOpenAIModels(this.getBaseUrl(credentials, 'https://api.openai.com/v1'), credentials);
+	}
+
+	protected includeModel(model: any): boolean {
+		// Include all OpenAI chat models
+		const id = model.id?.toLowerCase() || '';
+		return id.includes('gpt') || id.includes('davinci') || id.includes('curie') || id.includes('babbage') || id.includes('ada');
+	}
+
+	protected toLLMModel(model: any): LLMModel {
+		return {
+			id: model.id,
+			name: model.id,
+			hasVision: true, // Will be tested when adding model
+			contextWindow: 4096 // Default, can be improved
+		};
+	}
+
+	async verifyKey(credentials: ProviderCredential): Promise<boolean> {
+		const apiKey = credentials.apiKey.trim();
+		return apiKey.startsWith('sk-') && apiKey.length > 40;
+	}
+}
@@ -0,0 +1,27 @@
+import { LLMModel } from '../../types';
+import { OpenAICompatibleAdapter } from './openai-compatible';
+import { ProviderCredential } from './provider-adapter';
+
+export class OpenRouterAdapter extends OpenAICompatibleAdapter {
+	readonly providerId = 'openrouter';
+
+	protected getChatUrl(credentials: ProviderCredential): string {
+		return `${this.getBaseUrl(credentials, 'https://openrouter.ai/api/v1')}/chat/completions`;
+	}
+
+	protected getExtraHeaders(): Record<string, string> {
+		return {
+			'HTTP-Referer': 'https://obsidian.md',
+			'X-Title': 'Obsidian CaptureAI'
+		};
+	}
+
+	async listModels(credentials: ProviderCredential): Promise<LLMModel[]> {
+		return this.listOpenAIModels(this.getBaseUrl(credentials, 'https://openrouter.ai/api/v1'), credentials);
+	}
+
+	async verifyKey(credentials: ProviderCredential): Promise<boolean> {
+		const apiKey = credentials.apiKey.trim();
+		return apiKey.startsWith('sk-or-') && apiKey.length > 50; // OpenRouter format
+	}
+}
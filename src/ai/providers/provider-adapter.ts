@@ -0,0 +1,173 @@
+import { requestUrl } from 'obsidian';
+import { LLM_PROVIDERS, LLMModel, LLMProvider, ModelConfig, ProviderCredentials } from '../../types';
+import { SSEEvent, StreamRequest } from '../streaming';
+import { classifyProviderError, extractErrorDetails, parseRetryAfter, ProviderError } from '../provider-errors';
+import { getLogger } from '../../utils/logger';
+
+// Credentials stored for a single provider
+export type ProviderCredential = ProviderCredentials[string];
+
+// Incremental text extracted from one streamed chunk
+export interface StreamDelta {
+	content?: string;
+	thinking?: string;
+	done?: boolean;
+}
+
+/**
+ * Everything AIManager and SetKeysModal need to talk to one provider.
+ * Adapters are registered by provider id (see ./index.ts) and looked up against LLM_PROVIDERS.
+ */
+export interface ProviderAdapter {
+	readonly providerId: string;
+
+	// Build a chat request from OpenAI-style context messages, null when `stream` is not supported
+	buildRequest(messages: any[], modelConfig: ModelConfig, credentials: ProviderCredential, stream: boolean): StreamRequest | null;
+
+	// Extract the reply text from a complete (non-streamed) response body
+	parseResponse(responseText: string): string;
+
+	// Extract the incremental text from one SSE event of a streamed response
+	parseStreamEvent(event: SSEEvent): StreamDelta;
+
+	// Typed error for an error response, `status` is undefined for errors reported inside a stream
+	parseError(status: number | undefined, responseText: string, headers?: Record<string, string>): ProviderError;
+
+	// Models offered by the provider, an empty list means "use the static list from LLM_PROVIDERS"
+	listModels(credentials: ProviderCredential): Promise<LLMModel[]>;
+
+	// Check whether the stored credentials look usable
+	verifyKey(credentials: ProviderCredential): Promise<boolean>;
+
+	// Send a tiny test image and report whether the model accepted it
+	testVision(modelConfig: ModelConfig, credentials: ProviderCredential): Promise<boolean>;
+}
+
+// 1x1 red pixel used by the vision capability test
+const VISION_TEST_IMAGE = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==';
+const VISION_TEST_MESSAGE = 'This is a vision test. Can you see this image? Please respond with yes or no.';
+
+/**
+ * 提供商适配器基类：实现与具体协议无关的通用逻辑（视觉测试、SSE 事件解析、模型列表请求）
+ */
+export abstract class BaseProviderAdapter implements ProviderAdapter {
+	abstract readonly providerId: string;
+
+	abstract buildRequest(messages: any[], modelConfig: ModelConfig, credentials: ProviderCredential, stream: boolean): StreamRequest | null;
+
+	abstract parseResponse(responseText: string): string;
+
+	// Provider definition this adapter is registered against
+	get provider(): LLMProvider | undefined {
+		return LLM_PROVIDERS.find(p => p.id === this.providerId);
+	}
+
+	parseStreamEvent(event: SSEEvent): StreamDelta {
+		let data: any;
+		try {
+			data = JSON.parse(event.data);
+		} catch (error) {
+			getLogger().warn('⚠️ Skipping malformed stream chunk:', event.data);
+			return {};
+		}
+
+		if (data.error) {
+			throw this.parseError(undefined, event.data);
+		}
+
+		return this.parseStreamChunk(data);
+	}
+
+	parseError(status: number | undefined, responseText: string, headers?: Record<string, string>): ProviderError {
+		const { message, code } = extractErrorDetails(responseText);
+		const kind = classifyProviderError(status, `${code} ${message}`);
+		return new ProviderError(kind, message || `HTTP ${status}`, this.providerId, status, parseRetryAfter(headers));
+	}
+
+	// Extract the delta from one parsed stream chunk, providers without streaming keep the default
+	protected parseStreamChunk(data: any): StreamDelta {
+		return {};
+	}
+
+	async listModels(credentials: ProviderCredential): Promise<LLMModel[]> {
+		return [];
+	}
+
+	async verifyKey(credentials: ProviderCredential): Promise<boolean> {
+		return credentials.apiKey.trim().length > 5;
+	}
+
+	async testVision(modelConfig: ModelConfig, credentials: ProviderCredential): Promise<boolean> {
+		const messages = [{
+			role: 'user',
+			content: [
+				{ type: 'text', text: VISION_TEST_MESSAGE },
+				{ type: 'image_url', image_url: { url: VISION_TEST_IMAGE } }
+			]
+		}];
+		const testConfig: ModelConfig = {
+			...modelConfig,
+			settings: { ...modelConfig.settings, maxTokens: 10 }
+		};
+		const request = this.buildRequest(messages, testConfig, credentials, false);
+		if (!request) {
+			throw new Error(`Vision testing not implemented for provider: ${this.providerId}`);
+		}
+
+		try {
+			const response = await requestUrl({
+				url: request.url,
+				method: 'POST',
+				headers: request.headers,
+				body: request.body,
+				throw: false
+			});
+
+			if (response.status < 200 || response.status >= 300) {
+				const errorText = response.text;
+				getLogger().log('Vision test API error response:', errorText);
+
+				// Check if the error indicates vision is not supported
+				if (this.isVisionRejection(errorText) || response.status === 400) {
+					return false; // Vision not supported
+				}
+
+				throw new Error(`API call failed: ${response.status} ${response.text}`);
+			}
+
+			// If we get a successful response, the model supports vision
+			getLogger().log('Vision test successful, response:', response.json);
+			return true;
+		} catch (error) {
+			// If there's a network error or parsing error, check the error message
+			if (this.isVisionRejection(error.message) || error.message.toLowerCase().includes('does not support')) {
+				return false; // Vision not supported
+			}
+
+			// For other errors, re-throw
+			throw error;
+		}
+	}
+
+	private isVisionRejection(message: string): boolean {
+		const lower = message.toLowerCase();
+		return lower.includes('vision') || lower.includes('image') || lower.includes('multimodal');
+	}
+
+	// GET a models endpoint and return the parsed JSON
+	protected async fetchModelsJson(url: string, headers: Record<string, string>): Promise<any> {
+		getLogger().log("URL debug:", JSON.stringify(url));
+		const response = await requestUrl({
+			url: url,
+			method: 'GET',
+			headers: headers,
+			throw: false
+		});
+
+		if (response.status < 200 || response.status >= 300) {
+			throw new Error(`HTTP ${response.status}: ${response.text}`);
+		}
+
+		return response.json;
+	}
+}
@@ -0,0 +1,217 @@
+import { getLogger } from '../utils/logger';
+
+// Callback receiving the full accumulated response text after each streamed chunk
+export type StreamUpdateCallback = (content: string) => void;
+
+// A single Server-Sent Event
+export interface SSEEvent {
+	event?: string;
+	data: string;
+}
+
+// Request description shared by the streaming (fetch) and non-streaming (requestUrl) paths
+export interface StreamRequest {
+	url: string;
+	headers: Record<string, string>;
+	body: string;
+}
+
+/**
+ * Thrown when the streaming request could not be started at all (e.g. CORS or
+ * network restrictions on fetch). Callers fall back to the non-streaming path.
+ */
+export class StreamUnavailableError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'StreamUnavailableError';
+	}
+}
+
+/**
+ * Thrown when the user stops a request through its cancellation token.
+ */
+export class RequestCancelledError extends Error {
+	constructor() {
+		super('Request cancelled');
+		this.name = 'RequestCancelledError';
+	}
+}
+
+/**
+ * Thrown when the provider answers with a non-2xx status. AIManager turns it into a
+ * ProviderError through the provider's adapter.
+ */
+export class HttpStatusError extends Error {
+	readonly status: number;
+	readonly body: string;
+	readonly headers: Record<string, string>;
+
+	constructor(status: number, body: string, headers: Record<string, string>) {
+		super(`API call failed: ${status} ${body}`);
+		this.name = 'HttpStatusError';
+		this.status = status;
+		this.body = body;
+		this.headers = headers;
+	}
+}
+
+/**
+ * Thrown when no data arrived within the idle timeout.
+ */
+export class RequestTimeoutError extends Error {
+	constructor(timeoutMs: number) {
+		super(`No response received for ${Math.round(timeoutMs / 1000)}s, request timed out`);
+		this.name = 'RequestTimeoutError';
+	}
+}
+
+/**
+ * 等待指定毫秒数，取消时立即以 RequestCancelledError 结束
+ */
+export function waitWithCancellation(ms: number, signal?: AbortSignal): Promise<void> {
+	return withCancellation(new Promise<void>(resolve => window.setTimeout(resolve, ms)), signal);
+}
+
+/**
+ * 让不支持中止的请求（如 requestUrl）响应取消：取消时立即以 RequestCancelledError 结束，底层请求结果被丢弃
+ */
+export function withCancellation<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+	if (!signal) return promise;
+	if (signal.aborted) return Promise.reject(new RequestCancelledError());
+
+	return new Promise<T>((resolve, reject) => {
+		const onAbort = () => reject(new RequestCancelledError());
+		signal.addEventListener('abort', onAbort);
+		promise.then(
+			value => {
+				signal.removeEventListener('abort', onAbort);
+				resolve(value);
+			},
+			error => {
+				signal.removeEventListener('abort', onAbort);
+				reject(error);
+			}
+		);
+	});
+}
+
+/**
+ * 发送流式请求并逐个解析 SSE 事件
+ * idleTimeoutMs 是空闲超时：每收到一个数据块就重新计时，而不是限制整个响应的总时长
+ * onEvent 返回 true 时停止读取（例如收到 [DONE]）
+ * signal 是调用方的取消令牌，触发后中止请求并抛出 RequestCancelledError
+ */
+export async function streamSSERequest(
+	request: StreamRequest,
+	idleTimeoutMs: number,
+	onEvent: (event: SSEEvent) => boolean | void,
+	signal?: AbortSignal
+): Promise<void> {
+	if (signal?.aborted) {
+		throw new RequestCancelledError();
+	}
+
+	const controller = new AbortController();
+	const onCancel = () => controller.abort();
+	signal?.addEventListener('abort', onCancel);
+	let timedOut = false;
+	let idleTimer: number | null = null;
+
+	const resetIdleTimer = () => {
+		if (idleTimer !== null) window.clearTimeout(idleTimer);
+		if (idleTimeoutMs > 0) {
+			idleTimer = window.setTimeout(() => {
+				timedOut = true;
+				controller.abort();
+			}, idleTimeoutMs);
+		}
+	};
+	const timeoutError = () => new RequestTimeoutError(idleTimeoutMs);
+
+	resetIdleTimer();
+
+	let response: Response;
+	try {
+		response = await fetch(request.url, {
+			method: 'POST',
+			headers: request.headers,
+			body: request.body,
+			signal: controller.signal
+		});
+	} catch (error) {
+		if (idleTimer !== null) window.clearTimeout(idleTimer);
+		signal?.removeEventListener('abort', onCancel);
+		if (signal?.aborted) throw new RequestCancelledError();
+		if (timedOut) throw timeoutError();
+		throw new StreamUnavailableError(error.message);
+	}
+
+	try {
+		if (!response.ok) {
+			const errorText = await response.text();
+			getLogger().error(`API call failed. Status: ${response.status}, Response: ${errorText}`);
+			const headers: Record<string, string> = {};
+			response.headers.forEach((value, name) => headers[name] = value);
+			throw new HttpStatusError(response.status, errorText, headers);
+		}
+
+		if (!response.body) {
+			throw new StreamUnavailableError('Response body is not readable');
+		}
+
+		const reader = response.body.getReader();
+		const decoder = new TextDecoder('utf-8');
+		let buffer = '';
+		let eventName: string | undefined;
+		let dataLines: string[] = [];
+
+		// Dispatch the buffered event, returns true when the consumer asks to stop
+		const dispatch = (): boolean => {
+			if (dataLines.length === 0) {
+				eventName = undefined;
+				return false;
+			}
+			const event: SSEEvent = { event: eventName, data: dataLines.join('\n') };
+			eventName = undefined;
+			dataLines = [];
+			return onEvent(event) === true;
+		};
+
+		let chunk = await reader.read();
+		while (!chunk.done) {
+			resetIdleTimer();
+			buffer += decoder.decode(chunk.value, { stream: true });
+			const lines = buffer.split(/\r?\n/);
+			buffer = lines.pop() || '';
+
+			for (const line of lines) {
+				if (line === '') {
+					if (dispatch()) {
+						reader.cancel().catch(() => {});
+						return;
+					}
+				} else if (line.startsWith('data:')) {
+					dataLines.push(line.slice(5).replace(/^ /, ''));
+				} else if (line.startsWith('event:')) {
+					eventName = line.slice(6).trim();
+				}
+				// Comments (":") and other fields (id, retry) are ignored
+			}
+
+			chunk = await reader.read();
+		}
+
+		// Flush a trailing event that was not terminated by a blank line
+		if (buffer.startsWith('data:')) {
+			dataLines.push(buffer.slice(5).replace(/^ /, ''));
+		}
+		dispatch();
+	} catch (error) {
+		if (signal?.aborted) throw new RequestCancelledError();
+		if (timedOut) throw timeoutError();
+		throw error;
+	} finally {
+		if (idleTimer !== null) window.clearTimeout(idleTimer);
+		signal?.removeEventListener('abort', onCancel);
+	}
+}
@@ -0,0 +1,121 @@
+import {
+	countMessageTokens,
+	fitHistoryToBudget,
+	getBpeEncoding,
+	getImageTokenCost,
+	getModelFamily,
+	getTokenCounter,
+	setBpeRanksSource,
+	TokenCounter
+} from './tokenizer';
+import { initializeLogger } from '../utils/logger';
+import ImageCapturePlugin from '../main';
+
+// One token per character, so budgets are easy to work out
+const charCounter: TokenCounter = { name: 'chars', exact: true, countText: text => text.length };
+
+describe('getModelFamily', () => {
+	it('uses the provider, or the upstream model behind a gateway', () => {
+		expect(getModelFamily('anthropic', 'anything')).toBe('anthropic');
+		expect(getModelFamily('openrouter', 'anthropic/claude-3.5-sonnet')).toBe('anthropic');
+		expect(getModelFamily('openrouter', 'google/gemini-2.0-flash')).toBe('google');
+		expect(getModelFamily('custom', 'gpt-4o-mini')).toBe('openai');
+		expect(getModelFamily('openrouter', 'openai/o3-mini')).toBe('openai');
+		expect(getModelFamily('ollama', 'llama3.2-vision')).toBe('other');
+	});
+
+	it('picks the BPE table of the model generation', () => {
+		expect(getBpeEncoding('gpt-4o')).toBe('o200k_base');
+		expect(getBpeEncoding('openai/o1-preview')).toBe('o200k_base');
+		expect(getBpeEncoding('gpt-4-turbo')).toBe('cl100k_base');
+	});
+});
+
+describe('getTokenCounter', () => {
+	beforeAll(() => {
+		initializeLogger({ settings: { enableDebugLogging: false } } as ImageCapturePlugin);
+	});
+
+	afterEach(() => {
+		setBpeRanksSource(null);
+	});
+
+	it('estimates from characters, counting CJK characters one each', async () => {
+		const counter = await getTokenCounter('anthropic', 'claude-3-5-sonnet');
+		expect(counter.exact).toBe(false);
+		expect(counter.countText('hello world')).toBe(4);
+		expect(counter.countText('你好世界')).toBe(4);
+		expect(counter.countText('你好 ab')).toBe(3);
+	});
+
+	it('merges byte pairs by rank with a loaded table', async () => {
+		const table = ['a', 'b', 'c', ' ', 'ab'].map((token, rank) => `${btoa(token)} ${rank}`).join('\n');
+		setBpeRanksSource(async () => table);
+		const counter = await getTokenCounter('openai', 'gpt-4o');
+		expect(counter.exact).toBe(true);
+		// "abc" becomes "ab" + "c", " abc" becomes " " + "ab" + "c"
+		expect(counter.countText('abc abc')).toBe(5);
+	});
+
+	it('falls back to the estimate when the table cannot be loaded', async () => {
+		setBpeRanksSource(async () => {
+			throw new Error('offline');
+		});
+		const counter = await getTokenCounter('openai', 'gpt-4o');
+		expect(counter.exact).toBe(false);
+	});
+});
+
+describe('getImageTokenCost', () => {
+	it('follows each provider\'s formula', () => {
+		expect(getImageTokenCost('openai', { width: 1024, height: 1024 })).toBe(765);
+		expect(getImageTokenCost('openai', { width: 4096, height: 2048 })).toBe(1105);
+		expect(getImageTokenCost('anthropic', { width: 1000, height: 1000 })).toBe(1334);
+		expect(getImageTokenCost('anthropic', { width: 3000, height: 3000 })).toBe(1600);
+		expect(getImageTokenCost('google', { width: 300, height: 300 })).toBe(258);
+		expect(getImageTokenCost('google', { width: 1000, height: 800 })).toBe(1032);
+	});
+
+	it('uses a typical cost when the size is unknown', () => {
+		expect(getImageTokenCost('anthropic', null)).toBe(1600);
+	});
+});
+
+describe('countMessageTokens', () => {
+	it('adds the per-message overhead, text parts and images', () => {
+		const messages = [
+			{ role: 'system', content: 'abcd' },
+			{ role: 'user', content: [{ type: 'text', text: 'xyz' }, { type: 'image_url', image_url: { url: 'data:image/png;base64,' } }] }
+		];
+		// 3 priming + 2 × 4 overhead + 4 + 3 text + 1105 for an image of unknown size
+		expect(countMessageTokens(messages, charCounter, 'openai')).toBe(3 + 8 + 7 + 1105);
+	});
+});
+
+describe('fitHistoryToBudget', () => {
+	// 104 tokens each with the message overhead
+	const turn = (role: string) => ({ role, content: 'x'.repeat(100) });
+	const history = [turn('user'), turn('assistant'), turn('user'), turn('assistant')];
+
+	it('keeps everything that fits', () => {
+		const { kept, tokens } = fitHistoryToBudget(history, [], charCounter, 'openai', 500);
+		expect(kept).toEqual(history);
+		expect(tokens).toBe(3 + 4 * 104);
+	});
+
+	it('drops the oldest messages and never starts with an assistant turn', () => {
+		// After dropping one message 315 tokens fit in 400 minus the margin, the assistant reply goes with it
+		const { kept, tokens } = fitHistoryToBudget(history, [], charCounter, 'openai', 400);
+		expect(kept).toEqual(history.slice(2));
+		expect(tokens).toBe(3 + 2 * 104);
+	});
+
+	it('counts the fixed messages against the budget', () => {
+		const fixed = [{ role: 'user', content: 'y'.repeat(200) }];
+		expect(fitHistoryToBudget(history, fixed, charCounter, 'openai', 500).kept).toEqual(history.slice(2));
+	});
+
+	it('drops the whole history when nothing fits', () => {
+		expect(fitHistoryToBudget(history, [], charCounter, 'openai', 50).kept).toEqual([]);
+	});
+});
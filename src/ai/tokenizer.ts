@@ -0,0 +1,309 @@
+import { getLogger } from '../utils/logger';
+import { ImageSize, readImageSize } from '../utils/image-size';
+
+/**
+ * Token 计数与上下文预算
+ * - OpenAI 系列模型使用 tiktoken 的 BPE 表（cl100k_base / o200k_base）精确计数，表由调用方提供（见 setBpeRanksSource）
+ * - 其他模型按字符数估算，中日韩字符单独计算
+ * - 图片按各提供商公开的计费公式，根据图片尺寸计算
+ */
+
+export type ModelFamily = 'openai' | 'anthropic' | 'google' | 'other';
+
+export type BpeEncoding = 'cl100k_base' | 'o200k_base';
+
+// Loads a BPE table in tiktoken's text format ("<base64 token> <rank>" per line), null when unavailable
+export type BpeRanksSource = (encoding: BpeEncoding) => Promise<string | null>;
+
+export interface TokenCounter {
+	readonly name: string;
+	readonly exact: boolean; // Real tokenizer rather than an estimate
+	countText(text: string): number;
+}
+
+// Role and separator tokens each chat message adds, plus the tokens that prime the reply
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const REPLY_PRIMING_TOKENS = 3;
+
+// Pieces longer than this are estimated instead of merged, merging is quadratic in the piece length
+const MAX_BPE_PIECE_BYTES = 1024;
+const MAX_CACHED_PIECES = 20000;
+
+const CJK_PATTERN = /[぀-ヿ㐀-䶿一-鿿가-힯豈-﫿＀-￯]/g;
+
+// Pre-tokenization patterns from tiktoken, with the case-insensitive contraction group spelled out
+const CONTRACTIONS = "'(?:[sS]|[tT]|[rR][eE]|[vV][eE]|[mM]|[lL][lL]|[dD])";
+const SPLIT_PATTERNS: Record<BpeEncoding, string> = {
+	'cl100k_base': `${CONTRACTIONS}|[^\\r\\n\\p{L}\\p{N}]?\\p{L}+|\\p{N}{1,3}| ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+`,
+	'o200k_base': [
+		`[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]*[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]+(?:${CONTRACTIONS})?`,
+		`[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]+[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]*(?:${CONTRACTIONS})?`,
+		`\\p{N}{1,3}`,
+		` ?[^\\s\\p{L}\\p{N}]+[\\r\\n/]*`,
+		`\\s*[\\r\\n]+`,
+		`\\s+(?!\\S)`,
+		`\\s+`
+	].join('|')
+};
+
+// Tokens per image when its size cannot be read from the data URL
+const UNKNOWN_IMAGE_TOKENS: Record<ModelFamily, number> = {
+	openai: 1105,
+	anthropic: 1600,
+	google: 1032,
+	other: 1105
+};
+
+// Characters per token for models without a bundled tokenizer
+const CHARS_PER_TOKEN: Record<ModelFamily, number> = {
+	openai: 4,
+	anthropic: 3.5,
+	google: 4,
+	other: 3.6
+};
+
+let ranksSource: BpeRanksSource | null = null;
+const bpeCounters = new Map<BpeEncoding, Promise<TokenCounter | null>>();
+
+// null switches every model to the character estimate
+export function setBpeRanksSource(source: BpeRanksSource | null): void {
+	ranksSource = source;
+	bpeCounters.clear();
+}
+
+/**
+ * Whose tokenizer and image pricing a model follows. Gateways (OpenRouter, custom, Ollama)
+ * are recognised by the upstream model name.
+ */
+export function getModelFamily(providerId: string, modelId: string): ModelFamily {
+	if (providerId === 'openai') return 'openai';
+	if (providerId === 'anthropic') return 'anthropic';
+	if (providerId === 'google') return 'google';
+
+	const id = modelId.toLowerCase();
+	if (id.includes('claude')) return 'anthropic';
+	if (id.includes('gemini')) return 'google';
+	if (/(^|\/)(gpt-|chatgpt|o[1-9](-|$))/.test(id)) return 'openai';
+	return 'other';
+}
+
+export function getBpeEncoding(modelId: string): BpeEncoding {
+	const id = modelId.toLowerCase().split('/').pop() || '';
+	return /^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|chatgpt|o[1-9])/.test(id) ? 'o200k_base' : 'cl100k_base';
+}
+
+/**
+ * Counter for a model: the BPE tokenizer for OpenAI-family models once its table is loaded,
+ * otherwise the character estimate for the model's family
+ */
+export async function getTokenCounter(providerId: string, modelId: string): Promise<TokenCounter> {
+	const family = getModelFamily(providerId, modelId);
+	if (family === 'openai' && ranksSource) {
+		const encoding = getBpeEncoding(modelId);
+		let loading = bpeCounters.get(encoding);
+		if (!loading) {
+			loading = loadBpeCounter(encoding, ranksSource);
+			bpeCounters.set(encoding, loading);
+		}
+		const counter = await loading;
+		if (counter) return counter;
+	}
+	return new HeuristicTokenCounter(family);
+}
+
+async function loadBpeCounter(encoding: BpeEncoding, source: BpeRanksSource): Promise<TokenCounter | null> {
+	try {
+		const table = await source(encoding);
+		if (!table) return null;
+		const counter = new BpeTokenCounter(encoding, parseBpeRanks(table), SPLIT_PATTERNS[encoding]);
+		getLogger().log(`🔤 Loaded ${encoding} tokenizer`);
+		return counter;
+	} catch (error) {
+		// Stays on the estimate for this session instead of retrying on every request
+		getLogger().warn(`⚠️ Could not load ${encoding} tokenizer, estimating tokens instead:`, error);
+		return null;
+	}
+}
+
+// Token bytes (as a latin1 string) to rank
+function parseBpeRanks(table: string): Map<string, number> {
+	const ranks = new Map<string, number>();
+	for (const line of table.split('\n')) {
+		const space = line.indexOf(' ');
+		if (space <= 0) continue;
+		ranks.set(atob(line.slice(0, space)), parseInt(line.slice(space + 1), 10));
+	}
+	return ranks;
+}
+
+class BpeTokenCounter implements TokenCounter {
+	readonly name: string;
+	readonly exact = true;
+	private ranks: Map<string, number>;
+	private pattern: RegExp;
+	private encoder = new TextEncoder();
+	private pieceCache = new Map<string, number>();
+
+	constructor(name: string, ranks: Map<string, number>, pattern: string) {
+		this.name = name;
+		this.ranks = ranks;
+		this.pattern = new RegExp(pattern, 'gu');
+	}
+
+	countText(text: string): number {
+		let count = 0;
+		for (const match of text.match(this.pattern) || []) {
+			count += this.countPiece(match);
+		}
+		return count;
+	}
+
+	private countPiece(piece: string): number {
+		const cached = this.pieceCache.get(piece);
+		if (cached !== undefined) return cached;
+
+		const bytes = this.encoder.encode(piece);
+		let binary = '';
+		for (let i = 0; i < bytes.length; i++) {
+			binary += String.fromCharCode(bytes[i]);
+		}
+
+		let count: number;
+		if (this.ranks.has(binary)) {
+			count = 1;
+		} else if (binary.length > MAX_BPE_PIECE_BYTES) {
+			count = Math.ceil(binary.length / CHARS_PER_TOKEN.openai);
+		} else {
+			count = this.mergePairs(binary);
+		}
+
+		if (this.pieceCache.size >= MAX_CACHED_PIECES) {
+			this.pieceCache.clear();
+		}
+		this.pieceCache.set(piece, count);
+		return count;
+	}
+
+	// Byte pair merging as in tiktoken: repeatedly join the adjacent pair with the lowest rank
+	private mergePairs(binary: string): number {
+		const parts = binary.split('');
+		while (parts.length > 1) {
+			let bestRank = Infinity;
+			let bestIndex = -1;
+			for (let i = 0; i < parts.length - 1; i++) {
+				const rank = this.ranks.get(parts[i] + parts[i + 1]);
+				if (rank !== undefined && rank < bestRank) {
+					bestRank = rank;
+					bestIndex = i;
+				}
+			}
+			if (bestIndex < 0) break;
+			parts.splice(bestIndex, 2, parts[bestIndex] + parts[bestIndex + 1]);
+		}
+		return parts.length;
+	}
+}
+
+class HeuristicTokenCounter implements TokenCounter {
+	readonly name: string;
+	readonly exact = false;
+	private charsPerToken: number;
+
+	constructor(family: ModelFamily) {
+		this.name = `${family} estimate`;
+		this.charsPerToken = CHARS_PER_TOKEN[family];
+	}
+
+	countText(text: string): number {
+		// CJK characters are close to one token each with every tokenizer
+		const cjk = (text.match(CJK_PATTERN) || []).length;
+		return Math.ceil(cjk + (text.length - cjk) / this.charsPerToken);
+	}
+}
+
+/**
+ * 图片 token 成本，按各提供商公开的计算方式：
+ * - OpenAI：缩放到 2048 以内、短边 768，按 512px 切块，85 + 170 × 块数
+ * - Anthropic：长边缩放到 1568 以内，宽 × 高 / 750，上限约 1600
+ * - Gemini：两边都不超过 384 时 258，否则按 768px 切块，每块 258
+ * 其他模型沿用 OpenAI 的切块公式
+ */
+export function getImageTokenCost(family: ModelFamily, size: ImageSize | null): number {
+	if (!size || size.width <= 0 || size.height <= 0) return UNKNOWN_IMAGE_TOKENS[family];
+	let { width, height } = size;
+
+	switch (family) {
+		case 'anthropic': {
+			const scale = Math.min(1, 1568 / Math.max(width, height));
+			return Math.min(1600, Math.ceil(width * scale * height * scale / 750));
+		}
+		case 'google':
+			if (width <= 384 && height <= 384) return 258;
+			return Math.ceil(width / 768) * Math.ceil(height / 768) * 258;
+		default: {
+			const fit = Math.min(1, 2048 / Math.max(width, height));
+			width *= fit;
+			height *= fit;
+			const shortSide = Math.min(1, 768 / Math.min(width, height));
+			width *= shortSide;
+			height *= shortSide;
+			return 85 + 170 * Math.ceil(width / 512) * Math.ceil(height / 512);
+		}
+	}
+}
+
+// Tokens of OpenAI-style context messages, including per-message overhead and images
+export function countMessageTokens(messages: any[], counter: TokenCounter, family: ModelFamily): number {
+	let total = REPLY_PRIMING_TOKENS;
+	for (const message of messages) {
+		total += MESSAGE_OVERHEAD_TOKENS;
+		if (typeof message.content === 'string') {
+			total += counter.countText(message.content);
+		} else if (Array.isArray(message.content)) {
+			for (const part of message.content) {
+				if (part.type === 'text') {
+					total += counter.countText(part.text || '');
+				} else if (part.type === 'image_url') {
+					total += getImageTokenCost(family, readImageSize(part.image_url?.url || ''));
+				}
+			}
+		}
+	}
+	return total;
+}
+
+/**
+ * Safety margin on top of a count: small for a real tokenizer, larger for an estimate
+ */
+export function getTokenMargin(counter: TokenCounter, inputTokens: number): number {
+	return 64 + Math.ceil(inputTokens * (counter.exact ? 0.02 : 0.1));
+}
+
+/**
+ * Drops the oldest history messages until the fixed messages, the history and the margin fit in
+ * `availableTokens`. The kept history opens with a user turn, some providers reject a leading
+ * assistant message.
+ */
+export function fitHistoryToBudget(
+	history: any[],
+	fixedMessages: any[],
+	counter: TokenCounter,
+	family: ModelFamily,
+	availableTokens: number
+): { kept: any[]; tokens: number } {
+	const fixedTokens = countMessageTokens(fixedMessages, counter, family);
+	// Reply priming is already part of the fixed count
+	const historyTokens = history.map(message => countMessageTokens([message], counter, family) - REPLY_PRIMING_TOKENS);
+
+	let total = fixedTokens + historyTokens.reduce((sum, tokens) => sum + tokens, 0);
+	let start = 0;
+	while (start < history.length && total > availableTokens - getTokenMargin(counter, total)) {
+		total -= historyTokens[start];
+		start++;
+	}
+	while (start > 0 && start < history.length && history[start].role === 'assistant') {
+		total -= historyTokens[start];
+		start++;
+	}
+	return { kept: history.slice(start), tokens: total };
+}
@@ -0,0 +1,173 @@
+import {
+	AnnotationOperation,
+	applyAnnotationOperation,
+	drawRedaction,
+	findAnnotationAt,
+	getAnnotationBounds,
+	hitTestAnnotation,
+	mapAnnotationPoints,
+	revertAnnotationOperation
+} from './annotations';
+import { Annotation, PathAnnotation, RedactionAnnotation, RedactionStyle, ShapeAnnotation, ShapeType } from '../types';
+
+const shape = (id: string, type: ShapeType, x1: number, y1: number, x2: number, y2: number): ShapeAnnotation => ({
+	id,
+	type,
+	color: '#ff0000',
+	strokeSize: 'medium',
+	thickness: 4,
+	start: { x: x1, y: y1 },
+	end: { x: x2, y: y2 }
+});
+
+const pen = (id: string, points: [number, number][]): PathAnnotation => ({
+	id,
+	type: 'pen',
+	color: '#ff0000',
+	strokeSize: 'medium',
+	thickness: 4,
+	points: points.map(([x, y]) => ({ x, y }))
+});
+
+const redaction = (style: RedactionStyle, x1: number, y1: number, x2: number, y2: number): RedactionAnnotation => ({
+	id: 'r',
+	type: 'redaction',
+	style,
+	color: '#000000',
+	strokeSize: 'medium',
+	thickness: 0,
+	start: { x: x1, y: y1 },
+	end: { x: x2, y: y2 }
+});
+
+// Records the canvas calls a redaction makes
+function recordingContext() {
+	const calls: string[] = [];
+	const ctx = {
+		fillStyle: '',
+		save: () => calls.push('save'),
+		restore: () => calls.push('restore'),
+		beginPath: () => calls.push('beginPath'),
+		rect: (x: number, y: number, w: number, h: number) => calls.push(`rect ${x},${y},${w},${h}`),
+		clip: () => calls.push('clip'),
+		fillRect: (x: number, y: number, w: number, h: number) => calls.push(`fillRect ${ctx.fillStyle} ${x},${y},${w},${h}`),
+		drawImage: () => calls.push('drawImage')
+	};
+	return { ctx: ctx as unknown as CanvasRenderingContext2D, calls };
+}
+
+describe('getAnnotationBounds', () => {
+	it('normalises shapes drawn from the bottom right', () => {
+		expect(getAnnotationBounds(shape('a', 'rectangle', 100, 80, 20, 30))).toEqual({ x: 20, y: 30, width: 80, height: 50 });
+	});
+
+	it('covers every point of a stroke', () => {
+		expect(getAnnotationBounds(pen('a', [[10, 50], [40, 5], [25, 70]]))).toEqual({ x: 10, y: 5, width: 30, height: 65 });
+	});
+});
+
+describe('hitTestAnnotation', () => {
+	it('hits lines only near the line, widened by half the thickness and the tolerance', () => {
+		const line = shape('a', 'line', 0, 0, 100, 0);
+		expect(hitTestAnnotation(line, { x: 50, y: 5 }, 3)).toBe(true);
+		expect(hitTestAnnotation(line, { x: 50, y: 6 }, 3)).toBe(false);
+		expect(hitTestAnnotation(line, { x: 106, y: 0 }, 3)).toBe(false);
+	});
+
+	it('hits rectangles anywhere inside their area', () => {
+		const rect = shape('a', 'rectangle', 0, 0, 100, 50);
+		expect(hitTestAnnotation(rect, { x: 50, y: 25 }, 0)).toBe(true);
+		expect(hitTestAnnotation(rect, { x: 105, y: 25 }, 2)).toBe(false);
+	});
+
+	it('hits ellipses inside the curve but not in the corners of their box', () => {
+		const ellipse = shape('a', 'ellipse', 0, 0, 100, 50);
+		expect(hitTestAnnotation(ellipse, { x: 50, y: 25 }, 0)).toBe(true);
+		expect(hitTestAnnotation(ellipse, { x: 5, y: 5 }, 0)).toBe(false);
+	});
+
+	it('hits strokes along every segment', () => {
+		const stroke = pen('a', [[0, 0], [50, 0], [50, 50]]);
+		expect(hitTestAnnotation(stroke, { x: 52, y: 30 }, 1)).toBe(true);
+		expect(hitTestAnnotation(stroke, { x: 25, y: 25 }, 1)).toBe(false);
+	});
+});
+
+describe('findAnnotationAt', () => {
+	it('returns the topmost annotation under the point', () => {
+		const annotations: Annotation[] = [shape('below', 'rectangle', 0, 0, 100, 100), shape('above', 'rectangle', 50, 50, 150, 150)];
+		expect(findAnnotationAt(annotations, { x: 75, y: 75 }, 0)).toBe(1);
+		expect(findAnnotationAt(annotations, { x: 25, y: 25 }, 0)).toBe(0);
+		expect(findAnnotationAt(annotations, { x: 300, y: 300 }, 0)).toBe(-1);
+	});
+});
+
+describe('mapAnnotationPoints', () => {
+	it('returns a moved copy and leaves the original alone', () => {
+		const original = pen('a', [[0, 0], [10, 10]]);
+		const moved = mapAnnotationPoints(original, p => ({ x: p.x + 5, y: p.y - 5 }));
+		expect(moved.points).toEqual([{ x: 5, y: -5 }, { x: 15, y: 5 }]);
+		expect(original.points).toEqual([{ x: 0, y: 0 }, { x: 10, y: 10 }]);
+	});
+});
+
+describe('annotation operations', () => {
+	it('undoes and redoes add, update, remove and clear', () => {
+		const first = shape('a', 'line', 0, 0, 10, 10);
+		const second = shape('b', 'arrow', 5, 5, 20, 20);
+		const movedSecond = { ...second, start: { x: 6, y: 6 } };
+		const operations: AnnotationOperation[] = [
+			{ kind: 'add', annotation: first, index: 0 },
+			{ kind: 'add', annotation: second, index: 1 },
+			{ kind: 'update', before: second, after: movedSecond },
+			{ kind: 'remove', annotation: first, index: 0 },
+			{ kind: 'clear', annotations: [movedSecond] }
+		];
+
+		const annotations: Annotation[] = [];
+		const states: Annotation[][] = [[]];
+		operations.forEach(op => {
+			applyAnnotationOperation(annotations, op);
+			states.push(JSON.parse(JSON.stringify(annotations)));
+		});
+		expect(annotations).toEqual([]);
+		expect(states[3]).toEqual([first, movedSecond]);
+
+		for (let i = operations.length - 1; i >= 0; i--) {
+			revertAnnotationOperation(annotations, operations[i]);
+			expect(annotations).toEqual(states[i]);
+		}
+	});
+
+	it('stores copies so later edits do not change the history', () => {
+		const line = shape('a', 'line', 0, 0, 10, 10);
+		const annotations: Annotation[] = [];
+		applyAnnotationOperation(annotations, { kind: 'add', annotation: line, index: 0 });
+		line.end.x = 99;
+		expect((annotations[0] as ShapeAnnotation).end.x).toBe(10);
+	});
+});
+
+describe('redactions', () => {
+	it('are hit anywhere inside their area', () => {
+		const box = redaction('blur', 80, 60, 20, 10);
+		expect(hitTestAnnotation(box, { x: 50, y: 35 }, 0)).toBe(true);
+		expect(hitTestAnnotation(box, { x: 90, y: 35 }, 0)).toBe(false);
+	});
+
+	it('paint a black box clipped to the rounded region', () => {
+		const { ctx, calls } = recordingContext();
+		drawRedaction(ctx, redaction('solid', 60.4, 40.6, 10.2, 10), {} as CanvasImageSource);
+		expect(calls).toEqual([
+			'save', 'beginPath', 'rect 10,10,50,31', 'clip',
+			'fillRect #000000 10,10,50,31',
+			'restore'
+		]);
+	});
+
+	it('draw nothing for an empty region', () => {
+		const { ctx, calls } = recordingContext();
+		drawRedaction(ctx, redaction('pixelate', 10, 10, 10, 40), {} as CanvasImageSource);
+		expect(calls).toEqual([]);
+	});
+});
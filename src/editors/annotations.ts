@@ -0,0 +1,677 @@
+import { Annotation, MagnifierAnnotation, PathAnnotation, Point, RedactionAnnotation, Region, SpotlightAnnotation, StepAnnotation, StrokeSize, TextAnnotation } from '../types';
+
+/**
+ * 编辑层标注对象的绘制、命中检测与历史操作
+ * 所有坐标均为完整截图的像素坐标，调用方负责设置画布变换（缩放、图层偏移）
+ */
+
+// One undoable change to the annotation list
+export type AnnotationOperation =
+	| { kind: 'add'; annotation: Annotation; index: number }
+	| { kind: 'remove'; annotation: Annotation; index: number }
+	| { kind: 'update'; before: Annotation; after: Annotation }
+	| { kind: 'clear'; annotations: Annotation[] };
+
+// Font size of the text tool for each stroke size button, in full screenshot pixels
+export const TEXT_FONT_SIZES: Record<StrokeSize, number> = {
+	small: 16,
+	medium: 24,
+	large: 36
+};
+
+// Radius of step markers for each stroke size button
+export const STEP_RADII: Record<StrokeSize, number> = {
+	small: 12,
+	medium: 16,
+	large: 22
+};
+
+// Blur radius and pixel block size of redactions for each stroke size button
+const REDACTION_STRENGTH: Record<StrokeSize, { blur: number; block: number }> = {
+	small: { blur: 6, block: 8 },
+	medium: { blur: 10, block: 12 },
+	large: { blur: 16, block: 20 }
+};
+
+// Dimmed layer of the spotlights, reused between renders
+let spotlightCanvas: HTMLCanvasElement | null = null;
+
+const TEXT_LINE_HEIGHT = 1.25;
+const TEXT_FONT_FAMILY = '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+
+let measureCtx: CanvasRenderingContext2D | null = null;
+
+export function generateAnnotationId(): string {
+	return `ann-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function isPathAnnotation(annotation: Annotation): annotation is PathAnnotation {
+	return annotation.type === 'pen' || annotation.type === 'highlighter';
+}
+
+export function isTextAnnotation(annotation: Annotation): annotation is TextAnnotation {
+	return annotation.type === 'text';
+}
+
+export function isRedactionAnnotation(annotation: Annotation): annotation is RedactionAnnotation {
+	return annotation.type === 'redaction';
+}
+
+export function isSpotlightAnnotation(annotation: Annotation): annotation is SpotlightAnnotation {
+	return annotation.type === 'spotlight';
+}
+
+export function isMagnifierAnnotation(annotation: Annotation): annotation is MagnifierAnnotation {
+	return annotation.type === 'magnifier';
+}
+
+export function isStepAnnotation(annotation: Annotation): annotation is StepAnnotation {
+	return annotation.type === 'step';
+}
+
+// Number shown on each step marker, in list order starting at 1
+export function getStepNumbers(annotations: Annotation[]): Map<string, number> {
+	const numbers = new Map<string, number>();
+	annotations.filter(isStepAnnotation).forEach((step, i) => numbers.set(step.id, i + 1));
+	return numbers;
+}
+
+export function getTextFont(fontSize: number): string {
+	return `${fontSize}px ${TEXT_FONT_FAMILY}`;
+}
+
+// Space between the text and the edge of its box
+export function getTextPadding(fontSize: number): number {
+	return Math.round(fontSize * 0.3);
+}
+
+/**
+ * Size of a text annotation's box (text plus padding) in full screenshot pixels
+ */
+export function measureTextAnnotation(annotation: TextAnnotation): { width: number; height: number } {
+	if (!measureCtx) {
+		measureCtx = document.createElement('canvas').getContext('2d');
+	}
+	const lines = annotation.text.split('\n');
+	let textWidth = 0;
+	if (measureCtx) {
+		measureCtx.font = getTextFont(annotation.fontSize);
+		lines.forEach(line => {
+			textWidth = Math.max(textWidth, measureCtx!.measureText(line).width);
+		});
+	} else {
+		textWidth = Math.max(...lines.map(line => line.length)) * annotation.fontSize * 0.6;
+	}
+	const padding = getTextPadding(annotation.fontSize);
+	return {
+		width: Math.ceil(textWidth) + padding * 2,
+		height: Math.ceil(lines.length * annotation.fontSize * TEXT_LINE_HEIGHT) + padding * 2
+	};
+}
+
+export function cloneAnnotation<T extends Annotation>(annotation: T): T {
+	return JSON.parse(JSON.stringify(annotation));
+}
+
+/**
+ * Copy of the annotation with every control point passed through `map` (used for move and resize)
+ */
+export function mapAnnotationPoints<T extends Annotation>(annotation: T, map: (point: Point) => Point): T {
+	const copy = cloneAnnotation(annotation);
+	if (isPathAnnotation(copy)) {
+		copy.points = copy.points.map(map);
+	} else if (isStepAnnotation(copy)) {
+		// Circles keep their shape, the radius follows the larger side of the scaled box
+		const topLeft = map({ x: copy.position.x - copy.radius, y: copy.position.y - copy.radius });
+		const bottomRight = map({ x: copy.position.x + copy.radius, y: copy.position.y + copy.radius });
+		copy.position = { x: (topLeft.x + bottomRight.x) / 2, y: (topLeft.y + bottomRight.y) / 2 };
+		copy.radius = Math.max(6, Math.round(Math.max(Math.abs(bottomRight.x - topLeft.x), Math.abs(bottomRight.y - topLeft.y)) / 2));
+	} else if (isTextAnnotation(copy)) {
+		// Text scales with the height of its box, the width follows from the font
+		const size = measureTextAnnotation(copy);
+		const topLeft = map(copy.position);
+		const bottomRight = map({ x: copy.position.x + size.width, y: copy.position.y + size.height });
+		const scale = Math.abs(bottomRight.y - topLeft.y) / size.height;
+		copy.position = { x: Math.min(topLeft.x, bottomRight.x), y: Math.min(topLeft.y, bottomRight.y) };
+		copy.fontSize = Math.max(8, Math.round(copy.fontSize * scale));
+	} else if (isMagnifierAnnotation(copy)) {
+		// Moving or resizing a magnifier changes the enlarged copy, the magnified area stays on its content
+		const a = map({ x: copy.target.x, y: copy.target.y });
+		const b = map({ x: copy.target.x + copy.target.width, y: copy.target.y + copy.target.height });
+		copy.target = { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), width: Math.abs(b.x - a.x), height: Math.abs(b.y - a.y) };
+	} else {
+		copy.start = map(copy.start);
+		copy.end = map(copy.end);
+	}
+	return copy;
+}
+
+function getControlPoints(annotation: Annotation): Point[] {
+	if (isPathAnnotation(annotation)) {
+		return annotation.points;
+	}
+	if (isTextAnnotation(annotation)) {
+		const size = measureTextAnnotation(annotation);
+		return [annotation.position, { x: annotation.position.x + size.width, y: annotation.position.y + size.height }];
+	}
+	if (isStepAnnotation(annotation)) {
+		const { position, radius } = annotation;
+		return [{ x: position.x - radius, y: position.y - radius }, { x: position.x + radius, y: position.y + radius }];
+	}
+	if (isMagnifierAnnotation(annotation)) {
+		const { target } = annotation;
+		return [{ x: target.x, y: target.y }, { x: target.x + target.width, y: target.y + target.height }];
+	}
+	return [annotation.start, annotation.end];
+}
+
+/**
+ * Bounding box of the annotation's control points, not including the line width
+ */
+export function getAnnotationBounds(annotation: Annotation): Region {
+	const points = getControlPoints(annotation);
+	let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+	points.forEach(p => {
+		minX = Math.min(minX, p.x);
+		minY = Math.min(minY, p.y);
+		maxX = Math.max(maxX, p.x);
+		maxY = Math.max(maxY, p.y);
+	});
+	if (points.length === 0) {
+		return { x: 0, y: 0, width: 0, height: 0 };
+	}
+	return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+function distanceToSegment(p: Point, a: Point, b: Point): number {
+	const dx = b.x - a.x;
+	const dy = b.y - a.y;
+	const lengthSq = dx * dx + dy * dy;
+	if (lengthSq === 0) {
+		return Math.hypot(p.x - a.x, p.y - a.y);
+	}
+	const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+	return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+/**
+ * Whether `point` hits the annotation. Lines and strokes are hit near the line,
+ * rectangles and ellipses anywhere inside their area.
+ */
+export function hitTestAnnotation(annotation: Annotation, point: Point, tolerance: number): boolean {
+	const reach = annotation.thickness / 2 + tolerance;
+
+	if (isPathAnnotation(annotation)) {
+		const points = annotation.points;
+		if (points.length === 1) {
+			return Math.hypot(point.x - points[0].x, point.y - points[0].y) <= reach;
+		}
+		for (let i = 1; i < points.length; i++) {
+			if (distanceToSegment(point, points[i - 1], points[i]) <= reach) {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	switch (annotation.type) {
+		case 'step':
+			return Math.hypot(point.x - annotation.position.x, point.y - annotation.position.y) <= annotation.radius + tolerance;
+		case 'spotlight':
+			return annotation.shape === 'ellipse'
+				? isInsideEllipse(getAnnotationBounds(annotation), point, reach)
+				: isInsideRect(getAnnotationBounds(annotation), point, reach);
+		case 'text':
+		case 'redaction':
+		case 'magnifier':
+		case 'rectangle':
+			return isInsideRect(getAnnotationBounds(annotation), point, reach);
+		case 'ellipse':
+			return isInsideEllipse(getAnnotationBounds(annotation), point, reach);
+		default:
+			return distanceToSegment(point, annotation.start, annotation.end) <= reach;
+	}
+}
+
+function isInsideRect(b: Region, point: Point, reach: number): boolean {
+	return point.x >= b.x - reach && point.x <= b.x + b.width + reach &&
+		point.y >= b.y - reach && point.y <= b.y + b.height + reach;
+}
+
+function isInsideEllipse(b: Region, point: Point, reach: number): boolean {
+	const rx = b.width / 2 + reach;
+	const ry = b.height / 2 + reach;
+	const nx = (point.x - (b.x + b.width / 2)) / rx;
+	const ny = (point.y - (b.y + b.height / 2)) / ry;
+	return nx * nx + ny * ny <= 1;
+}
+
+/**
+ * Index of the topmost annotation under `point`, -1 when nothing is hit
+ */
+export function findAnnotationAt(annotations: Annotation[], point: Point, tolerance: number): number {
+	for (let i = annotations.length - 1; i >= 0; i--) {
+		if (hitTestAnnotation(annotations[i], point, tolerance)) {
+			return i;
+		}
+	}
+	return -1;
+}
+
+// Apply an operation to the list in place (redo direction)
+export function applyAnnotationOperation(annotations: Annotation[], op: AnnotationOperation) {
+	switch (op.kind) {
+		case 'add':
+			annotations.splice(op.index, 0, cloneAnnotation(op.annotation));
+			break;
+		case 'remove': {
+			const index = annotations.findIndex(a => a.id === op.annotation.id);
+			if (index >= 0) annotations.splice(index, 1);
+			break;
+		}
+		case 'update': {
+			const index = annotations.findIndex(a => a.id === op.after.id);
+			if (index >= 0) annotations[index] = cloneAnnotation(op.after);
+			break;
+		}
+		case 'clear':
+			annotations.length = 0;
+			break;
+	}
+}
+
+// Undo an operation on the list in place
+export function revertAnnotationOperation(annotations: Annotation[], op: AnnotationOperation) {
+	switch (op.kind) {
+		case 'add': {
+			const index = annotations.findIndex(a => a.id === op.annotation.id);
+			if (index >= 0) annotations.splice(index, 1);
+			break;
+		}
+		case 'remove':
+			annotations.splice(Math.min(op.index, annotations.length), 0, cloneAnnotation(op.annotation));
+			break;
+		case 'update': {
+			const index = annotations.findIndex(a => a.id === op.before.id);
+			if (index >= 0) annotations[index] = cloneAnnotation(op.before);
+			break;
+		}
+		case 'clear':
+			annotations.length = 0;
+			op.annotations.forEach(a => annotations.push(cloneAnnotation(a)));
+			break;
+	}
+}
+
+/**
+ * Draw one annotation at full opacity. Highlighter strokes are drawn like pen strokes,
+ * the translucency comes from compositing the highlighter layer.
+ */
+export function drawAnnotation(ctx: CanvasRenderingContext2D, annotation: Annotation) {
+	ctx.save();
+	ctx.lineWidth = annotation.thickness;
+	ctx.lineCap = 'round';
+	ctx.lineJoin = 'round';
+	ctx.strokeStyle = annotation.color;
+	ctx.globalCompositeOperation = 'source-over';
+	ctx.globalAlpha = 1;
+
+	if (isPathAnnotation(annotation)) {
+		const points = annotation.points;
+		if (points.length > 0) {
+			ctx.beginPath();
+			ctx.moveTo(points[0].x, points[0].y);
+			if (points.length === 1) {
+				// A single click still leaves a dot
+				ctx.lineTo(points[0].x + 0.01, points[0].y);
+			}
+			for (let i = 1; i < points.length; i++) {
+				ctx.lineTo(points[i].x, points[i].y);
+			}
+			ctx.stroke();
+		}
+		ctx.restore();
+		return;
+	}
+
+	if (isTextAnnotation(annotation)) {
+		drawText(ctx, annotation);
+		ctx.restore();
+		return;
+	}
+
+	// Redactions need the background pixels, see drawRedaction; step markers need their number, see drawAnnotations;
+	// spotlights are composited together, see drawSpotlights; magnifiers sample the background, see drawMagnifier
+	if (isRedactionAnnotation(annotation) || isStepAnnotation(annotation) || isSpotlightAnnotation(annotation) || isMagnifierAnnotation(annotation)) {
+		ctx.restore();
+		return;
+	}
+
+	const { start, end } = annotation;
+	switch (annotation.type) {
+		case 'line':
+			ctx.beginPath();
+			ctx.moveTo(start.x, start.y);
+			ctx.lineTo(end.x, end.y);
+			ctx.stroke();
+			break;
+		case 'wavy-line':
+			drawWavyLine(ctx, start, end, annotation.thickness);
+			break;
+		case 'dashed-line': {
+			const dashLength = Math.max(8, annotation.thickness * 3);
+			ctx.setLineDash([dashLength, dashLength / 2]);
+			ctx.beginPath();
+			ctx.moveTo(start.x, start.y);
+			ctx.lineTo(end.x, end.y);
+			ctx.stroke();
+			break;
+		}
+		case 'dotted-line': {
+			const dotSize = Math.max(2, annotation.thickness);
+			ctx.setLineDash([dotSize, dotSize * 3]);
+			ctx.beginPath();
+			ctx.moveTo(start.x, start.y);
+			ctx.lineTo(end.x, end.y);
+			ctx.stroke();
+			break;
+		}
+		case 'rectangle':
+			ctx.strokeRect(start.x, start.y, end.x - start.x, end.y - start.y);
+			break;
+		case 'ellipse':
+			ctx.beginPath();
+			ctx.ellipse(
+				(start.x + end.x) / 2, (start.y + end.y) / 2,
+				Math.abs(end.x - start.x) / 2, Math.abs(end.y - start.y) / 2,
+				0, 0, 2 * Math.PI
+			);
+			ctx.stroke();
+			break;
+		case 'arrow':
+			drawArrow(ctx, start, end, annotation.thickness);
+			break;
+	}
+	ctx.restore();
+}
+
+/**
+ * Draw a list of annotations in order, step markers get their number and connector from the list
+ */
+export function drawAnnotations(ctx: CanvasRenderingContext2D, annotations: Annotation[]) {
+	let previousStep: StepAnnotation | null = null;
+	let stepNumber = 0;
+	annotations.forEach(annotation => {
+		if (!isStepAnnotation(annotation)) {
+			drawAnnotation(ctx, annotation);
+			return;
+		}
+		stepNumber++;
+		if (annotation.connector && previousStep) {
+			drawStepConnector(ctx, previousStep, annotation);
+		}
+		drawStepMarker(ctx, annotation, stepNumber);
+		previousStep = annotation;
+	});
+}
+
+/**
+ * 聚光灯：在 `size` 大小的区域上铺一层暗色，再挖掉所有聚光区域，与裁剪遮罩的合成方式相同。
+ * 多个聚光灯共用一层，暗度取其中最大的不透明度
+ */
+export function drawSpotlights(ctx: CanvasRenderingContext2D, annotations: Annotation[], size: { width: number; height: number }) {
+	const spotlights = annotations.filter(isSpotlightAnnotation);
+	if (spotlights.length === 0 || size.width === 0 || size.height === 0) return;
+
+	if (!spotlightCanvas) {
+		spotlightCanvas = document.createElement('canvas');
+	}
+	if (spotlightCanvas.width !== size.width || spotlightCanvas.height !== size.height) {
+		spotlightCanvas.width = size.width;
+		spotlightCanvas.height = size.height;
+	}
+	const layerCtx = spotlightCanvas.getContext('2d');
+	if (!layerCtx) return;
+
+	layerCtx.globalCompositeOperation = 'source-over';
+	layerCtx.clearRect(0, 0, size.width, size.height);
+	layerCtx.fillStyle = `rgba(0, 0, 0, ${Math.max(...spotlights.map(spotlight => spotlight.opacity))})`;
+	layerCtx.fillRect(0, 0, size.width, size.height);
+
+	layerCtx.globalCompositeOperation = 'destination-out';
+	layerCtx.fillStyle = '#000000';
+	spotlights.forEach(spotlight => {
+		const b = getAnnotationBounds(spotlight);
+		layerCtx.beginPath();
+		if (spotlight.shape === 'ellipse') {
+			layerCtx.ellipse(b.x + b.width / 2, b.y + b.height / 2, b.width / 2, b.height / 2, 0, 0, 2 * Math.PI);
+		} else {
+			layerCtx.rect(b.x, b.y, b.width, b.height);
+		}
+		layerCtx.fill();
+	});
+
+	ctx.drawImage(spotlightCanvas, 0, 0);
+}
+
+// Area between the two corner points of a magnifier
+export function getMagnifierSource(annotation: MagnifierAnnotation): Region {
+	const { start, end } = annotation;
+	return {
+		x: Math.min(start.x, end.x),
+		y: Math.min(start.y, end.y),
+		width: Math.abs(end.x - start.x),
+		height: Math.abs(end.y - start.y)
+	};
+}
+
+/**
+ * 放大镜标注：框出原区域，并把该区域从 `source`（完整分辨率截图）放大绘制到目标框，可选连接线。
+ * 目标框尚未放置（宽度为 0）时只画原区域
+ */
+export function drawMagnifier(ctx: CanvasRenderingContext2D, annotation: MagnifierAnnotation, source: CanvasImageSource) {
+	const area = getMagnifierSource(annotation);
+	const { target } = annotation;
+	const placed = target.width > 0 && target.height > 0;
+
+	ctx.save();
+	ctx.strokeStyle = annotation.color;
+	ctx.lineWidth = annotation.thickness;
+	ctx.lineJoin = 'round';
+	ctx.lineCap = 'round';
+
+	if (placed && annotation.connector) {
+		const from = getRectEdgePoint(area, target);
+		const to = getRectEdgePoint(target, area);
+		ctx.beginPath();
+		ctx.moveTo(from.x, from.y);
+		ctx.lineTo(to.x, to.y);
+		ctx.stroke();
+	}
+
+	ctx.strokeRect(area.x, area.y, area.width, area.height);
+
+	if (placed && area.width > 0 && area.height > 0) {
+		ctx.imageSmoothingEnabled = true;
+		ctx.imageSmoothingQuality = 'high';
+		ctx.drawImage(source, area.x, area.y, area.width, area.height, target.x, target.y, target.width, target.height);
+		ctx.strokeRect(target.x, target.y, target.width, target.height);
+	}
+	ctx.restore();
+}
+
+// Where the line from the centre of `rect` towards the centre of `other` leaves `rect`
+function getRectEdgePoint(rect: Region, other: Region): Point {
+	const cx = rect.x + rect.width / 2;
+	const cy = rect.y + rect.height / 2;
+	const dx = other.x + other.width / 2 - cx;
+	const dy = other.y + other.height / 2 - cy;
+	if (dx === 0 && dy === 0) return { x: cx, y: cy };
+	const scale = Math.min(
+		dx === 0 ? Infinity : rect.width / 2 / Math.abs(dx),
+		dy === 0 ? Infinity : rect.height / 2 / Math.abs(dy)
+	);
+	return { x: cx + dx * scale, y: cy + dy * scale };
+}
+
+function drawStepMarker(ctx: CanvasRenderingContext2D, step: StepAnnotation, stepNumber: number) {
+	const { position, radius } = step;
+	ctx.save();
+	ctx.beginPath();
+	ctx.arc(position.x, position.y, radius, 0, 2 * Math.PI);
+	ctx.fillStyle = step.color;
+	ctx.fill();
+	ctx.lineWidth = Math.max(1.5, radius / 8);
+	ctx.strokeStyle = '#ffffff';
+	ctx.stroke();
+
+	const label = String(stepNumber);
+	ctx.fillStyle = isLightColor(step.color) ? '#000000' : '#ffffff';
+	ctx.font = `bold ${Math.round(radius * (label.length > 1 ? 1 : 1.2))}px ${TEXT_FONT_FAMILY}`;
+	ctx.textAlign = 'center';
+	ctx.textBaseline = 'middle';
+	ctx.fillText(label, position.x, position.y + radius * 0.05);
+	ctx.restore();
+}
+
+// Arrow between the edges of two consecutive step markers
+function drawStepConnector(ctx: CanvasRenderingContext2D, from: StepAnnotation, to: StepAnnotation) {
+	const dx = to.position.x - from.position.x;
+	const dy = to.position.y - from.position.y;
+	const distance = Math.hypot(dx, dy);
+	if (distance <= from.radius + to.radius) return;
+
+	const ux = dx / distance;
+	const uy = dy / distance;
+	const thickness = Math.max(2, to.radius / 6);
+	ctx.save();
+	ctx.lineWidth = thickness;
+	ctx.lineCap = 'round';
+	ctx.strokeStyle = to.color;
+	drawArrow(
+		ctx,
+		{ x: from.position.x + ux * from.radius, y: from.position.y + uy * from.radius },
+		{ x: to.position.x - ux * (to.radius + thickness), y: to.position.y - uy * (to.radius + thickness) },
+		thickness
+	);
+	ctx.restore();
+}
+
+/**
+ * 在背景层上打码：模糊、像素化或纯色遮挡。`source` 为完整截图，与标注坐标一致，
+ * 结果直接替换该区域的像素而不是叠加一层颜色
+ */
+export function drawRedaction(ctx: CanvasRenderingContext2D, annotation: RedactionAnnotation, source: CanvasImageSource) {
+	const b = getAnnotationBounds(annotation);
+	const x = Math.round(b.x);
+	const y = Math.round(b.y);
+	const width = Math.round(b.width);
+	const height = Math.round(b.height);
+	if (width < 1 || height < 1) return;
+
+	const strength = REDACTION_STRENGTH[annotation.strokeSize] || REDACTION_STRENGTH.medium;
+	ctx.save();
+	ctx.beginPath();
+	ctx.rect(x, y, width, height);
+	ctx.clip();
+
+	switch (annotation.style) {
+		case 'solid':
+			ctx.fillStyle = '#000000';
+			ctx.fillRect(x, y, width, height);
+			break;
+		case 'pixelate': {
+			// Downscale the region so each block becomes one pixel, then scale it back up without smoothing
+			const small = document.createElement('canvas');
+			small.width = Math.max(1, Math.ceil(width / strength.block));
+			small.height = Math.max(1, Math.ceil(height / strength.block));
+			const smallCtx = small.getContext('2d');
+			if (!smallCtx) break;
+			smallCtx.drawImage(source, x, y, width, height, 0, 0, small.width, small.height);
+			ctx.imageSmoothingEnabled = false;
+			ctx.drawImage(small, 0, 0, small.width, small.height, x, y, small.width * strength.block, small.height * strength.block);
+			break;
+		}
+		case 'blur': {
+			// Blur a copy with some margin so the edges are blurred as well, twice so text can't be read back
+			const margin = strength.blur * 2;
+			const blurred = document.createElement('canvas');
+			blurred.width = width + margin * 2;
+			blurred.height = height + margin * 2;
+			const blurredCtx = blurred.getContext('2d');
+			if (!blurredCtx) break;
+			blurredCtx.filter = `blur(${strength.blur}px)`;
+			blurredCtx.drawImage(source, x - margin, y - margin, blurred.width, blurred.height, 0, 0, blurred.width, blurred.height);
+			blurredCtx.drawImage(blurred, 0, 0);
+			// Cover the region first so no sharp pixels show through where the copy is transparent
+			ctx.fillStyle = '#808080';
+			ctx.fillRect(x, y, width, height);
+			ctx.drawImage(blurred, x - margin, y - margin);
+			break;
+		}
+	}
+	ctx.restore();
+}
+
+function drawText(ctx: CanvasRenderingContext2D, annotation: TextAnnotation) {
+	const { position, fontSize } = annotation;
+	const padding = getTextPadding(fontSize);
+
+	if (annotation.background) {
+		const size = measureTextAnnotation(annotation);
+		ctx.fillStyle = isLightColor(annotation.color) ? 'rgba(0, 0, 0, 0.75)' : 'rgba(255, 255, 255, 0.85)';
+		ctx.fillRect(position.x, position.y, size.width, size.height);
+	}
+
+	ctx.font = getTextFont(fontSize);
+	ctx.textBaseline = 'top';
+	ctx.fillStyle = annotation.color;
+	annotation.text.split('\n').forEach((line, i) => {
+		ctx.fillText(line, position.x + padding, position.y + padding + i * fontSize * TEXT_LINE_HEIGHT);
+	});
+}
+
+// Whether a #rrggbb colour is light enough to need a dark background box
+function isLightColor(color: string): boolean {
+	const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color);
+	if (!match) return false;
+	const [r, g, b] = match.slice(1).map(hex => parseInt(hex, 16));
+	return (0.299 * r + 0.587 * g + 0.114 * b) > 160;
+}
+
+function drawWavyLine(ctx: CanvasRenderingContext2D, start: Point, end: Point, thickness: number) {
+	// Calculate wave parameters
+	const distance = Math.hypot(end.x - start.x, end.y - start.y);
+	const amplitude = Math.max(3, thickness * 1.2);
+	const frequency = distance / 50;
+	const angle = Math.atan2(end.y - start.y, end.x - start.x) + Math.PI / 2;
+
+	ctx.beginPath();
+	ctx.moveTo(start.x, start.y);
+	for (let i = 0; i <= 100; i++) {
+		const t = i / 100;
+		const waveOffset = Math.sin(t * frequency * Math.PI * 2) * amplitude;
+		ctx.lineTo(
+			start.x + (end.x - start.x) * t + Math.cos(angle) * waveOffset,
+			start.y + (end.y - start.y) * t + Math.sin(angle) * waveOffset
+		);
+	}
+	ctx.stroke();
+}
+
+export function drawArrow(ctx: CanvasRenderingContext2D, start: Point, end: Point, thickness: number) {
+	const angle = Math.atan2(end.y - start.y, end.x - start.x);
+	const arrowLength = Math.max(15, thickness * 4);
+	const arrowAngle = Math.PI / 6; // 30 degrees
+
+	ctx.beginPath();
+	// Main line
+	ctx.moveTo(start.x, start.y);
+	ctx.lineTo(end.x, end.y);
+	// Arrow head
+	ctx.moveTo(end.x, end.y);
+	ctx.lineTo(end.x - arrowLength * Math.cos(angle - arrowAngle), end.y - arrowLength * Math.sin(angle - arrowAngle));
+	ctx.moveTo(end.x, end.y);
+	ctx.lineTo(end.x - arrowLength * Math.cos(angle + arrowAngle), end.y - arrowLength * Math.sin(angle + arrowAngle));
+	ctx.stroke();
+}
@@ -0,0 +1,70 @@
+import { findSnapEdge, fitCropToAspect, LuminanceMap, parseAspectRatio } from './crop-utils';
+
+// Dark image with a bright block from (left, top) to the bottom right corner
+function blockMap(width: number, height: number, left: number, top: number): LuminanceMap {
+	const data = new Uint8Array(width * height);
+	for (let y = top; y < height; y++) {
+		for (let x = left; x < width; x++) {
+			data[y * width + x] = 255;
+		}
+	}
+	return { width, height, data };
+}
+
+describe('parseAspectRatio', () => {
+	it('reads presets and custom ratios', () => {
+		expect(parseAspectRatio('free', '')).toBeNull();
+		expect(parseAspectRatio('16:9', '')).toBeCloseTo(16 / 9);
+		expect(parseAspectRatio('custom', ' 3 : 2 ')).toBe(1.5);
+		expect(parseAspectRatio('custom', '4/5')).toBe(0.8);
+		expect(parseAspectRatio('custom', '2.35')).toBe(2.35);
+	});
+
+	it('rejects custom ratios that are not positive numbers', () => {
+		['', 'abc', '3:0', '-1', '0'].forEach(custom => expect(parseAspectRatio('custom', custom)).toBeNull());
+	});
+});
+
+describe('fitCropToAspect', () => {
+	it('keeps the width and centre', () => {
+		expect(fitCropToAspect({ x: 100, y: 100, width: 200, height: 100 }, 1, { width: 1000, height: 1000 }))
+			.toEqual({ x: 100, y: 50, width: 200, height: 200 });
+	});
+
+	it('shrinks the crop when it would outgrow the image', () => {
+		expect(fitCropToAspect({ x: 100, y: 100, width: 400, height: 100 }, 1, { width: 1000, height: 300 }))
+			.toEqual({ x: 150, y: 0, width: 300, height: 300 });
+	});
+
+	it('never goes below the minimum crop size', () => {
+		const rect = fitCropToAspect({ x: 0, y: 0, width: 100, height: 100 }, 10, { width: 1000, height: 1000 });
+		expect(rect.width).toBe(100);
+		expect(rect.height).toBe(50);
+	});
+});
+
+describe('findSnapEdge', () => {
+	const map = blockMap(40, 30, 20, 10);
+
+	it('snaps to a nearby column boundary', () => {
+		expect(findSnapEdge(map, 'x', 17, 10, 30, 5)).toBe(20);
+	});
+
+	it('snaps to a nearby row boundary', () => {
+		expect(findSnapEdge(map, 'y', 12, 20, 40, 5)).toBe(10);
+	});
+
+	it('ignores edges further away than the snap distance', () => {
+		expect(findSnapEdge(map, 'x', 10, 10, 30, 5)).toBeNull();
+	});
+
+	it('ignores edges that cross too little of the crop edge', () => {
+		// Rows 10-30 of a 30 row crop edge are enough, rows 25-30 are not
+		expect(findSnapEdge(map, 'x', 18, 0, 30, 5)).toBe(20);
+		expect(findSnapEdge(blockMap(40, 30, 20, 25), 'x', 18, 0, 30, 5)).toBeNull();
+	});
+
+	it('finds nothing on a flat image', () => {
+		expect(findSnapEdge(blockMap(40, 30, 40, 30), 'x', 20, 0, 30, 10)).toBeNull();
+	});
+});
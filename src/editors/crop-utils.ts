@@ -0,0 +1,119 @@
+import { Region } from '../types';
+
+/**
+ * 裁剪框的比例锁定与边缘吸附
+ * 吸附基于背景截图的亮度图，坐标均为完整截图的像素坐标
+ */
+
+export type CropAspectPreset = 'free' | '1:1' | '4:3' | '16:9' | 'custom';
+
+export const CROP_ASPECT_PRESETS: CropAspectPreset[] = ['free', '1:1', '4:3', '16:9', 'custom'];
+
+export const MIN_CROP_SIZE = 50;
+
+// Luminance difference between neighbouring pixels that counts as an edge
+const EDGE_CONTRAST = 24;
+// Share of the crop edge's span that must cross a content edge before it snaps
+const EDGE_COVERAGE = 0.3;
+
+// Greyscale copy of the background, row-major
+export interface LuminanceMap {
+	width: number;
+	height: number;
+	data: Uint8Array;
+}
+
+/**
+ * Width / height for a preset, or null when the crop is free. Custom ratios are written as
+ * "W:H" (e.g. "3:2") or a plain number.
+ */
+export function parseAspectRatio(preset: CropAspectPreset, custom: string): number | null {
+	if (preset === 'free') return null;
+	const value = preset === 'custom' ? custom : preset;
+	const parts = value.split(/[:/x]/).map(part => parseFloat(part.trim()));
+	const ratio = parts.length === 2 ? parts[0] / parts[1] : parts[0];
+	return isFinite(ratio) && ratio > 0 ? ratio : null;
+}
+
+/**
+ * Reshape a crop to the ratio around its centre, shrinking it when it would outgrow `bounds`
+ */
+export function fitCropToAspect(rect: Region, ratio: number, bounds: { width: number; height: number }): Region {
+	let width = rect.width;
+	let height = width / ratio;
+	if (height > bounds.height) {
+		height = bounds.height;
+		width = height * ratio;
+	}
+	if (width > bounds.width) {
+		width = bounds.width;
+		height = width / ratio;
+	}
+	width = Math.max(MIN_CROP_SIZE, Math.round(width));
+	height = Math.max(MIN_CROP_SIZE, Math.round(height));
+	return {
+		x: Math.round(rect.x + (rect.width - width) / 2),
+		y: Math.round(rect.y + (rect.height - height) / 2),
+		width,
+		height
+	};
+}
+
+export function buildLuminanceMap(image: CanvasImageSource, width: number, height: number): LuminanceMap | null {
+	const canvas = document.createElement('canvas');
+	canvas.width = width;
+	canvas.height = height;
+	const ctx = canvas.getContext('2d');
+	if (!ctx || width === 0 || height === 0) return null;
+
+	ctx.drawImage(image, 0, 0);
+	const pixels = ctx.getImageData(0, 0, width, height).data;
+	const data = new Uint8Array(width * height);
+	for (let i = 0; i < data.length; i++) {
+		const p = i * 4;
+		data[i] = (pixels[p] * 299 + pixels[p + 1] * 587 + pixels[p + 2] * 114) / 1000;
+	}
+	return { width, height, data };
+}
+
+/**
+ * The content edge closest to `position` within `distance` pixels, or null when none is strong enough.
+ * A vertical edge (axis 'x') is a column boundary where neighbouring pixels differ along most of
+ * [spanStart, spanEnd); axis 'y' looks for row boundaries the same way.
+ */
+export function findSnapEdge(
+	map: LuminanceMap,
+	axis: 'x' | 'y',
+	position: number,
+	spanStart: number,
+	spanEnd: number,
+	distance: number
+): number | null {
+	const limit = axis === 'x' ? map.width : map.height;
+	const spanLimit = axis === 'x' ? map.height : map.width;
+	const from = Math.max(1, Math.floor(position - distance));
+	const to = Math.min(limit - 1, Math.ceil(position + distance));
+	const start = Math.max(0, Math.floor(spanStart));
+	const end = Math.min(spanLimit, Math.ceil(spanEnd));
+	if (end - start < 1) return null;
+
+	let best: number | null = null;
+	let bestScore = EDGE_COVERAGE;
+	for (let edge = from; edge <= to; edge++) {
+		let crossings = 0;
+		for (let along = start; along < end; along++) {
+			const current = axis === 'x' ? along * map.width + edge : edge * map.width + along;
+			const previous = axis === 'x' ? current - 1 : current - map.width;
+			if (Math.abs(map.data[current] - map.data[previous]) > EDGE_CONTRAST) {
+				crossings++;
+			}
+		}
+		// Prefer the stronger edge, then the closer one
+		const score = crossings / (end - start);
+		if (score > bestScore || (score === bestScore && best !== null && Math.abs(edge - position) < Math.abs(best - position))) {
+			best = edge;
+			bestScore = score;
+		}
+	}
+	return best;
+}
@@ -0,0 +1,100 @@
+import { arrayBufferToBase64, TAbstractFile, TFile, Vault } from 'obsidian';
+import { EditSidecar } from '../types';
+import { getLogger } from '../utils/logger';
+
+/**
+ * 截图编辑的旁路文件：保存裁剪区域和标注，用于重新编辑已保存的图片
+ * 文件名为 `<图片路径>.captureai.json`，与图片放在同一目录；
+ * 原图（导出区域加少量边距的 PNG）单独保存为 `<图片路径>.captureai.original`，由 JSON 按文件名引用
+ */
+
+export const EDIT_SIDECAR_VERSION = 1;
+const SIDECAR_SUFFIX = '.captureai.json';
+// PNG data, the extension keeps Obsidian from listing it as an attachment
+const ORIGINAL_SUFFIX = '.captureai.original';
+
+export function getSidecarPath(imagePath: string): string {
+	return imagePath + SIDECAR_SUFFIX;
+}
+
+export function getOriginalPath(imagePath: string): string {
+	return imagePath + ORIGINAL_SUFFIX;
+}
+
+// Path of a file in the same folder as `path`
+function getSiblingPath(path: string, fileName: string): string {
+	const slash = path.lastIndexOf('/');
+	return slash < 0 ? fileName : `${path.slice(0, slash)}/${fileName}`;
+}
+
+function getFileName(path: string): string {
+	return path.slice(path.lastIndexOf('/') + 1);
+}
+
+// Synchronous check for menus, relies on the vault index which includes unknown file types
+export function hasEditSidecar(vault: Vault, file: TAbstractFile): boolean {
+	return file instanceof TFile && vault.getAbstractFileByPath(getSidecarPath(file.path)) instanceof TFile;
+}
+
+export async function readEditSidecar(vault: Vault, imagePath: string): Promise<EditSidecar | null> {
+	const sidecarPath = getSidecarPath(imagePath);
+	try {
+		if (!await vault.adapter.exists(sidecarPath)) return null;
+		const sidecar = JSON.parse(await vault.adapter.read(sidecarPath));
+		if (!sidecar || typeof sidecar.originalFile !== 'string' || !Array.isArray(sidecar.annotations)) {
+			getLogger().warn('Ignoring malformed edit sidecar:', sidecarPath);
+			return null;
+		}
+		return sidecar as EditSidecar;
+	} catch (error) {
+		getLogger().error('Failed to read edit sidecar:', error);
+		return null;
+	}
+}
+
+// The original is loaded separately so the sidecar JSON stays small
+export async function readEditOriginal(vault: Vault, imagePath: string, sidecar: EditSidecar): Promise<string | null> {
+	const originalPath = getSiblingPath(imagePath, sidecar.originalFile);
+	if (!await vault.adapter.exists(originalPath)) {
+		getLogger().warn('Edit sidecar original is missing:', originalPath);
+		return null;
+	}
+	return `data:image/png;base64,${arrayBufferToBase64(await vault.adapter.readBinary(originalPath))}`;
+}
+
+export async function writeEditSidecar(vault: Vault, imagePath: string, sidecar: Omit<EditSidecar, 'originalFile'>, original: ArrayBuffer): Promise<void> {
+	const originalPath = getOriginalPath(imagePath);
+	await vault.adapter.writeBinary(originalPath, original);
+	const data: EditSidecar = { ...sidecar, originalFile: getFileName(originalPath) };
+	await vault.adapter.write(getSidecarPath(imagePath), JSON.stringify(data));
+}
+
+// Keep the sidecar and its original next to the image when the image is renamed or moved
+export async function moveEditSidecar(vault: Vault, oldImagePath: string, newImagePath: string): Promise<void> {
+	const oldPath = getSidecarPath(oldImagePath);
+	const newPath = getSidecarPath(newImagePath);
+	if (oldPath === newPath || !await vault.adapter.exists(oldPath)) return;
+
+	const sidecar = await readEditSidecar(vault, oldImagePath);
+	const oldOriginalPath = sidecar ? getSiblingPath(oldImagePath, sidecar.originalFile) : getOriginalPath(oldImagePath);
+	const newOriginalPath = getOriginalPath(newImagePath);
+	if (await vault.adapter.exists(oldOriginalPath)) {
+		await vault.adapter.rename(oldOriginalPath, newOriginalPath);
+	}
+	if (sidecar) {
+		await vault.adapter.write(newPath, JSON.stringify({ ...sidecar, originalFile: getFileName(newOriginalPath) }));
+		await vault.adapter.remove(oldPath);
+	} else {
+		await vault.adapter.rename(oldPath, newPath);
+	}
+}
+
+export async function deleteEditSidecar(vault: Vault, imagePath: string): Promise<void> {
+	const sidecar = await readEditSidecar(vault, imagePath);
+	const originalPath = sidecar ? getSiblingPath(imagePath, sidecar.originalFile) : getOriginalPath(imagePath);
+	for (const path of [getSidecarPath(imagePath), originalPath]) {
+		if (await vault.adapter.exists(path)) {
+			await vault.adapter.remove(path);
+		}
+	}
+}
@@ -1,9 +1,97 @@
-import { Modal, Notice, setIcon, requestUrl } from 'obsidian';
+import { arrayBufferToBase64, base64ToArrayBuffer, Editor, Modal, Notice, setIcon, requestUrl, TFile } from 'obsidian';
 import ImageCapturePlugin from '../main';
-import { EditTool, Region, StrokeSize, StrokeSetting, LLM_PROVIDERS } from '../types';
+import { Annotation, EditSidecar, EditTool, ImageFormat, OutputScale, PaletteTarget, SpotlightShape, Point, RedactionStyle, Region, ShapeType, StrokeSize, StrokeSetting, TextAnnotation, LLM_PROVIDERS } from '../types';
 import { t } from '../i18n';
 import { getLogger } from '../utils/logger';
 import { formatTimestampForFilename } from '../utils/time';
+import { isProviderReady } from '../ai/providers';
+import {
+	AnnotationOperation,
+	applyAnnotationOperation,
+	cloneAnnotation,
+	drawAnnotation,
+	drawAnnotations,
+	drawMagnifier,
+	drawRedaction,
+	findAnnotationAt,
+	generateAnnotationId,
+	getAnnotationBounds,
+	getMagnifierSource,
+	getStepNumbers,
+	getTextFont,
+	getTextPadding,
+	isMagnifierAnnotation,
+	isPathAnnotation,
+	isRedactionAnnotation,
+	isSpotlightAnnotation,
+	drawSpotlights,
+	isStepAnnotation,
+	isTextAnnotation,
+	mapAnnotationPoints,
+	measureTextAnnotation,
+	revertAnnotationOperation,
+	STEP_RADII,
+	TEXT_FONT_SIZES
+} from './annotations';
+import { EDIT_SIDECAR_VERSION, readEditOriginal, readEditSidecar, writeEditSidecar } from './edit-sidecar';
+import { getImageMimeType, ImageEmbed, replaceEmbedTarget } from '../utils/image-embeds';
+import {
+	encodeImage,
+	fitToMaxDimension,
+	getSupportedImageFormats,
+	imageFormatFromExtension,
+	isLossyImageFormat,
+	resolveSaveFormat,
+	withImageExtension
+} from '../utils/image-format';
+import {
+	buildLuminanceMap,
+	CROP_ASPECT_PRESETS,
+	CropAspectPreset,
+	findSnapEdge,
+	fitCropToAspect,
+	LuminanceMap,
+	MIN_CROP_SIZE,
+	parseAspectRatio
+} from './crop-utils';
+
+import {
+	DEFAULT_OUTPUT_SCALE,
+	getOutputSize,
+	getTransformedSize,
+	ImageTransform,
+	invertImageTransform,
+	scaleCanvas,
+	transformAnnotation,
+	transformImage,
+	transformRegion
+} from './image-transform';
+
+// How close (in screen pixels) a dragged crop edge must come to a content edge to snap
+const CROP_SNAP_DISTANCE = 8;
+
+// Recent colours kept per palette target
+const MAX_RECENT_COLORS = 8;
+
+// Output scale choices, 'max-width' reads the width from its own input
+const OUTPUT_SCALE_PERCENTS = [100, 75, 50, 25];
+
+// Annotation changes plus whole-image changes, all undoable
+type EditorOperation =
+	| AnnotationOperation
+	| { kind: 'transform'; transform: ImageTransform }
+	| { kind: 'output-scale'; before: OutputScale; after: OutputScale };
+
+// An existing vault image opened for annotation, with the note embed it was opened from
+export interface VaultImageSource {
+	file: TFile;
+	embed?: {
+		editor: Editor;
+		line: number;
+		embed: ImageEmbed;
+		notePath: string;
+	};
+}
 
 // ClipboardItem type declaration for browsers that support it
 declare global {
@@ -16,10 +104,31 @@ interface ClipboardItem {
 	new (data: Record<string, Blob>): ClipboardItem;
 }
 
-// Simple interface for history state
-interface HistoryState {
-	edit: ImageData;
-	highlighter: ImageData;
+// Tools that draw a two-point shape annotation
+const SHAPE_TOOLS: ShapeType[] = ['line', 'wavy-line', 'dashed-line', 'dotted-line', 'rectangle', 'ellipse', 'arrow'];
+const REDACTION_TOOLS: Record<string, RedactionStyle> = {
+	'redact-blur': 'blur',
+	'redact-pixelate': 'pixelate',
+	'redact-box': 'solid'
+};
+const SPOTLIGHT_TOOLS: Record<string, SpotlightShape> = {
+	'spotlight': 'rectangle',
+	'spotlight-ellipse': 'ellipse'
+};
+// Default zoom of a new magnifier and its distance from the magnified area
+const MAGNIFIER_ZOOM = 2;
+const MAGNIFIER_GAP = 24;
+
+// Corner handles of the selected annotation's bounding box
+type SelectionHandle = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+// In-progress move or resize of the selected annotation
+interface AnnotationDrag {
+	mode: 'move' | 'resize';
+	handle: SelectionHandle | null;
+	start: Point;
+	original: Annotation;
+	anchor: Point; // Fixed corner while resizing
 }
 
 
@@ -31,6 +140,7 @@ export class ImageEditor extends Modal {
 	private originalFullScreenshot: string = ''; // Complete original screenshot
 	private canvas: HTMLCanvasElement | null = null;
 	private ctx: CanvasRenderingContext2D | null = null;
+	private canvasContainer: HTMLElement | null = null;
 	private currentTool: string = 'pen';
 	private currentColor: string = '#2563eb'; // 蓝色
 	private currentStrokeSize: StrokeSize = 'medium';
@@ -40,8 +150,34 @@ export class ImageEditor extends Modal {
 	private isDrawing = false;
 	private lastX = 0;
 	private lastY = 0;
-	private history: (ImageData | HistoryState)[] = []; // Support both old and new format
-	private historyIndex = -1;
+	// Edit layer content as objects, history records operations on this list
+	private annotations: Annotation[] = [];
+	private draftAnnotation: Annotation | null = null; // Annotation being drawn, committed on mouse up
+	private selectedAnnotationId: string | null = null;
+	private annotationDrag: AnnotationDrag | null = null;
+	private history: EditorOperation[] = [];
+	private historyIndex = -1; // Index of the last applied operation
+	private textBackground = false; // Background box for new text annotations
+	private eyedropperActive = false; // Next canvas click picks a colour from the background
+	private activePaletteIds: Record<PaletteTarget, string> = { pen: '', highlighter: '' };
+	private stepConnectors = false; // Connect new step markers to the previous one with an arrow
+	private spotlightOpacity = 0.6; // Darkness outside new spotlights
+	private magnifierConnectors = true; // Connect new magnifiers to the magnified area
+	// Background with redactions applied, magnifiers sample it so redacted pixels stay hidden
+	private redactedBackground: { key: string; canvas: HTMLCanvasElement } | null = null;
+	private fileNameTimestamp = '';
+	private fileNameEdited = false; // The default name follows the step markers until the user types a name
+	// Vault image reopened from its sidecar, saving overwrites it
+	private editTarget: TFile | null = null;
+	// Vault image being annotated, saved as a copy or over the original
+	private vaultSource: VaultImageSource | null = null;
+	// Format and quality for this save, start from the settings
+	private saveFormat: ImageFormat = 'png';
+	private saveQuality = 90;
+	// Set while the editor is open for the pre-send privacy review, receives the result or null
+	private reviewResolver: ((dataUrl: string | null) => void) | null = null;
+	// Inline text input, the annotation being edited is hidden from the canvas meanwhile
+	private textEditor: { input: HTMLTextAreaElement; annotation: TextAnnotation; isNew: boolean } | null = null;
 	private originalImageData: string = '';
 	
 	// UI elements
@@ -63,6 +199,12 @@ export class ImageEditor extends Modal {
 	private toolbarElements = new WeakMap<HTMLElement, {
 		colorPicker?: HTMLInputElement;
 		strokeSizeContainer?: HTMLElement;
+		textBackgroundButton?: HTMLButtonElement;
+		stepConnectorButton?: HTMLButtonElement;
+		magnifierConnectorButton?: HTMLButtonElement;
+		eyedropperButton?: HTMLButtonElement;
+		swatchContainer?: HTMLElement;
+		spotlightOpacityInput?: HTMLInputElement;
 		zoomSlider?: HTMLInputElement;
 		zoomDisplay?: HTMLElement;
 	}>();
@@ -100,9 +242,20 @@ export class ImageEditor extends Modal {
 	private cropResizeStart = { x: 0, y: 0 };
 	private originalCropRect = { x: 0, y: 0, width: 0, height: 0 };
 	
+	// Crop aspect lock, numeric panel and edge snapping
+	private cropAspect: CropAspectPreset = 'free';
+	private cropCustomAspect = '3:2';
+	private cropSnap = true;
+	private cropInputs: Record<'x' | 'y' | 'width' | 'height', HTMLInputElement> | null = null;
+	private luminanceMap: LuminanceMap | null = null;
+	
 	// Full screenshot dimensions and image
 	private fullScreenshotSize = { width: 0, height: 0 };
-	private fullScreenshotImage: HTMLImageElement | null = null;
+	private fullScreenshotImage: HTMLImageElement | HTMLCanvasElement | null = null;
+	
+	// Exported size, kept across captures like the crop ratio
+	private outputScale: OutputScale = { ...DEFAULT_OUTPUT_SCALE };
+	private outputScaleControls: { select: HTMLSelectElement; widthInput: HTMLInputElement; sizeLabel: HTMLElement } | null = null;
 	
 	// Display scaling factor - ratio between canvas logical coordinates and display coordinates
 	private displayScale = 1; // How much the canvas is scaled down for display
@@ -117,17 +270,11 @@ export class ImageEditor extends Modal {
 	private viewportDragStart = { x: 0, y: 0 };
 	private viewportStartOffset = { x: 0, y: 0 };
 	
-	// Edit layer - stores all drawing operations in full screenshot coordinates
-	private editLayerCanvas: HTMLCanvasElement | null = null;
-	private editLayerCtx: CanvasRenderingContext2D | null = null;
-	// Backup for temporary preview operations
-	private editLayerBackup: ImageData | null = null;
+	// Layer 3 (edit layer) is drawn straight from `annotations` in full screenshot coordinates
 	
-	// Layer 3.5: Highlighter layer - stores highlighter strokes with transparency
+	// Layer 3.5: Highlighter layer - highlighter strokes rasterized here, then composited with transparency
 	private highlighterLayerCanvas: HTMLCanvasElement | null = null;
 	private highlighterLayerCtx: CanvasRenderingContext2D | null = null;
-	// Backup for highlighter layer
-	private highlighterLayerBackup: ImageData | null = null;
 	
 	private strokeSettings: Record<StrokeSize, number> = {
 		small: 1,
@@ -145,6 +292,17 @@ export class ImageEditor extends Modal {
 		super(plugin.app);
 		this.plugin = plugin;
 		this.modalEl.addClass('image-editor-modal');
+		
+		// Delete / Backspace removes the selected annotation
+		const deleteSelection = () => {
+			const active = document.activeElement;
+			if (active instanceof HTMLInputElement || active instanceof HTMLTextAreaElement) return;
+			if (!this.getSelectedAnnotation()) return;
+			this.deleteSelectedAnnotation();
+			return false;
+		};
+		this.scope.register([], 'Delete', deleteSelection);
+		this.scope.register([], 'Backspace', deleteSelection);
 	}
 
 	showEditor(imageUrl: string, region: Region, extendedRegion?: Region, originalFullScreenshot?: string) {
@@ -153,6 +311,19 @@ export class ImageEditor extends Modal {
 		this.region = region;
 		this.extendedRegion = extendedRegion || null;
 		
+		// Every capture starts with an empty edit layer and history
+		this.annotations = [];
+		this.draftAnnotation = null;
+		this.selectedAnnotationId = null;
+		this.annotationDrag = null;
+		this.history = [];
+		this.historyIndex = -1;
+		this.textEditor = null;
+		this.fileNameEdited = false;
+		this.eyedropperActive = false;
+		this.saveFormat = resolveSaveFormat(this.plugin.settings.imageFormat);
+		this.saveQuality = this.plugin.settings.imageQuality;
+		
 		// Reset zoom and viewport for each new screenshot
 		// Set initial user zoom to the calculated scale factor
 		this.userZoom = 1; // Will be updated after scale calculation
@@ -316,6 +487,16 @@ export class ImageEditor extends Modal {
 
 	onClose() {
 		const { contentEl } = this;
+		// Closing the privacy review without confirming cancels the send
+		this.resolveReview(null);
+		this.editTarget = null;
+		this.vaultSource = null;
+		this.cropInputs = null;
+		this.luminanceMap = null;
+		this.redactedBackground = null;
+		this.outputScaleControls = null;
+		// The input goes away with the content, drop it without committing
+		this.textEditor = null;
 		contentEl.empty();
 		contentEl.removeClass('image-editor-container');
 		contentEl.removeClass('image-editor-content-fullsize');
@@ -362,6 +543,7 @@ export class ImageEditor extends Modal {
 		canvasContainer.toggleClass('flex-no-shrink', true); // Don't shrink
 		// Add overflow control to prevent canvas from overflowing to other UI areas
 		canvasContainer.toggleClass('overflow-hidden', true);
+		this.canvasContainer = canvasContainer;
 		
 		this.canvas = canvasContainer.createEl('canvas', { cls: 'image-editor-canvas' });
 		
@@ -381,6 +563,7 @@ export class ImageEditor extends Modal {
 		
 		// Drawing tools
 		const tools: EditTool[] = [
+			{ name: 'select', icon: 'mouse-pointer-2', cursor: 'default' },
 			{ name: 'pen', icon: 'pen', cursor: 'crosshair' },
 			{ name: 'highlighter', icon: 'highlighter', cursor: 'crosshair' },
 			{ name: 'line', icon: 'minus', cursor: 'crosshair' },
@@ -390,12 +573,21 @@ export class ImageEditor extends Modal {
 			{ name: 'rectangle', icon: 'square', cursor: 'crosshair' },
 			{ name: 'ellipse', icon: 'circle', cursor: 'crosshair' },
 			{ name: 'arrow', icon: 'move-up-right', cursor: 'crosshair' },
+			{ name: 'text', icon: 'type', cursor: 'crosshair' },
+			{ name: 'step', icon: 'list-ordered', cursor: 'crosshair' },
+			{ name: 'redact-blur', icon: 'eye-off', cursor: 'crosshair' },
+			{ name: 'redact-pixelate', icon: 'grid', cursor: 'crosshair' },
+			{ name: 'redact-box', icon: 'rectangle-horizontal', cursor: 'crosshair' },
+			{ name: 'spotlight', icon: 'scan', cursor: 'crosshair' },
+			{ name: 'spotlight-ellipse', icon: 'circle-dashed', cursor: 'crosshair' },
+			{ name: 'magnifier', icon: 'scan-search', cursor: 'crosshair' },
 			{ name: 'hand', icon: 'move', cursor: 'crosshair' },
 			{ name: 'viewport-pan', icon: 'navigation', cursor: 'grab' }
 		];
 		
 		// Tool names for tooltips
 		const toolNames: Record<string, string> = {
+			'select': t('imageEditor.selectTool'),
 			'pen': t('imageEditor.penTool'),
 			'highlighter': t('imageEditor.highlighterTool'),
 			'line': t('imageEditor.lineTool'),
@@ -405,6 +597,14 @@ export class ImageEditor extends Modal {
 			'rectangle': t('imageEditor.rectangleTool'),
 			'ellipse': t('imageEditor.circleTool'),
 			'arrow': t('imageEditor.arrowTool'),
+			'text': t('imageEditor.textTool'),
+			'step': t('imageEditor.stepTool'),
+			'redact-blur': t('imageEditor.blurTool'),
+			'redact-pixelate': t('imageEditor.pixelateTool'),
+			'redact-box': t('imageEditor.blackBoxTool'),
+			'spotlight': t('imageEditor.spotlightTool'),
+			'spotlight-ellipse': t('imageEditor.spotlightEllipseTool'),
+			'magnifier': t('imageEditor.magnifierTool'),
 			'hand': t('imageEditor.handTool'),
 			'viewport-pan': t('imageEditor.viewportPanTool')
 		};
@@ -421,6 +621,12 @@ export class ImageEditor extends Modal {
 			button.addEventListener('click', () => {
 					this.currentTool = tool.name;
 					
+					// Selection only lives while the select tool is active
+					if (tool.name !== 'select' && this.selectedAnnotationId) {
+						this.selectedAnnotationId = null;
+						this.renderAllLayers();
+					}
+					
 					// Switch between normal and highlighter mode
 					if (tool.name === 'highlighter') {
 						this.isHighlighterMode = true;
@@ -478,18 +684,21 @@ export class ImageEditor extends Modal {
 		});
 		
 		colorPicker.addEventListener('change', (e) => {
-			const newColor = (e.target as HTMLInputElement).value;
-			if (this.isHighlighterMode) {
-				this.highlighterColor = newColor;
-			} else {
-				this.currentColor = newColor;
-			}
-			// Update stroke size button colors when selection is finalized
-			this.updateStrokeSizeButtonColors(toolbar);
+			this.applyColor((e.target as HTMLInputElement).value, toolbar);
 		});
 		
+		// Eyedropper picks a colour from the background with the next click
+		const eyedropperButton = toolbar.createEl('button', { cls: 'btn-base btn-icon non-tool image-editor-eyedropper-button' });
+		setIcon(eyedropperButton, 'pipette');
+		eyedropperButton.setAttribute('data-tooltip', t('imageEditor.eyedropperTooltip'));
+		eyedropperButton.addEventListener('click', () => this.setEyedropperActive(!this.eyedropperActive));
+		
+		// Palette and recent colours for the current mode
+		const swatchContainer = toolbar.createDiv({ cls: 'image-editor-swatches' });
+		
 		// Store reference for updating when switching modes
-		this.toolbarElements.set(toolbar, { colorPicker });
+		this.toolbarElements.set(toolbar, { colorPicker, eyedropperButton, swatchContainer });
+		this.renderSwatches(toolbar);
 		
 		// Stroke size buttons with colored circles
 		const strokeSizeContainer = toolbar.createDiv({ cls: 'stroke-size-container image-editor-stroke-size-container' });
@@ -527,6 +736,21 @@ export class ImageEditor extends Modal {
 			}
 			
 			button.addEventListener('click', () => {
+				// Change the selected annotation's line width instead of the drawing size
+				const selected = this.getSelectedAnnotation();
+				if (selected && isTextAnnotation(selected)) {
+					this.updateSelectedAnnotation(annotation => ({ ...annotation, strokeSize: size, fontSize: TEXT_FONT_SIZES[size] }));
+					return;
+				}
+				if (selected && isStepAnnotation(selected)) {
+					this.updateSelectedAnnotation(annotation => ({ ...annotation, strokeSize: size, radius: STEP_RADII[size] }));
+					return;
+				}
+				if (selected) {
+					const widths = selected.type === 'highlighter' ? this.highlighterStrokeSettings : this.strokeSettings;
+					this.updateSelectedAnnotation(annotation => ({ ...annotation, strokeSize: size, thickness: widths[size] }));
+					return;
+				}
 				if (this.isHighlighterMode) {
 					this.highlighterStrokeSize = size;
 				} else {
@@ -537,9 +761,78 @@ export class ImageEditor extends Modal {
 			});
 		});
 		
+		// Background box toggle for text annotations
+		const textBackgroundButton = toolbar.createEl('button', { cls: 'btn-base btn-icon non-tool image-editor-text-background-button' });
+		setIcon(textBackgroundButton, 'square-dashed');
+		textBackgroundButton.setAttribute('data-tooltip', t('imageEditor.textBackgroundTooltip'));
+		textBackgroundButton.toggleClass('active', this.textBackground);
+		textBackgroundButton.addEventListener('click', () => {
+			const selected = this.getSelectedAnnotation();
+			if (selected && isTextAnnotation(selected)) {
+				this.updateSelectedAnnotation(annotation => ({ ...annotation, background: !selected.background }));
+				textBackgroundButton.toggleClass('active', !selected.background);
+				return;
+			}
+			this.textBackground = !this.textBackground;
+			textBackgroundButton.toggleClass('active', this.textBackground);
+		});
+		
+		// Connector toggle for step markers
+		const stepConnectorButton = toolbar.createEl('button', { cls: 'btn-base btn-icon non-tool image-editor-step-connector-button' });
+		setIcon(stepConnectorButton, 'git-commit');
+		stepConnectorButton.setAttribute('data-tooltip', t('imageEditor.stepConnectorTooltip'));
+		stepConnectorButton.toggleClass('active', this.stepConnectors);
+		stepConnectorButton.addEventListener('click', () => {
+			const selected = this.getSelectedAnnotation();
+			if (selected && isStepAnnotation(selected)) {
+				this.updateSelectedAnnotation(annotation => ({ ...annotation, connector: !selected.connector }));
+				stepConnectorButton.toggleClass('active', !selected.connector);
+				return;
+			}
+			this.stepConnectors = !this.stepConnectors;
+			stepConnectorButton.toggleClass('active', this.stepConnectors);
+		});
+		
+		// Connector toggle for magnifiers
+		const magnifierConnectorButton = toolbar.createEl('button', { cls: 'btn-base btn-icon non-tool image-editor-magnifier-connector-button' });
+		setIcon(magnifierConnectorButton, 'spline');
+		magnifierConnectorButton.setAttribute('data-tooltip', t('imageEditor.magnifierConnectorTooltip'));
+		magnifierConnectorButton.toggleClass('active', this.magnifierConnectors);
+		magnifierConnectorButton.addEventListener('click', () => {
+			const selected = this.getSelectedAnnotation();
+			if (selected && isMagnifierAnnotation(selected)) {
+				this.updateSelectedAnnotation(annotation => ({ ...annotation, connector: !selected.connector }));
+				magnifierConnectorButton.toggleClass('active', !selected.connector);
+				return;
+			}
+			this.magnifierConnectors = !this.magnifierConnectors;
+			magnifierConnectorButton.toggleClass('active', this.magnifierConnectors);
+		});
+		
+		// Dimming of spotlights, applies to the selected spotlight or new ones
+		const spotlightOpacityInput = toolbar.createEl('input', { type: 'range', cls: 'non-tool image-editor-spotlight-opacity' });
+		spotlightOpacityInput.min = '0.2';
+		spotlightOpacityInput.max = '0.9';
+		spotlightOpacityInput.step = '0.05';
+		spotlightOpacityInput.value = String(this.spotlightOpacity);
+		spotlightOpacityInput.title = t('imageEditor.spotlightOpacityTooltip');
+		spotlightOpacityInput.addEventListener('change', () => {
+			const opacity = parseFloat(spotlightOpacityInput.value);
+			const selected = this.getSelectedAnnotation();
+			if (selected && isSpotlightAnnotation(selected)) {
+				this.updateSelectedAnnotation(annotation => ({ ...annotation, opacity }));
+				return;
+			}
+			this.spotlightOpacity = opacity;
+		});
+		
 		// Store reference to update colors when color changes
 		const toolbarData = this.toolbarElements.get(toolbar) || {};
 		toolbarData.strokeSizeContainer = strokeSizeContainer;
+		toolbarData.textBackgroundButton = textBackgroundButton;
+		toolbarData.stepConnectorButton = stepConnectorButton;
+		toolbarData.magnifierConnectorButton = magnifierConnectorButton;
+		toolbarData.spotlightOpacityInput = spotlightOpacityInput;
 		this.toolbarElements.set(toolbar, toolbarData);
 		
 		// Separator before zoom controls
@@ -552,6 +845,13 @@ export class ImageEditor extends Modal {
 		const separator1_5 = toolbar.createEl('div', { cls: 'image-editor-separator' });
 		
 		// Note: Crop frame is automatically shown for extended regions
+		if (this.cropModeActive) {
+			this.createCropControls(toolbar);
+			toolbar.createEl('div', { cls: 'image-editor-separator' });
+		}
+		
+		this.createTransformControls(toolbar);
+		toolbar.createEl('div', { cls: 'image-editor-separator' });
 		
 		// History buttons
 		const undoButton = toolbar.createEl('button', { cls: 'btn-base btn-icon non-tool image-editor-history-button' });
@@ -574,6 +874,119 @@ export class ImageEditor extends Modal {
 
 
 
+	private getPaletteTarget(): PaletteTarget {
+		return this.isHighlighterMode ? 'highlighter' : 'pen';
+	}
+	
+	/**
+	 * 调色板色块与最近使用的颜色，画笔与荧光笔各自一套
+	 */
+	private renderSwatches(toolbar: HTMLElement) {
+		const container = this.toolbarElements.get(toolbar)?.swatchContainer;
+		if (!container) return;
+		container.empty();
+		
+		const target = this.getPaletteTarget();
+		const { palettes, recent } = this.plugin.settings.annotationColors;
+		const targetPalettes = palettes[target];
+		const palette = targetPalettes.find(p => p.id === this.activePaletteIds[target]) || targetPalettes[0];
+		
+		if (targetPalettes.length > 1) {
+			const paletteSelect = container.createEl('select', { cls: 'dropdown image-editor-palette-select' });
+			paletteSelect.setAttribute('aria-label', t('imageEditor.paletteTooltip'));
+			targetPalettes.forEach(p => paletteSelect.createEl('option', { value: p.id, text: p.name || t('imageEditor.untitledPalette') }));
+			paletteSelect.value = palette.id;
+			paletteSelect.addEventListener('change', () => {
+				this.activePaletteIds[target] = paletteSelect.value;
+				this.renderSwatches(toolbar);
+			});
+		}
+		
+		const createSwatch = (color: string) => {
+			const swatch = container.createEl('button', { cls: 'non-tool image-editor-swatch' });
+			swatch.style.setProperty('--swatch-color', color);
+			swatch.setAttribute('aria-label', color);
+			swatch.title = color;
+			swatch.toggleClass('active', color.toLowerCase() === this.getCurrentColor().toLowerCase());
+			swatch.addEventListener('click', () => this.applyColor(color, toolbar));
+		};
+		
+		palette?.colors.forEach(createSwatch);
+		
+		if (recent[target].length > 0) {
+			container.createDiv({ cls: 'image-editor-swatch-divider', attr: { title: t('imageEditor.recentColors') } });
+			recent[target].forEach(createSwatch);
+		}
+	}
+	
+	// Use a colour picked from the palette, the eyedropper or the colour input
+	private applyColor(color: string, toolbar: HTMLElement) {
+		this.rememberRecentColor(color);
+		
+		// Recolour the selected annotation instead of changing the drawing colour
+		if (this.getSelectedAnnotation()) {
+			this.updateSelectedAnnotation(annotation => ({ ...annotation, color }));
+			this.renderSwatches(toolbar);
+			return;
+		}
+		if (this.isHighlighterMode) {
+			this.highlighterColor = color;
+		} else {
+			this.currentColor = color;
+		}
+		
+		const colorPicker = this.toolbarElements.get(toolbar)?.colorPicker;
+		if (colorPicker) {
+			colorPicker.value = color;
+		}
+		// Update stroke size button colors when selection is finalized
+		this.updateStrokeSizeButtonColors(toolbar);
+		this.renderSwatches(toolbar);
+	}
+	
+	private rememberRecentColor(color: string) {
+		const recent = this.plugin.settings.annotationColors.recent;
+		const target = this.getPaletteTarget();
+		const normalized = color.toLowerCase();
+		recent[target] = [normalized, ...recent[target].filter(c => c !== normalized)].slice(0, MAX_RECENT_COLORS);
+		this.plugin.saveSettings();
+	}
+	
+	private setEyedropperActive(active: boolean) {
+		this.eyedropperActive = active;
+		const toolbar = this.contentEl.querySelector<HTMLElement>('.image-editor-toolbar');
+		const button = toolbar ? this.toolbarElements.get(toolbar)?.eyedropperButton : undefined;
+		button?.toggleClass('active', active);
+		this.canvas?.toggleClass('cursor-eyedropper', active);
+	}
+	
+	/**
+	 * Colour of the background layer at a point, with redactions applied so hidden pixels can't be sampled
+	 */
+	private pickBackgroundColor(point: Point) {
+		this.setEyedropperActive(false);
+		if (!this.fullScreenshotImage) return;
+		const x = Math.floor(point.x);
+		const y = Math.floor(point.y);
+		if (x < 0 || y < 0 || x >= this.fullScreenshotSize.width || y >= this.fullScreenshotSize.height) return;
+		
+		const sample = document.createElement('canvas');
+		sample.width = 1;
+		sample.height = 1;
+		const sampleCtx = sample.getContext('2d', { willReadFrequently: true });
+		if (!sampleCtx) return;
+		sampleCtx.translate(-x, -y);
+		sampleCtx.drawImage(this.fullScreenshotImage, 0, 0);
+		this.renderRedactions(sampleCtx);
+		
+		const [r, g, b] = Array.from(sampleCtx.getImageData(0, 0, 1, 1).data);
+		const color = '#' + [r, g, b].map(value => value.toString(16).padStart(2, '0')).join('');
+		const toolbar = this.contentEl.querySelector<HTMLElement>('.image-editor-toolbar');
+		if (toolbar) {
+			this.applyColor(color, toolbar);
+		}
+	}
+
 	private getCurrentColor(): string {
 		return this.isHighlighterMode ? this.highlighterColor : this.currentColor;
 	}
@@ -603,6 +1016,8 @@ export class ImageEditor extends Modal {
 			// Force immediate color update
 			this.updateStrokeSizeButtonColors(toolbar);
 		}
+		
+		this.renderSwatches(toolbar);
 	}
 
 	private updateStrokeSizeButtons(container: HTMLElement): void {
@@ -650,7 +1065,127 @@ export class ImageEditor extends Modal {
 		});
 	}
 
+	/**
+	 * 根据旁路文件重新打开已保存的截图：恢复原图、裁剪区域和标注，保存时覆盖原图片
+	 */
+	async reopenFromSidecar(file: TFile): Promise<void> {
+		const sidecar = await readEditSidecar(this.plugin.app.vault, file.path);
+		if (!sidecar) {
+			new Notice(t('notice.noEditSidecar'));
+			return;
+		}
+		
+		const originalImage = await readEditOriginal(this.plugin.app.vault, file.path, sidecar);
+		if (!originalImage) {
+			new Notice(t('notice.noEditSidecar'));
+			return;
+		}
+		
+		const size = await this.getImageSize(originalImage);
+		this.resolveReview(null);
+		this.editTarget = file;
+		
+		if (sidecar.crop) {
+			// Show the saved crop inside a slightly larger area, like a fresh region capture
+			const crop = sidecar.crop;
+			const extendedRegion = {
+				x: crop.x - crop.width * 0.1,
+				y: crop.y - crop.height * 0.1,
+				width: Math.round(crop.width * 1.2),
+				height: Math.round(crop.height * 1.2)
+			};
+			this.showEditor(originalImage, crop, extendedRegion, originalImage);
+		} else {
+			this.showEditor(originalImage, { x: 0, y: 0, width: size.width, height: size.height });
+		}
+		
+		this.annotations = sidecar.annotations.map(annotation => cloneAnnotation(annotation));
+		this.setOutputScale(sidecar.outputScale || DEFAULT_OUTPUT_SCALE);
+		this.renderAllLayers();
+	}
+	
+	/**
+	 * 以库中已有图片为背景打开编辑器，保存时可另存为副本（并更新笔记中的嵌入）或覆盖原图
+	 */
+	async openVaultImage(source: VaultImageSource): Promise<void> {
+		try {
+			const buffer = await this.plugin.app.vault.readBinary(source.file);
+			const dataUrl = `data:${getImageMimeType(source.file.extension)};base64,${arrayBufferToBase64(buffer)}`;
+			const size = await this.getImageSize(dataUrl);
+			
+			this.resolveReview(null);
+			this.editTarget = null;
+			this.vaultSource = source;
+			this.showEditor(dataUrl, { x: 0, y: 0, width: size.width, height: size.height });
+		} catch (error: any) {
+			getLogger().error('Failed to open vault image:', error);
+			new Notice(t('notice.openImageFailed', { message: error.message }));
+		}
+	}
+	
+	private getImageSize(dataUrl: string): Promise<{ width: number, height: number }> {
+		return new Promise((resolve, reject) => {
+			const img = new Image();
+			img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+			img.onerror = () => reject(new Error('Failed to load image'));
+			img.src = dataUrl;
+		});
+	}
+	
+	/**
+	 * 发送前隐私审查：打开编辑器并预置检测到的遮挡框（可删除、调整或补充），
+	 * 确认后返回处理后的图片，关闭或取消返回 null
+	 */
+	reviewRedactions(imageUrl: string, size: { width: number, height: number }, boxes: Region[]): Promise<string | null> {
+		return new Promise(resolve => {
+			this.resolveReview(null);
+			this.reviewResolver = resolve;
+			this.showEditor(imageUrl, { x: 0, y: 0, width: size.width, height: size.height });
+			
+			// Proposed boxes start as black boxes, the user removes false positives with the select tool
+			this.annotations = boxes.map(box => ({
+				id: generateAnnotationId(),
+				type: 'redaction',
+				style: 'solid',
+				color: '#000000',
+				strokeSize: 'medium',
+				thickness: 0,
+				start: { x: box.x, y: box.y },
+				end: { x: box.x + box.width, y: box.y + box.height }
+			}));
+			this.renderAllLayers();
+		});
+	}
+	
+	private resolveReview(dataUrl: string | null) {
+		const resolve = this.reviewResolver;
+		this.reviewResolver = null;
+		resolve?.(dataUrl);
+	}
+	
+	// Button bar of the privacy review: no file name, only confirm or cancel
+	private createReviewButtons(buttonBar: HTMLElement) {
+		buttonBar.className = 'image-editor-action-buttons-container';
+		
+		buttonBar.createDiv({ text: t('imageEditor.piiReviewHint'), cls: 'image-editor-review-hint' });
+		const buttonRow = buttonBar.createDiv({ cls: 'image-editor-button-row image-editor-button-row-layout' });
+		
+		const cancelButton = buttonRow.createEl('button', { text: t('imageEditor.piiReviewCancel'), cls: 'btn-base' });
+		cancelButton.addEventListener('click', () => this.close());
+		
+		const confirmButton = buttonRow.createEl('button', { text: t('imageEditor.piiReviewConfirm'), cls: 'btn-base mod-cta' });
+		confirmButton.addEventListener('click', () => {
+			this.resolveReview(this.createFinalImage());
+			this.close();
+		});
+	}
+
 	private createActionButtons(buttonBar: HTMLElement) {
+		if (this.reviewResolver) {
+			this.createReviewButtons(buttonBar);
+			return;
+		}
+		
 		// Use CSS class for base styling
 		buttonBar.className = 'image-editor-action-buttons-container';
 		
@@ -667,8 +1202,8 @@ export class ImageEditor extends Modal {
 		});
 		
 		// Generate default filename
-		const timestamp = formatTimestampForFilename();
-		const defaultFileName = `screenshot-${timestamp}.png`;
+		this.fileNameTimestamp = formatTimestampForFilename();
+		const defaultFileName = this.getDefaultFileName();
 		
 		const fileNameInput = inputRow.createEl('input', { 
 			type: 'text',
@@ -680,6 +1215,15 @@ export class ImageEditor extends Modal {
 		// Store reference to filename input
 		this.fileNameInput = fileNameInput;
 		
+		// Re-editing saves over the existing image, its name can't change
+		if (this.editTarget) {
+			fileNameInput.value = this.editTarget.name;
+			fileNameInput.disabled = true;
+			fileNameInput.title = t('imageEditor.reEditOverwriteTooltip');
+		}
+		
+		this.createFormatControls(inputRow);
+		
 		// Create warning container OUTSIDE inputRow but INSIDE fileNameSection
 		const warningsContainer = fileNameSection.createDiv({ cls: 'image-editor-filename-warnings-container' });
 		
@@ -699,6 +1243,7 @@ export class ImageEditor extends Modal {
 		
 		// Add event listener to check file validity and conflicts
 		fileNameInput.addEventListener('input', () => {
+			this.fileNameEdited = true;
 			this.validateFileName();
 		});
 		
@@ -710,6 +1255,12 @@ export class ImageEditor extends Modal {
 		// Button row
 		const buttonRow = buttonBar.createDiv({ cls: 'image-editor-button-row image-editor-button-row-layout' });
 		
+		// Annotating a vault image: save a copy next to it or overwrite it
+		if (this.vaultSource) {
+			this.createVaultImageButtons(buttonRow);
+			return;
+		}
+		
 		// Check if AI is enabled and if we have any vision-capable models
 		const aiEnabled = this.plugin.settings.enableAIAnalysis;
 		const visionModels = this.plugin.settings.modelConfigs.filter(mc => mc.isVisionCapable);
@@ -720,7 +1271,7 @@ export class ImageEditor extends Modal {
 		let hasValidCredentials = false;
 		if (hasValidModel) {
 			const credentials = this.plugin.settings.providerCredentials[defaultModel.providerId];
-			hasValidCredentials = credentials && credentials.verified && credentials.apiKey.trim() !== '';
+			hasValidCredentials = isProviderReady(defaultModel.providerId, credentials);
 		}
 		
 		const aiButtonEnabled = aiEnabled && hasValidModel && hasValidCredentials;
@@ -806,6 +1357,157 @@ export class ImageEditor extends Modal {
 	}
 
 
+	/**
+	 * 本次保存的格式与质量，默认取自设置；覆盖已有图片时格式跟随原文件
+	 */
+	private createFormatControls(container: HTMLElement) {
+		const fixedFormat = this.getFixedSaveFormat();
+		const formats = getSupportedImageFormats();
+		const current = this.getSaveFormat();
+		if (!formats.includes(current)) {
+			formats.push(current);
+		}
+		
+		const formatSelect = container.createEl('select', { cls: 'dropdown image-editor-format-select' });
+		formatSelect.setAttribute('aria-label', t('imageEditor.formatTooltip'));
+		formats.forEach(format => formatSelect.createEl('option', { value: format, text: format.toUpperCase() }));
+		formatSelect.value = current;
+		formatSelect.disabled = fixedFormat !== null;
+		
+		const qualitySlider = container.createEl('input', { type: 'range', cls: 'image-editor-quality-slider' });
+		qualitySlider.min = '10';
+		qualitySlider.max = '100';
+		qualitySlider.step = '5';
+		qualitySlider.value = String(this.saveQuality);
+		qualitySlider.title = t('imageEditor.qualityTooltip');
+		const qualityLabel = container.createEl('span', { cls: 'image-editor-quality-label', text: `${this.saveQuality}%` });
+		
+		const updateQualityVisibility = () => {
+			const lossy = isLossyImageFormat(this.getSaveFormat());
+			qualitySlider.toggle(lossy);
+			qualityLabel.toggle(lossy);
+		};
+		updateQualityVisibility();
+		
+		formatSelect.addEventListener('change', () => {
+			this.saveFormat = formatSelect.value as ImageFormat;
+			updateQualityVisibility();
+			// A typed name keeps its stem and only swaps the extension
+			if (this.fileNameInput && this.fileNameEdited && this.fileNameInput.value.trim()) {
+				this.fileNameInput.value = withImageExtension(this.fileNameInput.value.trim(), this.saveFormat);
+				this.validateFileName();
+			} else {
+				this.refreshDefaultFileName();
+			}
+		});
+		qualitySlider.addEventListener('input', () => {
+			this.saveQuality = parseInt(qualitySlider.value, 10);
+			qualityLabel.textContent = `${this.saveQuality}%`;
+		});
+	}
+	
+	// Saving over an existing file keeps its format
+	private getFixedSaveFormat(): ImageFormat | null {
+		const file = this.editTarget || this.vaultSource?.file;
+		return file ? imageFormatFromExtension(file.extension) : null;
+	}
+	
+	private getSaveFormat(): ImageFormat {
+		return this.getFixedSaveFormat() || this.saveFormat;
+	}
+	
+	// The image as written to the vault: saved format and quality, scaled down to the maximum size
+	private getSaveDataUrl(): string {
+		const canvas = this.getFinalCanvas();
+		const output = scaleCanvas(canvas, fitToMaxDimension(canvas, this.plugin.settings.maxImageDimension));
+		return encodeImage(output, this.getSaveFormat(), this.saveQuality);
+	}
+	
+	private createVaultImageButtons(buttonRow: HTMLElement) {
+		const copyButton = buttonRow.createEl('button', { text: t('imageEditor.saveAsCopy'), cls: 'btn-base' });
+		this.saveButtons.push(copyButton);
+		copyButton.addEventListener('click', () => {
+			if (!copyButton.disabled) {
+				this.saveVaultImage(false);
+			}
+		});
+		
+		const overwriteButton = buttonRow.createEl('button', { text: t('imageEditor.overwriteOriginal'), cls: 'btn-base mod-warning' });
+		overwriteButton.addEventListener('click', () => this.saveVaultImage(true));
+	}
+	
+	/**
+	 * 保存标注后的库图片：覆盖原文件，或在同一目录另存副本并把笔记中的嵌入指向副本
+	 */
+	private async saveVaultImage(overwrite: boolean) {
+		const source = this.vaultSource;
+		if (!source || !this.canvas) return;
+		
+		try {
+			const vault = this.plugin.app.vault;
+			const fileName = overwrite ? source.file.name : this.getFileName();
+			const data = this.dataUrlToArrayBuffer(this.getSaveDataUrl());
+			
+			let savedFile: TFile;
+			if (overwrite) {
+				await vault.modifyBinary(source.file, data);
+				savedFile = source.file;
+			} else {
+				const folder = source.file.parent?.path;
+				const path = folder && folder !== '/' ? `${folder}/${fileName}` : fileName;
+				if (await vault.adapter.exists(path)) {
+					new Notice(t('imageEditor.fileNameConflictWarning'));
+					return;
+				}
+				savedFile = await vault.createBinary(path, data);
+			}
+			
+			try {
+				const edits = this.createEditSidecar();
+				if (edits) {
+					await writeEditSidecar(vault, savedFile.path, edits.sidecar, edits.original);
+				}
+			} catch (error) {
+				getLogger().error('Failed to save edit sidecar:', error);
+			}
+			
+			if (!overwrite && source.embed) {
+				this.updateEmbed(source.embed, savedFile);
+			}
+			
+			new Notice(t(overwrite ? 'notice.imageOverwritten' : 'notice.imageCopySaved', { fileName: savedFile.name }));
+			this.close();
+		} catch (error: any) {
+			getLogger().error('Save vault image failed:', error);
+			new Notice(t('imageEditor.saveError', { message: error.message }));
+		}
+	}
+	
+	// Point the embed the image was opened from at the saved copy
+	private updateEmbed(target: NonNullable<VaultImageSource['embed']>, copy: TFile) {
+		const { editor, line, embed, notePath } = target;
+		const linkText = this.plugin.app.metadataCache.fileToLinktext(copy, notePath, false);
+		const replacement = replaceEmbedTarget(embed, copy.name, linkText);
+		
+		// The note may have changed while the editor was open, find the embed again on its line
+		const current = line < editor.lineCount() ? editor.getLine(line) : '';
+		const start = current.substring(embed.start, embed.end) === embed.text ? embed.start : current.indexOf(embed.text);
+		if (start < 0) {
+			new Notice(t('notice.embedNotUpdated'));
+			return;
+		}
+		editor.replaceRange(replacement, { line, ch: start }, { line, ch: start + embed.text.length });
+	}
+	
+	private dataUrlToArrayBuffer(dataUrl: string): ArrayBuffer {
+		const binaryData = atob(dataUrl.replace(/^data:[^;]+;base64,/, ''));
+		const bytes = new Uint8Array(binaryData.length);
+		for (let i = 0; i < binaryData.length; i++) {
+			bytes[i] = binaryData.charCodeAt(i);
+		}
+		return bytes.buffer;
+	}
+
 	/**
 	 * 第一组：仅发送到AI预发送区（临时图片）
 	 */
@@ -841,8 +1543,8 @@ export class ImageEditor extends Modal {
 		if (!this.canvas) return;
 		
 		try {
-			// Get the final cropped image
-			const dataUrl = this.getFinalCroppedImage();
+			// Get the final cropped image in the saved format
+			const dataUrl = this.getSaveDataUrl();
 			
 			// Get filename from user input or generate default
 			const fileName = this.getFileName();
@@ -866,7 +1568,7 @@ export class ImageEditor extends Modal {
 			
 		} catch (error: any) {
 			getLogger().error('Save only failed:', error);
-			new Notice(t('imageEditor.saveFailed', { message: error.message }));
+			new Notice(t('imageEditor.saveError', { message: error.message }));
 		}
 	}
 
@@ -888,8 +1590,8 @@ export class ImageEditor extends Modal {
 			const notice = new Notice(t('imageEditor.savingAndAddingToQueue'), 2000);
 			
 			try {
-				// Step 1: Save the image to vault first
-				const savedPath = await this.saveImageToVault(dataUrl, fileName);
+				// Step 1: Save the image to vault first, the AI queue keeps the lossless copy
+				const savedPath = await this.saveImageToVault(this.getSaveDataUrl(), fileName);
 				
 				// Step 2: Show AI panel
 				await this.plugin.ensureAIChatPanelVisible();
@@ -1005,12 +1707,6 @@ export class ImageEditor extends Modal {
 			getLogger().log('🔍 Extended region:', this.extendedRegion);
 			getLogger().log('🔍 Initial layers offset:', this.layersOffset);
 			
-			// Create edit layer canvas (same size as full screenshot)
-			this.editLayerCanvas = document.createElement('canvas');
-			this.editLayerCtx = this.editLayerCanvas.getContext('2d')!;
-			this.editLayerCanvas.width = this.fullScreenshotSize.width;
-			this.editLayerCanvas.height = this.fullScreenshotSize.height;
-			
 			// Create highlighter layer canvas (Layer 3.5, same size as full screenshot)
 			this.highlighterLayerCanvas = document.createElement('canvas');
 			this.highlighterLayerCtx = this.highlighterLayerCanvas.getContext('2d')!;
@@ -1019,6 +1715,13 @@ export class ImageEditor extends Modal {
 			
 			// Store full screenshot image for layer 4
 			this.fullScreenshotImage = fullImg;
+			this.luminanceMap = null;
+			this.redactedBackground = null;
+			// A locked ratio carries over to new captures, reopened edits keep their saved crop
+			if (!this.editTarget) {
+				this.applyCropAspect();
+			}
+			this.updateCropInputs();
 			
 			// Now load the display image (extended region)
 			const displayImg = new Image();
@@ -1058,8 +1761,6 @@ export class ImageEditor extends Modal {
 				
 				// Initial render of all four layers
 				this.renderAllLayers();
-				
-				this.saveToHistory();
 			};
 			displayImg.src = this.imageUrl; // Extended region image for display
 		};
@@ -1109,6 +1810,9 @@ export class ImageEditor extends Modal {
 		// Layer 2: Semi-transparent mask with transparent crop area (drawn with zoom)
 		this.renderSemiTransparentMask();
 		
+		// Keep the inline text input aligned with zoom and panning
+		this.layoutTextEditor();
+		
 		// Layer 1: Preview page hole is handled by the UI structure
 	}
 	
@@ -1121,11 +1825,56 @@ export class ImageEditor extends Modal {
 			this.layersOffset.x, this.layersOffset.y,
 			this.fullScreenshotSize.width, this.fullScreenshotSize.height
 		);
+		
+		// Redactions replace background pixels, so they belong to this layer
+		this.ctx.save();
+		this.ctx.translate(this.layersOffset.x, this.layersOffset.y);
+		this.renderRedactions(this.ctx);
+		this.ctx.restore();
+	}
+	
+	private renderRedactions(ctx: CanvasRenderingContext2D) {
+		if (!this.fullScreenshotImage) return;
+		const source = this.fullScreenshotImage;
+		this.getRenderedAnnotations()
+			.filter(isRedactionAnnotation)
+			.forEach(annotation => drawRedaction(ctx, annotation, source));
+	}
+	
+	// Magnified copies are drawn from the full resolution capture, not the scaled display canvas
+	private renderMagnifiers(ctx: CanvasRenderingContext2D, annotations: Annotation[]) {
+		const magnifiers = annotations.filter(isMagnifierAnnotation);
+		if (magnifiers.length === 0) return;
+		const source = this.getMagnifierBackground(annotations);
+		if (!source) return;
+		magnifiers.forEach(annotation => drawMagnifier(ctx, annotation, source));
+	}
+	
+	// The capture with redactions baked in, cached until the redactions or the image change
+	private getMagnifierBackground(annotations: Annotation[]): CanvasImageSource | null {
+		const image = this.fullScreenshotImage;
+		if (!image) return null;
+		const redactions = annotations.filter(isRedactionAnnotation);
+		if (redactions.length === 0) return image;
+		
+		const key = JSON.stringify(redactions);
+		if (this.redactedBackground?.key === key) return this.redactedBackground.canvas;
+		
+		const canvas = this.redactedBackground?.canvas || document.createElement('canvas');
+		canvas.width = this.fullScreenshotSize.width;
+		canvas.height = this.fullScreenshotSize.height;
+		const ctx = canvas.getContext('2d')!;
+		ctx.drawImage(image, 0, 0);
+		redactions.forEach(annotation => drawRedaction(ctx, annotation, image));
+		this.redactedBackground = { key, canvas };
+		return canvas;
 	}
 	
 	private renderHighlighterLayer() {
 		if (!this.canvas || !this.ctx || !this.highlighterLayerCanvas) return;
 		
+		this.rasterizeHighlighterLayer();
+		
 		// Save current state
 		this.ctx.save();
 		
@@ -1144,16 +1893,68 @@ export class ImageEditor extends Modal {
 		this.ctx.restore();
 	}
 	
+	// Redraw highlighter strokes at full opacity so overlapping strokes don't darken each other
+	private rasterizeHighlighterLayer() {
+		if (!this.highlighterLayerCanvas || !this.highlighterLayerCtx) return;
+		
+		this.highlighterLayerCtx.clearRect(0, 0, this.highlighterLayerCanvas.width, this.highlighterLayerCanvas.height);
+		this.getRenderedAnnotations()
+			.filter(annotation => annotation.type === 'highlighter')
+			.forEach(annotation => drawAnnotation(this.highlighterLayerCtx!, annotation));
+	}
+	
 	private renderEditLayer() {
-		if (!this.canvas || !this.ctx || !this.editLayerCanvas) return;
+		if (!this.canvas || !this.ctx) return;
 		
-		// Draw the edit layer with the same offset as background
+		// Draw annotations with the same offset as background
 		// This ensures drawings move with the background
-		this.ctx.drawImage(
-			this.editLayerCanvas,
-			this.layersOffset.x, this.layersOffset.y,
-			this.fullScreenshotSize.width, this.fullScreenshotSize.height
-		);
+		this.ctx.save();
+		this.ctx.translate(this.layersOffset.x, this.layersOffset.y);
+		
+		// Spotlights dim the background and highlighter, the other annotations stay on top
+		const rendered = this.getRenderedAnnotations();
+		drawSpotlights(this.ctx, rendered, this.fullScreenshotSize);
+		this.renderMagnifiers(this.ctx, rendered);
+		drawAnnotations(this.ctx, rendered.filter(annotation => annotation.type !== 'highlighter'));
+		
+		this.renderSelection();
+		
+		this.ctx.restore();
+	}
+	
+	// Committed annotations plus the one being drawn, minus the text being edited
+	private getRenderedAnnotations(): Annotation[] {
+		const editingId = this.textEditor?.annotation.id;
+		const annotations = editingId ? this.annotations.filter(annotation => annotation.id !== editingId) : this.annotations;
+		return this.draftAnnotation ? [...annotations, this.draftAnnotation] : annotations;
+	}
+	
+	// Dashed bounding box and corner handles of the selected annotation (preview only)
+	private renderSelection() {
+		const selected = this.getSelectedAnnotation();
+		if (!this.ctx || !selected) return;
+		
+		const bounds = this.getSelectionBounds(selected);
+		const lineWidth = 1 / this.userZoom;
+		const handleSize = 8 / this.userZoom;
+		
+		this.ctx.save();
+		this.ctx.lineWidth = lineWidth;
+		this.ctx.strokeStyle = '#ffffff';
+		this.ctx.setLineDash([4 / this.userZoom, 4 / this.userZoom]);
+		this.ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
+		this.ctx.strokeStyle = '#2563eb';
+		this.ctx.lineDashOffset = 4 / this.userZoom;
+		this.ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
+		
+		this.ctx.setLineDash([]);
+		this.ctx.fillStyle = '#ffffff';
+		this.ctx.strokeStyle = '#2563eb';
+		Object.values(this.getSelectionHandles(bounds)).forEach(point => {
+			this.ctx!.fillRect(point.x - handleSize / 2, point.y - handleSize / 2, handleSize, handleSize);
+			this.ctx!.strokeRect(point.x - handleSize / 2, point.y - handleSize / 2, handleSize, handleSize);
+		});
+		this.ctx.restore();
 	}
 	
 	private renderSemiTransparentMask() {
@@ -1233,6 +2034,7 @@ export class ImageEditor extends Modal {
 		this.canvas.addEventListener('mousemove', (e) => this.handleCanvasMouseMove(e));
 		this.canvas.addEventListener('mouseup', (e) => this.handleCanvasMouseUp(e));
 		this.canvas.addEventListener('mouseout', (e) => this.handleCanvasMouseOut(e));
+		this.canvas.addEventListener('dblclick', (e) => this.handleCanvasDoubleClick(e));
 		
 		// Add mouse wheel event for zoom control
 		this.canvas.addEventListener('wheel', (e) => this.handleCanvasWheel(e));
@@ -1245,9 +2047,22 @@ export class ImageEditor extends Modal {
 	private handleCanvasMouseDown(e: MouseEvent) {
 		if (!this.canvas) return;
 		
+		// A click outside the text input finishes editing first
+		if (this.textEditor) {
+			this.commitTextEditor();
+			return;
+		}
+		
 		// Get screen to canvas coordinates (same as used for rendering)
 		const canvasCoords = this.screenToCanvasCoords(e.clientX, e.clientY);
 		
+		// Eyedropper takes the click before any tool
+		if (this.eyedropperActive) {
+			const zoomed = this.canvasToZoomedCoords(canvasCoords.x, canvasCoords.y);
+			this.pickBackgroundColor({ x: zoomed.x - this.layersOffset.x, y: zoomed.y - this.layersOffset.y });
+			return;
+		}
+		
 		// Priority 1: Check for crop frame resizing (only in crop mode)
 		// Use the same coordinate system as crop frame rendering
 		if (this.cropModeActive) {
@@ -1282,26 +2097,72 @@ export class ImageEditor extends Modal {
 		const fullScreenshotX = zoomedCoords.x - this.layersOffset.x;
 		const fullScreenshotY = zoomedCoords.y - this.layersOffset.y;
 		
+		// Priority 3: Select tool picks, moves and resizes annotations
+		if (this.currentTool === 'select') {
+			this.startAnnotationSelection({ x: fullScreenshotX, y: fullScreenshotY });
+			return;
+		}
+		
+		// Step tool places the next numbered marker with a single click
+		if (this.currentTool === 'step') {
+			this.placeStepMarker({ x: fullScreenshotX, y: fullScreenshotY });
+			return;
+		}
+		
+		// Text tool edits the text under the cursor or places a new one
+		if (this.currentTool === 'text') {
+			this.startTextTool({ x: fullScreenshotX, y: fullScreenshotY });
+			return;
+		}
+		
 		// Check if drawing within full screenshot bounds
 		if (fullScreenshotX >= 0 && fullScreenshotX <= this.fullScreenshotSize.width &&
 			fullScreenshotY >= 0 && fullScreenshotY <= this.fullScreenshotSize.height) {
 			
-			// For shape tools, create a backup of current edit layers
-			if (['line', 'wavy-line', 'dashed-line', 'dotted-line', 'rectangle', 'ellipse', 'arrow'].includes(this.currentTool)) {
-				if (this.editLayerCtx && this.editLayerCanvas) {
-					this.editLayerBackup = this.editLayerCtx.getImageData(0, 0, this.editLayerCanvas.width, this.editLayerCanvas.height);
-				}
-				if (this.highlighterLayerCtx && this.highlighterLayerCanvas) {
-					this.highlighterLayerBackup = this.highlighterLayerCtx.getImageData(0, 0, this.highlighterLayerCanvas.width, this.highlighterLayerCanvas.height);
-				}
-			}
-			
+			this.draftAnnotation = this.createDraftAnnotation({ x: fullScreenshotX, y: fullScreenshotY });
 			this.lastX = fullScreenshotX;
 			this.lastY = fullScreenshotY;
-			this.isDrawing = true;
+			this.isDrawing = !!this.draftAnnotation;
 			// Don't save to history here - wait until drawing is complete
 		}
 	}
+	
+	// New annotation for the current tool, starting at `point`
+	private createDraftAnnotation(point: Point): Annotation | null {
+		const base = {
+			id: generateAnnotationId(),
+			color: this.getCurrentColor(),
+			strokeSize: this.getCurrentStrokeSize(),
+			thickness: this.getCurrentStrokeWidth()
+		};
+		if (this.currentTool === 'pen' || this.currentTool === 'highlighter') {
+			return { ...base, type: this.currentTool, points: [point] };
+		}
+		const shapeType = SHAPE_TOOLS.find(tool => tool === this.currentTool);
+		if (shapeType) {
+			return { ...base, type: shapeType, start: point, end: { ...point } };
+		}
+		const redactionStyle = REDACTION_TOOLS[this.currentTool];
+		if (redactionStyle) {
+			return { ...base, type: 'redaction', style: redactionStyle, start: point, end: { ...point } };
+		}
+		const spotlightShape = SPOTLIGHT_TOOLS[this.currentTool];
+		if (spotlightShape) {
+			return { ...base, thickness: 0, type: 'spotlight', shape: spotlightShape, start: point, end: { ...point }, opacity: this.spotlightOpacity };
+		}
+		if (this.currentTool === 'magnifier') {
+			// The enlarged copy is placed once the area is drawn, see finishDrawing
+			return {
+				...base,
+				type: 'magnifier',
+				start: point,
+				end: { ...point },
+				target: { x: point.x, y: point.y, width: 0, height: 0 },
+				connector: this.magnifierConnectors
+			};
+		}
+		return null;
+	}
 
 	private handleCanvasMouseMove(e: MouseEvent) {
 		if (!this.canvas) return;
@@ -1324,29 +2185,42 @@ export class ImageEditor extends Modal {
 			const originalDeltaX = canvasDeltaX / this.userZoom;
 			const originalDeltaY = canvasDeltaY / this.userZoom;
 			
-			// Apply resize based on handle
+			// Apply resize based on handle, keeping the minimum size with the opposite edge fixed
+			const original = this.originalCropRect;
 			switch (this.resizeHandle) {
 				case 'left':
-					this.cropRect.x = this.originalCropRect.x + originalDeltaX;
-					this.cropRect.width = this.originalCropRect.width - originalDeltaX;
+					this.cropRect.width = Math.max(MIN_CROP_SIZE, Math.round(original.width - originalDeltaX));
+					this.cropRect.x = original.x + original.width - this.cropRect.width;
 					break;
 				case 'right':
-					this.cropRect.width = this.originalCropRect.width + originalDeltaX;
+					this.cropRect.width = Math.max(MIN_CROP_SIZE, Math.round(original.width + originalDeltaX));
 					break;
 				case 'top':
-					this.cropRect.y = this.originalCropRect.y + originalDeltaY;
-					this.cropRect.height = this.originalCropRect.height - originalDeltaY;
+					this.cropRect.height = Math.max(MIN_CROP_SIZE, Math.round(original.height - originalDeltaY));
+					this.cropRect.y = original.y + original.height - this.cropRect.height;
 					break;
 				case 'bottom':
-					this.cropRect.height = this.originalCropRect.height + originalDeltaY;
+					this.cropRect.height = Math.max(MIN_CROP_SIZE, Math.round(original.height + originalDeltaY));
 					break;
 			}
 			
-			// Ensure minimum size
-			this.cropRect.width = Math.max(50, this.cropRect.width);
-			this.cropRect.height = Math.max(50, this.cropRect.height);
+			// Snap the dragged edge to content in the screenshot, hold Alt to place it freely
+			if (this.cropSnap && !e.altKey) {
+				this.snapCropEdge(this.resizeHandle);
+			}
 			
-			// Re-render all layers
+			// A locked ratio makes the other side follow the dragged edge
+			const ratio = this.getCropAspectRatio();
+			if (ratio) {
+				if (this.resizeHandle === 'left' || this.resizeHandle === 'right') {
+					this.cropRect.height = Math.max(MIN_CROP_SIZE, Math.round(this.cropRect.width / ratio));
+				} else {
+					this.cropRect.width = Math.max(MIN_CROP_SIZE, Math.round(this.cropRect.height * ratio));
+				}
+			}
+			
+			// Re-render all layers
+			this.updateCropInputs();
 			this.renderAllLayers();
 			return;
 		}
@@ -1409,6 +2283,7 @@ export class ImageEditor extends Modal {
 			this.layersOffset.y = this.layersStartOffset.y + scaledDeltaY;
 			
 			// Re-render all layers with new offset
+			this.updateCropInputs();
 			this.renderAllLayers();
 			return;
 		}
@@ -1431,8 +2306,17 @@ export class ImageEditor extends Modal {
 			return;
 		}
 		
+		// Handle moving / resizing the selected annotation
+		if (this.annotationDrag) {
+			this.dragSelectedAnnotation({
+				x: zoomedCoords.x - this.layersOffset.x,
+				y: zoomedCoords.y - this.layersOffset.y
+			});
+			return;
+		}
+		
 		// Handle drawing - use zoomed coordinates for accurate drawing
-		if (this.isDrawing && this.editLayerCtx) {
+		if (this.isDrawing && this.draftAnnotation) {
 			const fullScreenshotX = zoomedCoords.x - this.layersOffset.x;
 			const fullScreenshotY = zoomedCoords.y - this.layersOffset.y;
 			
@@ -1440,15 +2324,15 @@ export class ImageEditor extends Modal {
 			if (fullScreenshotX >= 0 && fullScreenshotX <= this.fullScreenshotSize.width &&
 				fullScreenshotY >= 0 && fullScreenshotY <= this.fullScreenshotSize.height) {
 				
-				if (this.currentTool === 'pen' || this.currentTool === 'highlighter') {
-					// Free drawing tools - draw stroke from last position to current
-					this.drawOnEditLayer(fullScreenshotX, fullScreenshotY);
-					this.lastX = fullScreenshotX;
-					this.lastY = fullScreenshotY;
-				} else if (['line', 'wavy-line', 'dashed-line', 'dotted-line', 'rectangle', 'ellipse', 'arrow'].includes(this.currentTool)) {
-					// Shape tools - preview drawing
-					this.handleShapeDrawing(fullScreenshotX, fullScreenshotY);
+				if (isPathAnnotation(this.draftAnnotation)) {
+					// Free drawing tools - extend the stroke to the current position
+					this.draftAnnotation.points.push({ x: fullScreenshotX, y: fullScreenshotY });
+				} else if (!isTextAnnotation(this.draftAnnotation) && !isStepAnnotation(this.draftAnnotation)) {
+					// Shape tools - preview from the start point to the current position
+					this.draftAnnotation.end = { x: fullScreenshotX, y: fullScreenshotY };
 				}
+				this.lastX = fullScreenshotX;
+				this.lastY = fullScreenshotY;
 				
 				// Re-render all layers to show the drawing
 				this.renderAllLayers();
@@ -1456,200 +2340,628 @@ export class ImageEditor extends Modal {
 		}
 	}
 	
-	private drawOnEditLayer(x: number, y: number) {
-		if (!this.editLayerCtx) return;
+	private handleCanvasDoubleClick(e: MouseEvent) {
+		if (this.currentTool !== 'select' || !this.canvas) return;
 		
-		// For highlighter tool, draw on layer 3.5 instead
-		if (this.currentTool === 'highlighter') {
-			this.drawHighlighterStroke(x, y);
+		// Double-clicking a text annotation with the select tool re-edits it
+		const canvasCoords = this.screenToCanvasCoords(e.clientX, e.clientY);
+		const zoomedCoords = this.canvasToZoomedCoords(canvasCoords.x, canvasCoords.y);
+		const point = { x: zoomedCoords.x - this.layersOffset.x, y: zoomedCoords.y - this.layersOffset.y };
+		const index = findAnnotationAt(this.annotations, point, 6 / this.userZoom);
+		const annotation = index >= 0 ? this.annotations[index] : null;
+		if (annotation && isTextAnnotation(annotation)) {
+			this.openTextEditor(annotation, false);
+		}
+	}
+	
+	private placeStepMarker(point: Point) {
+		if (point.x < 0 || point.x > this.fullScreenshotSize.width ||
+			point.y < 0 || point.y > this.fullScreenshotSize.height) return;
+		
+		const strokeSize = this.getCurrentStrokeSize();
+		this.recordOperation({
+			kind: 'add',
+			annotation: {
+				id: generateAnnotationId(),
+				type: 'step',
+				color: this.getCurrentColor(),
+				strokeSize,
+				thickness: 0,
+				position: point,
+				radius: STEP_RADII[strokeSize],
+				connector: this.stepConnectors
+			},
+			index: this.annotations.length
+		});
+	}
+	
+	private startTextTool(point: Point) {
+		const index = findAnnotationAt(this.annotations, point, 0);
+		const existing = index >= 0 ? this.annotations[index] : null;
+		if (existing && isTextAnnotation(existing)) {
+			this.openTextEditor(existing, false);
 			return;
 		}
 		
-		// Set drawing properties for regular tools
-		this.editLayerCtx.lineWidth = this.getCurrentStrokeWidth();
-		this.editLayerCtx.lineCap = 'round';
-		this.editLayerCtx.lineJoin = 'round';
-		this.editLayerCtx.strokeStyle = this.getCurrentColor();
-		
-		if (this.currentTool === 'pen') {
-			// Regular pen drawing on layer 3
-			this.editLayerCtx.globalCompositeOperation = 'source-over';
-			this.editLayerCtx.globalAlpha = 1;
-			this.editLayerCtx.beginPath();
-			this.editLayerCtx.moveTo(this.lastX, this.lastY);
-			this.editLayerCtx.lineTo(x, y);
-			this.editLayerCtx.stroke();
-		}
-	}
-	
-	// Highlighter stroke method - drawing on Layer 3.5 with full opacity
-	private drawHighlighterStroke(x: number, y: number) {
-		if (!this.highlighterLayerCtx) return;
-		
-		// Set drawing properties for highlighter on layer 3.5
-		this.highlighterLayerCtx.lineWidth = this.getCurrentStrokeWidth();
-		this.highlighterLayerCtx.lineCap = 'round';
-		this.highlighterLayerCtx.lineJoin = 'round';
-		this.highlighterLayerCtx.strokeStyle = this.getCurrentColor();
-		this.highlighterLayerCtx.globalCompositeOperation = 'source-over';
-		this.highlighterLayerCtx.globalAlpha = 1; // Full opacity on layer 3.5
-		
-		// Draw on highlighter layer
-		this.highlighterLayerCtx.beginPath();
-		this.highlighterLayerCtx.moveTo(this.lastX, this.lastY);
-		this.highlighterLayerCtx.lineTo(x, y);
-		this.highlighterLayerCtx.stroke();
-	}
-	
-	// Handle shape drawing (preview mode)
-	private handleShapeDrawing(x: number, y: number) {
-		if (!this.editLayerCtx || !this.editLayerCanvas) return;
-		
-		// Restore from backup for preview
-		if (this.editLayerBackup) {
-			this.editLayerCtx.putImageData(this.editLayerBackup, 0, 0);
-		}
-		
-		// Set drawing properties
-		this.editLayerCtx.lineWidth = this.getCurrentStrokeWidth();
-		this.editLayerCtx.lineCap = 'round';
-		this.editLayerCtx.lineJoin = 'round';
-		this.editLayerCtx.strokeStyle = this.getCurrentColor();
-		this.editLayerCtx.globalCompositeOperation = 'source-over';
-		this.editLayerCtx.globalAlpha = 1;
-		
-		// Draw shape based on current tool
-		switch (this.currentTool) {
-			case 'line':
-				this.editLayerCtx.beginPath();
-				this.editLayerCtx.moveTo(this.lastX, this.lastY);
-				this.editLayerCtx.lineTo(x, y);
-				this.editLayerCtx.stroke();
-				break;
-			case 'wavy-line':
-				this.drawWavyLineOnEditLayer(this.lastX, this.lastY, x, y);
-				break;
-			case 'dashed-line':
-				this.drawDashedLineOnEditLayer(this.lastX, this.lastY, x, y);
-				break;
-			case 'dotted-line':
-				this.drawDottedLineOnEditLayer(this.lastX, this.lastY, x, y);
-				break;
-			case 'rectangle':
-				this.drawRectangleOnEditLayer(this.lastX, this.lastY, x, y);
-				break;
-			case 'ellipse':
-				this.drawEllipseOnEditLayer(this.lastX, this.lastY, x, y);
-				break;
-			case 'arrow':
-				this.drawArrowOnEditLayer(this.lastX, this.lastY, x, y);
-				break;
+		const strokeSize = this.getCurrentStrokeSize();
+		this.selectedAnnotationId = null;
+		this.openTextEditor({
+			id: generateAnnotationId(),
+			type: 'text',
+			color: this.getCurrentColor(),
+			strokeSize,
+			thickness: 0,
+			position: point,
+			text: '',
+			fontSize: TEXT_FONT_SIZES[strokeSize],
+			background: this.textBackground
+		}, true);
+	}
+	
+	/**
+	 * 在画布上方放置一个与文字标注等大的输入框进行原位编辑，失焦或 Ctrl/Cmd+Enter 提交，Esc 取消
+	 */
+	private openTextEditor(annotation: TextAnnotation, isNew: boolean) {
+		if (!this.canvas || !this.canvasContainer) return;
+		
+		const input = this.canvasContainer.createEl('textarea', { cls: 'image-editor-text-input' });
+		input.value = annotation.text;
+		input.spellcheck = false;
+		this.textEditor = { input, annotation: cloneAnnotation(annotation), isNew };
+		this.selectedAnnotationId = null;
+		
+		this.layoutTextEditor();
+		this.renderAllLayers();
+		
+		input.addEventListener('input', () => this.layoutTextEditor());
+		input.addEventListener('keydown', (e: KeyboardEvent) => {
+			if (e.key === 'Escape') {
+				e.preventDefault();
+				e.stopPropagation();
+				this.closeTextEditor();
+			} else if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+				e.preventDefault();
+				this.commitTextEditor();
+			}
+		});
+		input.addEventListener('blur', () => this.commitTextEditor());
+		
+		setTimeout(() => input.focus(), 0);
+	}
+	
+	// Place and size the input over the annotation's position at the current zoom
+	private layoutTextEditor() {
+		if (!this.textEditor || !this.canvas) return;
+		const { input, annotation } = this.textEditor;
+		annotation.text = input.value;
+		
+		const rect = this.canvas.getBoundingClientRect();
+		const displayScale = rect.width / (this.canvas.width || 1);
+		const scale = this.userZoom * displayScale;
+		const topLeft = this.zoomedToCanvasCoords(
+			annotation.position.x + this.layersOffset.x,
+			annotation.position.y + this.layersOffset.y
+		);
+		// Keep room for the caret while the text is still empty
+		const size = measureTextAnnotation({ ...annotation, text: input.value || ' ' });
+		
+		input.style.setProperty('--text-left', this.canvas.offsetLeft + topLeft.x * displayScale + 'px');
+		input.style.setProperty('--text-top', this.canvas.offsetTop + topLeft.y * displayScale + 'px');
+		input.style.setProperty('--text-width', (size.width + annotation.fontSize) * scale + 'px');
+		input.style.setProperty('--text-height', size.height * scale + 'px');
+		input.style.setProperty('--text-padding', getTextPadding(annotation.fontSize) * scale + 'px');
+		input.style.setProperty('--text-font', getTextFont(annotation.fontSize * scale));
+		input.style.setProperty('--text-color', annotation.color);
+	}
+	
+	private commitTextEditor() {
+		const editor = this.textEditor;
+		if (!editor) return;
+		
+		const text = editor.input.value.replace(/\s+$/, '');
+		const annotation = { ...editor.annotation, text };
+		const original = this.annotations.find(a => a.id === annotation.id);
+		this.closeTextEditor();
+		
+		if (editor.isNew) {
+			if (!text) return;
+			this.recordOperation({ kind: 'add', annotation, index: this.annotations.length });
+		} else if (original) {
+			const index = this.annotations.indexOf(original);
+			if (!text) {
+				this.recordOperation({ kind: 'remove', annotation: cloneAnnotation(original), index });
+			} else if (text !== (original as TextAnnotation).text) {
+				this.recordOperation({ kind: 'update', before: cloneAnnotation(original), after: annotation });
+			}
 		}
+		
+		// Keep the text selected so colour, size and background apply to it
+		if (text) {
+			this.selectedAnnotationId = annotation.id;
+			this.syncToolbarWithSelection(annotation);
+			this.renderAllLayers();
+		}
+	}
+	
+	private closeTextEditor() {
+		const editor = this.textEditor;
+		if (!editor) return;
+		this.textEditor = null;
+		editor.input.remove();
+		this.renderAllLayers();
 	}
 	
-	// Edit layer versions of drawing methods
-	private drawWavyLineOnEditLayer(x1: number, y1: number, x2: number, y2: number) {
-		// Calculate wave parameters
-		const distance = Math.sqrt(Math.pow(x2 - x1, 2) + Math.pow(y2 - y1, 2));
-		const amplitude = Math.max(3, this.getCurrentStrokeWidth() * 1.2); // Reduced amplitude
-		const frequency = distance / 50; // Reduced frequency for smaller waves
+	// Commit the annotation being drawn as one history entry
+	private finishDrawing() {
+		const draft = this.draftAnnotation;
+		this.isDrawing = false;
+		this.draftAnnotation = null;
+		if (!draft) return;
 		
-		this.editLayerCtx!.beginPath();
-		this.editLayerCtx!.moveTo(x1, y1);
+		// A click without dragging doesn't cover anything
+		if (isRedactionAnnotation(draft) || isSpotlightAnnotation(draft)) {
+			const bounds = getAnnotationBounds(draft);
+			if (bounds.width < 2 || bounds.height < 2) {
+				this.renderAllLayers();
+				return;
+			}
+		}
+		if (isMagnifierAnnotation(draft)) {
+			const area = getMagnifierSource(draft);
+			if (area.width < 4 || area.height < 4) {
+				this.renderAllLayers();
+				return;
+			}
+			draft.target = this.placeMagnifier(area);
+		}
 		
-		// Draw wavy line
-		for (let i = 0; i <= 100; i++) {
-			const t = i / 100;
-			const x = x1 + (x2 - x1) * t;
-			const y = y1 + (y2 - y1) * t;
-			
-			// Calculate perpendicular offset for wave
-			const angle = Math.atan2(y2 - y1, x2 - x1) + Math.PI / 2;
-			const waveOffset = Math.sin(t * frequency * Math.PI * 2) * amplitude;
-			
-			const waveX = x + Math.cos(angle) * waveOffset;
-			const waveY = y + Math.sin(angle) * waveOffset;
-			
-			this.editLayerCtx!.lineTo(waveX, waveY);
+		this.recordOperation({ kind: 'add', annotation: draft, index: this.annotations.length });
+	}
+	
+	/**
+	 * Spot for the enlarged copy of `area`: beside it on the right, or on the left when that
+	 * runs off the capture, kept inside the capture vertically
+	 */
+	private placeMagnifier(area: Region): Region {
+		const bounds = this.fullScreenshotSize;
+		const width = Math.min(Math.round(area.width * MAGNIFIER_ZOOM), bounds.width);
+		const height = Math.min(Math.round(area.height * MAGNIFIER_ZOOM), bounds.height);
+		
+		let x = area.x + area.width + MAGNIFIER_GAP;
+		if (x + width > bounds.width) {
+			x = area.x - MAGNIFIER_GAP - width;
+		}
+		x = Math.max(0, Math.min(x, bounds.width - width));
+		const y = Math.max(0, Math.min(area.y + (area.height - height) / 2, bounds.height - height));
+		return { x: Math.round(x), y: Math.round(y), width, height };
+	}
+	
+	private getSelectedAnnotation(): Annotation | null {
+		if (!this.selectedAnnotationId) return null;
+		return this.annotations.find(annotation => annotation.id === this.selectedAnnotationId) || null;
+	}
+	
+	// Bounding box of an annotation including its line width
+	private getSelectionBounds(annotation: Annotation): Region {
+		const bounds = getAnnotationBounds(annotation);
+		const pad = annotation.thickness / 2 + 4 / this.userZoom;
+		return {
+			x: bounds.x - pad,
+			y: bounds.y - pad,
+			width: bounds.width + pad * 2,
+			height: bounds.height + pad * 2
+		};
+	}
+	
+	private getSelectionHandles(bounds: Region): Record<SelectionHandle, Point> {
+		return {
+			'top-left': { x: bounds.x, y: bounds.y },
+			'top-right': { x: bounds.x + bounds.width, y: bounds.y },
+			'bottom-left': { x: bounds.x, y: bounds.y + bounds.height },
+			'bottom-right': { x: bounds.x + bounds.width, y: bounds.y + bounds.height }
+		};
+	}
+	
+	/**
+	 * 选择工具按下：优先命中已选对象的缩放手柄，其次命中任意对象开始移动，点在空白处则取消选择
+	 */
+	private startAnnotationSelection(point: Point) {
+		const tolerance = 6 / this.userZoom;
+		const selected = this.getSelectedAnnotation();
+		
+		if (selected) {
+			const bounds = getAnnotationBounds(selected);
+			const handles = this.getSelectionHandles(this.getSelectionBounds(selected));
+			const opposite: Record<SelectionHandle, Point> = {
+				'top-left': { x: bounds.x + bounds.width, y: bounds.y + bounds.height },
+				'top-right': { x: bounds.x, y: bounds.y + bounds.height },
+				'bottom-left': { x: bounds.x + bounds.width, y: bounds.y },
+				'bottom-right': { x: bounds.x, y: bounds.y }
+			};
+			const handle = (Object.keys(handles) as SelectionHandle[]).find(key =>
+				Math.abs(handles[key].x - point.x) <= tolerance && Math.abs(handles[key].y - point.y) <= tolerance
+			);
+			if (handle) {
+				this.annotationDrag = { mode: 'resize', handle, start: point, original: cloneAnnotation(selected), anchor: opposite[handle] };
+				return;
+			}
+		}
+		
+		const index = findAnnotationAt(this.annotations, point, tolerance);
+		if (index < 0) {
+			this.selectedAnnotationId = null;
+			this.renderAllLayers();
+			return;
 		}
 		
-		this.editLayerCtx!.stroke();
+		const annotation = this.annotations[index];
+		this.selectedAnnotationId = annotation.id;
+		this.annotationDrag = { mode: 'move', handle: null, start: point, original: cloneAnnotation(annotation), anchor: point };
+		this.syncToolbarWithSelection(annotation);
+		this.renderAllLayers();
+	}
+	
+	// Live preview of a move / resize, the history entry is recorded on mouse up
+	private dragSelectedAnnotation(point: Point) {
+		const drag = this.annotationDrag;
+		if (!drag) return;
+		const index = this.annotations.findIndex(annotation => annotation.id === drag.original.id);
+		if (index < 0) return;
+		
+		if (drag.mode === 'move') {
+			const dx = point.x - drag.start.x;
+			const dy = point.y - drag.start.y;
+			this.annotations[index] = mapAnnotationPoints(drag.original, p => ({ x: p.x + dx, y: p.y + dy }));
+		} else {
+			// Scale relative to the opposite corner, the handle follows the pointer
+			const bounds = getAnnotationBounds(drag.original);
+			const handleX = drag.anchor.x === bounds.x ? bounds.x + bounds.width : bounds.x;
+			const handleY = drag.anchor.y === bounds.y ? bounds.y + bounds.height : bounds.y;
+			const spanX = handleX - drag.anchor.x;
+			const spanY = handleY - drag.anchor.y;
+			const scaleX = spanX === 0 ? 1 : (point.x - drag.anchor.x) / spanX;
+			const scaleY = spanY === 0 ? 1 : (point.y - drag.anchor.y) / spanY;
+			this.annotations[index] = mapAnnotationPoints(drag.original, p => ({
+				x: drag.anchor.x + (p.x - drag.anchor.x) * scaleX,
+				y: drag.anchor.y + (p.y - drag.anchor.y) * scaleY
+			}));
+		}
+		this.renderAllLayers();
 	}
 	
-	private drawDashedLineOnEditLayer(x1: number, y1: number, x2: number, y2: number) {
-		// Set dash pattern
-		const dashLength = Math.max(8, this.getCurrentStrokeWidth() * 3);
-		this.editLayerCtx!.setLineDash([dashLength, dashLength / 2]);
+	private finishAnnotationDrag() {
+		const drag = this.annotationDrag;
+		this.annotationDrag = null;
+		if (!drag) return;
 		
-		this.editLayerCtx!.beginPath();
-		this.editLayerCtx!.moveTo(x1, y1);
-		this.editLayerCtx!.lineTo(x2, y2);
-		this.editLayerCtx!.stroke();
+		const current = this.annotations.find(annotation => annotation.id === drag.original.id);
+		if (!current || JSON.stringify(current) === JSON.stringify(drag.original)) return;
 		
-		// Reset dash pattern
-		this.editLayerCtx!.setLineDash([]);
+		// The list already shows the result, so record without re-applying
+		this.pushHistory({ kind: 'update', before: drag.original, after: cloneAnnotation(current) });
+	}
+	
+	// Apply a change to the selected annotation as one history entry
+	private updateSelectedAnnotation(update: (annotation: Annotation) => Annotation) {
+		const selected = this.getSelectedAnnotation();
+		if (!selected) return;
+		const after = update(cloneAnnotation(selected));
+		this.recordOperation({ kind: 'update', before: cloneAnnotation(selected), after });
+	}
+	
+	private deleteSelectedAnnotation() {
+		const selected = this.getSelectedAnnotation();
+		if (!selected) return;
+		const index = this.annotations.indexOf(selected);
+		this.selectedAnnotationId = null;
+		this.recordOperation({ kind: 'remove', annotation: cloneAnnotation(selected), index });
 	}
 	
-	private drawDottedLineOnEditLayer(x1: number, y1: number, x2: number, y2: number) {
-		// Set dot pattern
-		const dotSize = Math.max(2, this.getCurrentStrokeWidth());
-		const spacing = dotSize * 3;
-		this.editLayerCtx!.setLineDash([dotSize, spacing]);
+	// Show the selected annotation's colour and size in the toolbar
+	private syncToolbarWithSelection(annotation: Annotation) {
+		const toolbar = document.querySelector('.image-editor-toolbar');
+		const toolbarData = toolbar ? this.toolbarElements.get(toolbar as HTMLElement) : undefined;
+		if (toolbarData?.colorPicker) {
+			toolbarData.colorPicker.value = annotation.color;
+		}
+		if (toolbarData?.textBackgroundButton && isTextAnnotation(annotation)) {
+			toolbarData.textBackgroundButton.toggleClass('active', annotation.background);
+		}
+		if (toolbarData?.spotlightOpacityInput && isSpotlightAnnotation(annotation)) {
+			toolbarData.spotlightOpacityInput.value = String(annotation.opacity);
+		}
+		if (toolbarData?.stepConnectorButton && isStepAnnotation(annotation)) {
+			toolbarData.stepConnectorButton.toggleClass('active', annotation.connector);
+		}
+		if (toolbarData?.magnifierConnectorButton && isMagnifierAnnotation(annotation)) {
+			toolbarData.magnifierConnectorButton.toggleClass('active', annotation.connector);
+		}
+	}
+	
+	/**
+	 * 裁剪控制：比例预设（自由、1:1、4:3、16:9、自定义）、精确尺寸与位置输入、边缘吸附开关
+	 * 数值均为完整截图的像素，位置通过移动底图实现，裁剪框本身保持固定
+	 */
+	private createCropControls(toolbar: HTMLElement) {
+		const container = toolbar.createDiv({ cls: 'image-editor-crop-controls' });
+		
+		const aspectSelect = container.createEl('select', { cls: 'dropdown image-editor-crop-aspect' });
+		aspectSelect.setAttribute('aria-label', t('imageEditor.cropAspectTooltip'));
+		CROP_ASPECT_PRESETS.forEach(preset => {
+			const label = preset === 'free' ? t('imageEditor.cropAspectFree')
+				: preset === 'custom' ? t('imageEditor.cropAspectCustom')
+				: preset;
+			aspectSelect.createEl('option', { value: preset, text: label });
+		});
+		aspectSelect.value = this.cropAspect;
+		
+		const customAspectInput = container.createEl('input', { type: 'text', cls: 'image-editor-crop-custom-aspect' });
+		customAspectInput.value = this.cropCustomAspect;
+		customAspectInput.placeholder = '3:2';
+		customAspectInput.toggle(this.cropAspect === 'custom');
+		
+		aspectSelect.addEventListener('change', () => {
+			this.cropAspect = aspectSelect.value as CropAspectPreset;
+			customAspectInput.toggle(this.cropAspect === 'custom');
+			this.applyCropAspect();
+		});
+		customAspectInput.addEventListener('change', () => {
+			this.cropCustomAspect = customAspectInput.value.trim();
+			this.applyCropAspect();
+		});
 		
-		this.editLayerCtx!.beginPath();
-		this.editLayerCtx!.moveTo(x1, y1);
-		this.editLayerCtx!.lineTo(x2, y2);
-		this.editLayerCtx!.stroke();
+		const fields: { key: 'width' | 'height' | 'x' | 'y', label: string }[] = [
+			{ key: 'width', label: 'W' },
+			{ key: 'height', label: 'H' },
+			{ key: 'x', label: 'X' },
+			{ key: 'y', label: 'Y' }
+		];
+		const inputs = {} as Record<'x' | 'y' | 'width' | 'height', HTMLInputElement>;
+		fields.forEach(({ key, label }) => {
+			container.createEl('label', { text: label, cls: 'image-editor-crop-label' });
+			const input = container.createEl('input', { type: 'number', cls: 'image-editor-crop-input' });
+			input.min = key === 'width' || key === 'height' ? String(MIN_CROP_SIZE) : '0';
+			input.step = '1';
+			input.addEventListener('change', () => {
+				const value = parseInt(input.value, 10);
+				if (isNaN(value)) {
+					this.updateCropInputs();
+					return;
+				}
+				this.setCropValue(key, value);
+			});
+			inputs[key] = input;
+		});
+		this.cropInputs = inputs;
+		
+		const snapButton = container.createEl('button', { cls: 'btn-base btn-icon non-tool image-editor-crop-snap-button' });
+		setIcon(snapButton, 'magnet');
+		snapButton.setAttribute('data-tooltip', t('imageEditor.cropSnapTooltip'));
+		snapButton.toggleClass('active', this.cropSnap);
+		snapButton.addEventListener('click', () => {
+			this.cropSnap = !this.cropSnap;
+			snapButton.toggleClass('active', this.cropSnap);
+		});
 		
-		// Reset dash pattern
-		this.editLayerCtx!.setLineDash([]);
+		this.updateCropInputs();
+	}
+	
+	private getCropAspectRatio(): number | null {
+		return parseAspectRatio(this.cropAspect, this.cropCustomAspect);
+	}
+	
+	// Reshape the crop frame to the selected ratio around its centre
+	private applyCropAspect() {
+		const ratio = this.getCropAspectRatio();
+		if (!ratio || !this.cropModeActive) return;
+		
+		const area = this.getCropArea();
+		if (!area) return;
+		const fitted = fitCropToAspect(area, ratio, this.fullScreenshotSize);
+		this.cropRect = {
+			x: this.cropRect.x + fitted.x - area.x,
+			y: this.cropRect.y + fitted.y - area.y,
+			width: fitted.width,
+			height: fitted.height
+		};
+		this.updateCropInputs();
+		this.renderAllLayers();
+	}
+	
+	// Apply a value typed into the crop panel
+	private setCropValue(key: 'width' | 'height' | 'x' | 'y', value: number) {
+		const ratio = this.getCropAspectRatio();
+		const { width: maxWidth, height: maxHeight } = this.fullScreenshotSize;
+		
+		switch (key) {
+			case 'width':
+				this.cropRect.width = Math.max(MIN_CROP_SIZE, Math.min(maxWidth, value));
+				if (ratio) this.cropRect.height = Math.max(MIN_CROP_SIZE, Math.round(this.cropRect.width / ratio));
+				break;
+			case 'height':
+				this.cropRect.height = Math.max(MIN_CROP_SIZE, Math.min(maxHeight, value));
+				if (ratio) this.cropRect.width = Math.max(MIN_CROP_SIZE, Math.round(this.cropRect.height * ratio));
+				break;
+			case 'x':
+				// The crop frame is fixed, so moving the crop means moving the layers under it
+				this.layersOffset.x = this.cropRect.x - Math.max(0, value);
+				break;
+			case 'y':
+				this.layersOffset.y = this.cropRect.y - Math.max(0, value);
+				break;
+		}
+		this.updateCropInputs();
+		this.renderAllLayers();
+	}
+	
+	private updateCropInputs() {
+		this.updateOutputSizeLabel();
+		const inputs = this.cropInputs;
+		const area = this.getCropArea();
+		if (!inputs || !area) return;
+		
+		(Object.keys(inputs) as ('x' | 'y' | 'width' | 'height')[]).forEach(key => {
+			const input = inputs[key];
+			// Don't overwrite a value the user is still typing
+			if (document.activeElement !== input) {
+				input.value = String(Math.round(area[key]));
+			}
+		});
 	}
 	
-	private drawRectangleOnEditLayer(x1: number, y1: number, x2: number, y2: number) {
-		const width = x2 - x1;
-		const height = y2 - y1;
+	private getLuminanceMap(): LuminanceMap | null {
+		if (!this.luminanceMap && this.fullScreenshotImage) {
+			this.luminanceMap = buildLuminanceMap(this.fullScreenshotImage, this.fullScreenshotSize.width, this.fullScreenshotSize.height);
+		}
+		return this.luminanceMap;
+	}
+	
+	// Move the dragged crop edge onto a nearby content edge of the screenshot
+	private snapCropEdge(handle: string) {
+		const map = this.getLuminanceMap();
+		if (!map) return;
 		
-		this.editLayerCtx!.strokeRect(x1, y1, width, height);
+		const rect = this.cropRect;
+		const offset = this.layersOffset;
+		const distance = CROP_SNAP_DISTANCE / (this.displayScale * this.userZoom);
+		
+		if (handle === 'left' || handle === 'right') {
+			const edge = handle === 'left' ? rect.x : rect.x + rect.width;
+			const snapped = findSnapEdge(map, 'x', edge - offset.x, rect.y - offset.y, rect.y + rect.height - offset.y, distance);
+			if (snapped === null) return;
+			const delta = snapped + offset.x - edge;
+			const width = handle === 'left' ? rect.width - delta : rect.width + delta;
+			if (width < MIN_CROP_SIZE) return;
+			if (handle === 'left') rect.x += delta;
+			rect.width = width;
+		} else {
+			const edge = handle === 'top' ? rect.y : rect.y + rect.height;
+			const snapped = findSnapEdge(map, 'y', edge - offset.y, rect.x - offset.x, rect.x + rect.width - offset.x, distance);
+			if (snapped === null) return;
+			const delta = snapped + offset.y - edge;
+			const height = handle === 'top' ? rect.height - delta : rect.height + delta;
+			if (height < MIN_CROP_SIZE) return;
+			if (handle === 'top') rect.y += delta;
+			rect.height = height;
+		}
 	}
 	
-	private drawEllipseOnEditLayer(x1: number, y1: number, x2: number, y2: number) {
-		// Calculate ellipse parameters
-		const centerX = (x1 + x2) / 2;
-		const centerY = (y1 + y2) / 2;
-		const radiusX = Math.abs(x2 - x1) / 2;
-		const radiusY = Math.abs(y2 - y1) / 2;
+	/**
+	 * 旋转、翻转按钮与输出尺寸（百分比或最大宽度），都记入撤销历史
+	 */
+	private createTransformControls(toolbar: HTMLElement) {
+		const container = toolbar.createDiv({ cls: 'image-editor-transform-controls' });
+		
+		const transforms: { transform: ImageTransform, icon: string, tooltip: string }[] = [
+			{ transform: 'rotate-ccw', icon: 'rotate-ccw', tooltip: t('imageEditor.rotateLeftTooltip') },
+			{ transform: 'rotate-cw', icon: 'rotate-cw', tooltip: t('imageEditor.rotateRightTooltip') },
+			{ transform: 'flip-horizontal', icon: 'flip-horizontal-2', tooltip: t('imageEditor.flipHorizontalTooltip') },
+			{ transform: 'flip-vertical', icon: 'flip-vertical-2', tooltip: t('imageEditor.flipVerticalTooltip') }
+		];
+		transforms.forEach(({ transform, icon, tooltip }) => {
+			const button = container.createEl('button', { cls: 'btn-base btn-icon non-tool image-editor-transform-button' });
+			setIcon(button, icon);
+			button.setAttribute('data-tooltip', tooltip);
+			button.addEventListener('click', () => {
+				if (!this.fullScreenshotImage) return;
+				this.commitTextEditor();
+				this.recordOperation({ kind: 'transform', transform });
+			});
+		});
 		
-		this.editLayerCtx!.beginPath();
-		this.editLayerCtx!.ellipse(centerX, centerY, radiusX, radiusY, 0, 0, 2 * Math.PI);
-		this.editLayerCtx!.stroke();
+		const select = container.createEl('select', { cls: 'dropdown image-editor-output-scale' });
+		select.setAttribute('aria-label', t('imageEditor.outputScaleTooltip'));
+		OUTPUT_SCALE_PERCENTS.forEach(percent => {
+			select.createEl('option', { value: String(percent), text: `${percent}%` });
+		});
+		select.createEl('option', { value: 'max-width', text: t('imageEditor.outputMaxWidth') });
+		
+		const widthInput = container.createEl('input', { type: 'number', cls: 'image-editor-output-width' });
+		widthInput.min = '1';
+		widthInput.step = '1';
+		
+		const sizeLabel = container.createEl('span', { cls: 'image-editor-output-size' });
+		
+		const readScale = (): OutputScale => {
+			if (select.value === 'max-width') {
+				const width = parseInt(widthInput.value, 10);
+				return { mode: 'max-width', value: width > 0 ? width : 1920 };
+			}
+			return { mode: 'percent', value: parseInt(select.value, 10) };
+		};
+		const onChange = () => {
+			const after = readScale();
+			if (after.mode === this.outputScale.mode && after.value === this.outputScale.value) return;
+			this.recordOperation({ kind: 'output-scale', before: { ...this.outputScale }, after });
+		};
+		select.addEventListener('change', onChange);
+		widthInput.addEventListener('change', onChange);
+		
+		this.outputScaleControls = { select, widthInput, sizeLabel };
+		this.setOutputScale(this.outputScale);
 	}
 	
-	private drawArrowOnEditLayer(x1: number, y1: number, x2: number, y2: number) {
-		// Calculate arrow properties
-		const angle = Math.atan2(y2 - y1, x2 - x1);
-		const arrowLength = Math.max(15, this.getCurrentStrokeWidth() * 4);
-		const arrowAngle = Math.PI / 6; // 30 degrees
+	private setOutputScale(scale: OutputScale) {
+		this.outputScale = { ...scale };
+		const controls = this.outputScaleControls;
+		if (controls) {
+			const isMaxWidth = scale.mode === 'max-width';
+			controls.select.value = isMaxWidth ? 'max-width' : String(scale.value);
+			controls.widthInput.value = isMaxWidth ? String(scale.value) : '1920';
+			controls.widthInput.toggle(isMaxWidth);
+		}
+		this.updateOutputSizeLabel();
+	}
+	
+	// Show the exported dimensions next to the scale control
+	private updateOutputSizeLabel() {
+		if (!this.outputScaleControls) return;
+		const area = this.getCropArea() || { x: 0, y: 0, ...this.fullScreenshotSize };
+		const size = getOutputSize(area, this.outputScale);
+		this.outputScaleControls.sizeLabel.textContent = area.width > 0 ? `${size.width} × ${size.height}` : '';
+	}
+	
+	/**
+	 * Rotate or flip the whole capture. Annotations and the crop area are mapped onto the new
+	 * image, the crop frame keeps its centre on the canvas.
+	 */
+	private applyImageTransform(transform: ImageTransform) {
+		if (!this.fullScreenshotImage || !this.canvas) return;
 		
-		this.editLayerCtx!.beginPath();
-		// Main line
-		this.editLayerCtx!.moveTo(x1, y1);
-		this.editLayerCtx!.lineTo(x2, y2);
+		const size = { ...this.fullScreenshotSize };
+		const crop = this.getCropArea();
 		
-		// Arrow head - left side
-		this.editLayerCtx!.moveTo(x2, y2);
-		this.editLayerCtx!.lineTo(
-			x2 - arrowLength * Math.cos(angle - arrowAngle),
-			y2 - arrowLength * Math.sin(angle - arrowAngle)
-		);
+		this.fullScreenshotImage = transformImage(this.fullScreenshotImage, size, transform);
+		this.fullScreenshotSize = getTransformedSize(size, transform);
+		this.luminanceMap = null;
+		this.redactedBackground = null;
+		this.annotations = this.annotations.map(annotation => transformAnnotation(annotation, transform, size));
 		
-		// Arrow head - right side
-		this.editLayerCtx!.moveTo(x2, y2);
-		this.editLayerCtx!.lineTo(
-			x2 - arrowLength * Math.cos(angle + arrowAngle),
-			y2 - arrowLength * Math.sin(angle + arrowAngle)
-		);
+		if (this.highlighterLayerCanvas) {
+			this.highlighterLayerCanvas.width = this.fullScreenshotSize.width;
+			this.highlighterLayerCanvas.height = this.fullScreenshotSize.height;
+		}
 		
-		this.editLayerCtx!.stroke();
+		if (crop) {
+			const area = transformRegion(crop, transform, size);
+			const centerX = this.cropRect.x + this.cropRect.width / 2;
+			const centerY = this.cropRect.y + this.cropRect.height / 2;
+			this.cropRect = {
+				x: Math.round(centerX - area.width / 2),
+				y: Math.round(centerY - area.height / 2),
+				width: area.width,
+				height: area.height
+			};
+			this.layersOffset = { x: this.cropRect.x - area.x, y: this.cropRect.y - area.y };
+		} else {
+			// The whole capture is exported, keep it centred on the canvas
+			this.layersOffset = {
+				x: (this.canvas.width - this.fullScreenshotSize.width) / 2,
+				y: (this.canvas.height - this.fullScreenshotSize.height) / 2
+			};
+			this.cropRect = { ...this.layersOffset, ...this.fullScreenshotSize };
+		}
+		this.updateCropInputs();
 	}
 	
 	// Helper method to detect crop resize handles
@@ -1718,23 +3030,27 @@ export class ImageEditor extends Modal {
 			return;
 		}
 		
+		// Handle move / resize completion
+		if (this.annotationDrag) {
+			this.finishAnnotationDrag();
+			return;
+		}
+		
 		// Handle drawing completion
 		if (this.isDrawing) {
-			this.isDrawing = false;
-			
-			// For shape tools, clear the backup as drawing is complete
-			if (['line', 'wavy-line', 'dashed-line', 'dotted-line', 'rectangle', 'ellipse', 'arrow'].includes(this.currentTool)) {
-				this.editLayerBackup = null;
-				this.highlighterLayerBackup = null;
-			}
-			
 			// Save to history after drawing is complete
-			this.saveToHistory();
+			this.finishDrawing();
 		}
 	}
 
 	private handleCanvasMouseOut(e: MouseEvent) {
-		this.isDrawing = false;
+		// Keep what was drawn so far when the pointer leaves the canvas
+		if (this.isDrawing) {
+			this.finishDrawing();
+		}
+		if (this.annotationDrag) {
+			this.finishAnnotationDrag();
+		}
 		// Also stop layer dragging if mouse leaves canvas
 		if (this.isDraggingLayers) {
 			this.isDraggingLayers = false;
@@ -1758,6 +3074,7 @@ export class ImageEditor extends Modal {
 			this.layersOffset.y = this.layersStartOffset.y + scaledDeltaY;
 			
 			// Re-render all layers with new offset
+			this.updateCropInputs();
 			this.renderAllLayers();
 		}
 	}
@@ -1829,108 +3146,117 @@ export class ImageEditor extends Modal {
 
 
 
-	private saveToHistory() {
-		if (!this.editLayerCtx || !this.editLayerCanvas || !this.highlighterLayerCtx || !this.highlighterLayerCanvas) return;
-		
-		// Save both edit layer and highlighter layer states
-		const editImageData = this.editLayerCtx.getImageData(0, 0, this.editLayerCanvas.width, this.editLayerCanvas.height);
-		const highlighterImageData = this.highlighterLayerCtx.getImageData(0, 0, this.highlighterLayerCanvas.width, this.highlighterLayerCanvas.height);
-		
-		// Store as a combined state object
-		const combinedState = { edit: editImageData, highlighter: highlighterImageData };
-		
+	// Apply a new operation and record it
+	private recordOperation(op: EditorOperation) {
+		this.applyOperation(op);
+		this.pushHistory(op);
+		this.renderAllLayers();
+		this.refreshDefaultFileName();
+	}
+
+	// Record an operation whose effect is already applied
+	private pushHistory(op: EditorOperation) {
 		this.history = this.history.slice(0, this.historyIndex + 1);
-		this.history.push(combinedState); // No more type assertion needed
+		this.history.push(op);
 		this.historyIndex = this.history.length - 1;
 		
-		if (this.history.length > 20) {
+		if (this.history.length > 100) {
 			this.history.shift();
 			this.historyIndex--;
 		}
 	}
 
-	private restoreFromHistory() {
-		if (!this.editLayerCtx || !this.highlighterLayerCtx || this.historyIndex < 0 || this.historyIndex >= this.history.length) return;
-		
-		const state = this.history[this.historyIndex];
-		
-		// Check if this is the new HistoryState format
-		if (state && typeof state === 'object' && 'edit' in state && 'highlighter' in state) {
-			// New format with both layers
-			const historyState = state as HistoryState;
-			this.editLayerCtx.putImageData(historyState.edit, 0, 0);
-			this.highlighterLayerCtx.putImageData(historyState.highlighter, 0, 0);
+	private applyOperation(op: EditorOperation) {
+		if (op.kind === 'transform') {
+			this.applyImageTransform(op.transform);
+		} else if (op.kind === 'output-scale') {
+			this.setOutputScale(op.after);
 		} else {
-			// Backward compatibility with old single-layer history
-			const imageData = state as ImageData;
-			this.editLayerCtx.putImageData(imageData, 0, 0);
+			applyAnnotationOperation(this.annotations, op);
+		}
+	}
+	
+	private revertOperation(op: EditorOperation) {
+		if (op.kind === 'transform') {
+			this.applyImageTransform(invertImageTransform(op.transform));
+		} else if (op.kind === 'output-scale') {
+			this.setOutputScale(op.before);
+		} else {
+			revertAnnotationOperation(this.annotations, op);
 		}
-		
-		this.renderAllLayers();
 	}
 
 	private undo() {
-		if (this.historyIndex > 0) {
+		if (this.historyIndex >= 0) {
+			this.revertOperation(this.history[this.historyIndex]);
 			this.historyIndex--;
-			this.restoreFromHistory();
-			
-			// Re-render all layers after undo is already done in restoreFromHistory
+			this.dropStaleSelection();
+			this.renderAllLayers();
+			this.refreshDefaultFileName();
 		}
 	}
 
 	private redo() {
 		if (this.historyIndex < this.history.length - 1) {
 			this.historyIndex++;
-			this.restoreFromHistory();
-			
-			// Re-render all layers after redo is already done in restoreFromHistory
+			this.applyOperation(this.history[this.historyIndex]);
+			this.dropStaleSelection();
+			this.renderAllLayers();
+			this.refreshDefaultFileName();
 		}
 	}
 
-	private clearCanvas() {
-		if (!this.ctx || !this.canvas) return;
-		
-		// Clear the edit layer (layer 3)
-		if (this.editLayerCtx && this.editLayerCanvas) {
-			this.editLayerCtx.clearRect(0, 0, this.editLayerCanvas.width, this.editLayerCanvas.height);
+	private dropStaleSelection() {
+		if (this.selectedAnnotationId && !this.getSelectedAnnotation()) {
+			this.selectedAnnotationId = null;
 		}
+	}
+
+	private clearCanvas() {
+		if (!this.ctx || !this.canvas || this.annotations.length === 0) return;
 		
-		// Clear the highlighter layer (layer 3.5)
-		if (this.highlighterLayerCtx && this.highlighterLayerCanvas) {
-			this.highlighterLayerCtx.clearRect(0, 0, this.highlighterLayerCanvas.width, this.highlighterLayerCanvas.height);
-		}
-		
-		// Re-render all layers to show the cleared layers
-		this.renderAllLayers();
-		
-		this.saveToHistory();
+		this.selectedAnnotationId = null;
+		// Clear the edit layer (layer 3) and highlighter layer (layer 3.5) as one undoable step
+		this.recordOperation({ kind: 'clear', annotations: this.annotations.map(a => cloneAnnotation(a)) });
 	}
 
 	private getFileName(): string {
 		// Get user input or generate default filename
 		if (this.fileNameInput && this.fileNameInput.value.trim()) {
 			let fileName = this.fileNameInput.value.trim();
-			// Ensure it has .png extension
-			if (!fileName.toLowerCase().endsWith('.png')) {
-				fileName += '.png';
-			}
+			// Ensure it has the saved format's extension, copies of vault images keep the original format
+			const extension = this.vaultSource ? this.vaultSource.file.extension : this.getSaveFormat();
+			fileName = withImageExtension(fileName, extension);
 			return fileName;
 		}
 		
 		// Fallback to timestamp-based filename
-		const timestamp = formatTimestampForFilename();
-		return `screenshot-${timestamp}.png`;
+		return this.getDefaultFileName();
+	}
+	
+	// Timestamp-based name, mentions the step range when step markers are placed
+	private getDefaultFileName(): string {
+		if (this.vaultSource) {
+			const { basename, extension } = this.vaultSource.file;
+			return `${basename}-annotated.${extension}`;
+		}
+		const timestamp = this.fileNameTimestamp || formatTimestampForFilename();
+		const stepCount = getStepNumbers(this.annotations).size;
+		const steps = stepCount === 0 ? '' : stepCount === 1 ? '-step-1' : `-steps-1-${stepCount}`;
+		return `screenshot-${timestamp}${steps}.${this.saveFormat}`;
+	}
+	
+	// Keep the suggested name in sync with the step markers unless the user typed their own
+	private refreshDefaultFileName() {
+		if (!this.fileNameInput || this.fileNameEdited || this.reviewResolver || this.editTarget) return;
+		this.fileNameInput.value = this.getDefaultFileName();
+		this.validateFileName();
 	}
 	
 	private async saveImageToVault(dataUrl: string, fileName: string): Promise<string | null> {
 		try {
 			// Convert dataUrl to binary data
-			const base64Data = dataUrl.replace(/^data:image\/png;base64,/, "");
-			const binaryData = atob(base64Data);
-			const bytes = new Uint8Array(binaryData.length);
-			for (let i = 0; i < binaryData.length; i++) {
-				bytes[i] = binaryData.charCodeAt(i);
-			}
+			const data = this.dataUrlToArrayBuffer(dataUrl);
 			
 			// Save to plugin's configured save location
 			const vault = this.plugin.app.vault;
@@ -1939,7 +3265,10 @@ export class ImageEditor extends Modal {
 			// Use plugin's default save location or fallback to root
 			let savePath = fileName;
 			const saveLocation = this.plugin.settings.defaultSaveLocation;
-			if (saveLocation && saveLocation.trim() !== '') {
+			if (this.editTarget) {
+				// Re-editing overwrites the image it was opened from
+				savePath = this.editTarget.path;
+			} else if (saveLocation && saveLocation.trim() !== '') {
 				// Ensure save directory exists
 				if (!await adapter.exists(saveLocation)) {
 					await vault.createFolder(saveLocation);
@@ -1948,10 +3277,20 @@ export class ImageEditor extends Modal {
 			}
 			
 			// Write file to vault
-			await vault.adapter.writeBinary(savePath, bytes.buffer);
+			await vault.adapter.writeBinary(savePath, data);
 			
 			getLogger().log('Image saved to vault:', savePath);
 			
+			// Keep the editable state next to the image, a failure here doesn't fail the save
+			try {
+				const edits = this.createEditSidecar();
+				if (edits) {
+					await writeEditSidecar(vault, savePath, edits.sidecar, edits.original);
+				}
+			} catch (error) {
+				getLogger().error('Failed to save edit sidecar:', error);
+			}
+			
 			// Return the path for use in markdown links
 			return savePath;
 			
@@ -1962,69 +3301,123 @@ export class ImageEditor extends Modal {
 		}
 	}
 
+	// Exported area in full screenshot pixels, null when the whole screenshot is exported
+	private getCropArea(): Region | null {
+		if (!this.cropModeActive || !this.extendedRegion) return null;
+		return {
+			x: this.cropRect.x - this.layersOffset.x,
+			y: this.cropRect.y - this.layersOffset.y,
+			width: this.cropRect.width,
+			height: this.cropRect.height
+		};
+	}
+	
+	/**
+	 * Editable state for the sidecar. Only the exported area plus a margin of the capture is kept,
+	 * with redactions, rotation and flips baked in so the sidecar never keeps the pixels they hide. Crop and annotations
+	 * are moved into the coordinates of that area.
+	 */
+	private createEditSidecar(): { sidecar: Omit<EditSidecar, 'originalFile'>, original: ArrayBuffer } | null {
+		if (!this.fullScreenshotImage) return null;
+		
+		const { width, height } = this.fullScreenshotSize;
+		const crop = this.getCropArea();
+		let area: Region = { x: 0, y: 0, width, height };
+		if (crop) {
+			// Same margin the editor shows around a reopened crop
+			const left = Math.max(0, Math.floor(crop.x - crop.width * 0.1));
+			const top = Math.max(0, Math.floor(crop.y - crop.height * 0.1));
+			const right = Math.min(width, Math.ceil(crop.x + crop.width * 1.1));
+			const bottom = Math.min(height, Math.ceil(crop.y + crop.height * 1.1));
+			area = { x: left, y: top, width: Math.max(1, right - left), height: Math.max(1, bottom - top) };
+		}
+		
+		const canvas = document.createElement('canvas');
+		canvas.width = area.width;
+		canvas.height = area.height;
+		const ctx = canvas.getContext('2d')!;
+		ctx.translate(-area.x, -area.y);
+		ctx.drawImage(this.fullScreenshotImage, 0, 0);
+		this.renderRedactions(ctx);
+		
+		const toArea = (point: Point) => ({ x: point.x - area.x, y: point.y - area.y });
+		return {
+			sidecar: {
+				version: EDIT_SIDECAR_VERSION,
+				crop: crop ? { ...crop, x: crop.x - area.x, y: crop.y - area.y } : null,
+				annotations: this.annotations
+					.filter(annotation => !isRedactionAnnotation(annotation))
+					.map(annotation => mapAnnotationPoints(annotation, toArea)),
+				outputScale: { ...this.outputScale },
+				savedAt: new Date().toISOString()
+			},
+			original: base64ToArrayBuffer(canvas.toDataURL('image/png').split(',')[1])
+		};
+	}
+
 	private getFinalCroppedImage(): string {
 		if (!this.canvas || !this.ctx) {
 			return this.canvas?.toDataURL('image/png') || '';
 		}
+		return this.getFinalCanvas().toDataURL('image/png');
+	}
+	
+	// All layers composited without selection UI, at the chosen output scale
+	private getFinalCanvas(): HTMLCanvasElement {
+		// If crop mode is active, return cropped area combining all layers,
+		// otherwise the whole screenshot
+		const area: Region = this.getCropArea()
+			|| { x: 0, y: 0, width: this.fullScreenshotSize.width, height: this.fullScreenshotSize.height };
+		
+		// Create a new canvas with the dimensions of the output area
+		const croppedCanvas = document.createElement('canvas');
+		const croppedCtx = croppedCanvas.getContext('2d')!;
+		
+		croppedCanvas.width = area.width;
+		croppedCanvas.height = area.height;
+		
+		// First, draw the background layer (layer 4) in the output area
+		if (this.fullScreenshotImage) {
+			croppedCtx.drawImage(
+				this.fullScreenshotImage,
+				area.x, area.y, area.width, area.height,
+				0, 0, area.width, area.height
+			);
+			
+			// Bake redactions into the background so the original pixels never reach the output
+			croppedCtx.save();
+			croppedCtx.translate(-area.x, -area.y);
+			this.renderRedactions(croppedCtx);
+			croppedCtx.restore();
+		}
 		
-		// If crop mode is active, return cropped area combining all layers
-		if (this.cropModeActive && this.extendedRegion) {
-			// Create a new canvas with the dimensions of the crop rectangle
-			const croppedCanvas = document.createElement('canvas');
-			const croppedCtx = croppedCanvas.getContext('2d')!;
-			
-			croppedCanvas.width = this.cropRect.width;
-			croppedCanvas.height = this.cropRect.height;
-			
-			// First, draw the background layer (layer 4) in the crop area
-			if (this.fullScreenshotImage) {
-				// Calculate source rectangle from the full screenshot
-				const sourceX = this.cropRect.x - this.layersOffset.x;
-				const sourceY = this.cropRect.y - this.layersOffset.y;
-				
-				croppedCtx.drawImage(
-					this.fullScreenshotImage,
-					sourceX, sourceY, this.cropRect.width, this.cropRect.height,
-					0, 0, this.cropRect.width, this.cropRect.height
-				);
-			}
+		// Then, draw the highlighter layer (layer 3.5) with transparency
+		if (this.highlighterLayerCanvas) {
+			this.rasterizeHighlighterLayer();
 			
-			// Then, draw the highlighter layer (layer 3.5) with transparency
-			if (this.highlighterLayerCanvas) {
-				const sourceX = this.cropRect.x - this.layersOffset.x;
-				const sourceY = this.cropRect.y - this.layersOffset.y;
-				
-				// Apply transparency for highlighter effect
-				croppedCtx.save();
-				croppedCtx.globalAlpha = 0.4;
-				croppedCtx.globalCompositeOperation = 'multiply';
-				
-				croppedCtx.drawImage(
-					this.highlighterLayerCanvas,
-					sourceX, sourceY, this.cropRect.width, this.cropRect.height,
-					0, 0, this.cropRect.width, this.cropRect.height
-				);
-				
-				croppedCtx.restore();
-			}
+			// Apply transparency for highlighter effect
+			croppedCtx.save();
+			croppedCtx.globalAlpha = 0.4;
+			croppedCtx.globalCompositeOperation = 'multiply';
 			
-			// Finally, draw the edit layer (layer 3) in the crop area
-			if (this.editLayerCanvas) {
-				const sourceX = this.cropRect.x - this.layersOffset.x;
-				const sourceY = this.cropRect.y - this.layersOffset.y;
-				
-				croppedCtx.drawImage(
-					this.editLayerCanvas,
-					sourceX, sourceY, this.cropRect.width, this.cropRect.height,
-					0, 0, this.cropRect.width, this.cropRect.height
-				);
-			}
+			croppedCtx.drawImage(
+				this.highlighterLayerCanvas,
+				area.x, area.y, area.width, area.height,
+				0, 0, area.width, area.height
+			);
 			
-			return croppedCanvas.toDataURL('image/png');
+			croppedCtx.restore();
 		}
 		
-		// If no crop mode, return full canvas
-		return this.canvas.toDataURL('image/png');
+		// Finally, draw the annotations (layer 3) at full resolution, without selection UI
+		croppedCtx.save();
+		croppedCtx.translate(-area.x, -area.y);
+		drawSpotlights(croppedCtx, this.annotations, this.fullScreenshotSize);
+		this.renderMagnifiers(croppedCtx, this.annotations);
+		drawAnnotations(croppedCtx, this.annotations.filter(annotation => annotation.type !== 'highlighter'));
+		croppedCtx.restore();
+		
+		return scaleCanvas(croppedCanvas, getOutputSize(area, this.outputScale));
 	}
 
 	/**
@@ -2117,7 +3510,7 @@ export class ImageEditor extends Modal {
 		}
 		
 		const fileName = this.getFileName();
-		if (!fileName) {
+		if (!fileName || this.editTarget) {
 			this.updateFileNameWarning(false);
 			return;
 		}
@@ -2126,7 +3519,11 @@ export class ImageEditor extends Modal {
 			// Determine the target save path
 			let targetPath = fileName;
 			const saveLocation = this.plugin.settings.defaultSaveLocation;
-			if (saveLocation && saveLocation.trim() !== '') {
+			const sourceFolder = this.vaultSource?.file.parent?.path;
+			if (this.vaultSource) {
+				// Copies of vault images go next to the original
+				targetPath = sourceFolder && sourceFolder !== '/' ? `${sourceFolder}/${fileName}` : fileName;
+			} else if (saveLocation && saveLocation.trim() !== '') {
 				targetPath = `${saveLocation}/${fileName}`;
 			}
 			
@@ -2307,6 +3704,26 @@ export class ImageEditor extends Modal {
 		return { x: logicalPoint.x, y: logicalPoint.y };
 	}
 	
+	// Forward transform of canvasToZoomedCoords
+	private zoomedToCanvasCoords(zoomedX: number, zoomedY: number): { x: number, y: number } {
+		if (!this.ctx) return { x: zoomedX, y: zoomedY };
+		
+		const canvasCenterX = (this.canvas?.width || 0) / 2;
+		const canvasCenterY = (this.canvas?.height || 0) / 2;
+		const visualCenterX = canvasCenterX + this.viewportOffset.x;
+		const visualCenterY = canvasCenterY + this.viewportOffset.y;
+		
+		this.ctx.save();
+		this.ctx.translate(this.viewportOffset.x, this.viewportOffset.y);
+		this.ctx.translate(visualCenterX, visualCenterY);
+		this.ctx.scale(this.userZoom, this.userZoom);
+		this.ctx.translate(-visualCenterX, -visualCenterY);
+		const canvasPoint = this.ctx.getTransform().transformPoint(new DOMPoint(zoomedX, zoomedY));
+		this.ctx.restore();
+		
+		return { x: canvasPoint.x, y: canvasPoint.y };
+	}
+	
 	// Special coordinate transformation for crop frame detection (ignores viewport offset)
 	private canvasToCropCoords(canvasX: number, canvasY: number): { x: number, y: number } {
 		// Apply only zoom inverse transformation, not viewport offset
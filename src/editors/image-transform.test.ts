@@ -0,0 +1,80 @@
+import {
+	getOutputSize,
+	getTransformedSize,
+	ImageTransform,
+	invertImageTransform,
+	transformAnnotation,
+	transformPoint,
+	transformRegion
+} from './image-transform';
+import { ShapeAnnotation, StepAnnotation } from '../types';
+
+const TRANSFORMS: ImageTransform[] = ['rotate-cw', 'rotate-ccw', 'flip-horizontal', 'flip-vertical'];
+const size = { width: 200, height: 100 };
+
+describe('transformPoint', () => {
+	it('maps the corners of the image onto the transformed image', () => {
+		expect(transformPoint({ x: 0, y: 0 }, 'rotate-cw', size)).toEqual({ x: 100, y: 0 });
+		expect(transformPoint({ x: 200, y: 0 }, 'rotate-cw', size)).toEqual({ x: 100, y: 200 });
+		expect(transformPoint({ x: 0, y: 0 }, 'rotate-ccw', size)).toEqual({ x: 0, y: 200 });
+		expect(transformPoint({ x: 30, y: 10 }, 'flip-horizontal', size)).toEqual({ x: 170, y: 10 });
+		expect(transformPoint({ x: 30, y: 10 }, 'flip-vertical', size)).toEqual({ x: 30, y: 90 });
+	});
+
+	it('is undone by the inverse transform', () => {
+		const point = { x: 37, y: 81 };
+		TRANSFORMS.forEach(transform => {
+			const moved = transformPoint(point, transform, size);
+			const back = transformPoint(moved, invertImageTransform(transform), getTransformedSize(size, transform));
+			expect(back).toEqual(point);
+		});
+	});
+});
+
+describe('getTransformedSize', () => {
+	it('swaps the sides when rotating', () => {
+		expect(getTransformedSize(size, 'rotate-cw')).toEqual({ width: 100, height: 200 });
+		expect(getTransformedSize(size, 'flip-vertical')).toEqual(size);
+	});
+});
+
+describe('transformRegion', () => {
+	it('keeps regions normalised with the same area', () => {
+		const region = { x: 10, y: 20, width: 50, height: 30 };
+		expect(transformRegion(region, 'rotate-cw', size)).toEqual({ x: 50, y: 10, width: 30, height: 50 });
+		expect(transformRegion(region, 'flip-horizontal', size)).toEqual({ x: 140, y: 20, width: 50, height: 30 });
+	});
+});
+
+describe('transformAnnotation', () => {
+	it('maps both ends of shapes', () => {
+		const arrow: ShapeAnnotation = {
+			id: 'a', type: 'arrow', color: '#f00', strokeSize: 'medium', thickness: 4,
+			start: { x: 10, y: 10 }, end: { x: 50, y: 40 }
+		};
+		const rotated = transformAnnotation(arrow, 'rotate-ccw', size);
+		expect(rotated.start).toEqual({ x: 10, y: 190 });
+		expect(rotated.end).toEqual({ x: 40, y: 150 });
+	});
+
+	it('moves step markers without changing their size', () => {
+		const step: StepAnnotation = {
+			id: 's', type: 'step', color: '#f00', strokeSize: 'medium', thickness: 2,
+			position: { x: 20, y: 30 }, radius: 16, connector: false
+		};
+		const flipped = transformAnnotation(step, 'flip-horizontal', size);
+		expect(flipped.position).toEqual({ x: 180, y: 30 });
+		expect(flipped.radius).toBe(16);
+	});
+});
+
+describe('getOutputSize', () => {
+	it('scales by percentage', () => {
+		expect(getOutputSize({ width: 801, height: 401 }, { mode: 'percent', value: 50 })).toEqual({ width: 401, height: 201 });
+	});
+
+	it('only scales down to a maximum width', () => {
+		expect(getOutputSize({ width: 1600, height: 900 }, { mode: 'max-width', value: 800 })).toEqual({ width: 800, height: 450 });
+		expect(getOutputSize({ width: 600, height: 400 }, { mode: 'max-width', value: 800 })).toEqual({ width: 600, height: 400 });
+	});
+});
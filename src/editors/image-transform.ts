@@ -0,0 +1,132 @@
+import { Annotation, OutputScale, Point, Region } from '../types';
+import { isMagnifierAnnotation, isStepAnnotation, isTextAnnotation, mapAnnotationPoints, measureTextAnnotation } from './annotations';
+
+/**
+ * 旋转、翻转与输出缩放
+ * 旋转和翻转作用于整张截图，标注、裁剪区域随之映射；缩放只在导出时应用
+ */
+
+export type ImageTransform = 'rotate-cw' | 'rotate-ccw' | 'flip-horizontal' | 'flip-vertical';
+
+type Size = { width: number; height: number };
+
+export const DEFAULT_OUTPUT_SCALE: OutputScale = { mode: 'percent', value: 100 };
+
+export function invertImageTransform(transform: ImageTransform): ImageTransform {
+	switch (transform) {
+		case 'rotate-cw': return 'rotate-ccw';
+		case 'rotate-ccw': return 'rotate-cw';
+		default: return transform;
+	}
+}
+
+export function getTransformedSize(size: Size, transform: ImageTransform): Size {
+	return transform === 'rotate-cw' || transform === 'rotate-ccw'
+		? { width: size.height, height: size.width }
+		: { ...size };
+}
+
+// Where a point of an image of `size` ends up after the transform
+export function transformPoint(point: Point, transform: ImageTransform, size: Size): Point {
+	switch (transform) {
+		case 'rotate-cw': return { x: size.height - point.y, y: point.x };
+		case 'rotate-ccw': return { x: point.y, y: size.width - point.x };
+		case 'flip-horizontal': return { x: size.width - point.x, y: point.y };
+		case 'flip-vertical': return { x: point.x, y: size.height - point.y };
+	}
+}
+
+export function transformRegion(region: Region, transform: ImageTransform, size: Size): Region {
+	const a = transformPoint({ x: region.x, y: region.y }, transform, size);
+	const b = transformPoint({ x: region.x + region.width, y: region.y + region.height }, transform, size);
+	return {
+		x: Math.min(a.x, b.x),
+		y: Math.min(a.y, b.y),
+		width: Math.abs(b.x - a.x),
+		height: Math.abs(b.y - a.y)
+	};
+}
+
+/**
+ * Map an annotation onto the transformed image. Text and step markers stay upright and only
+ * move with their centre, everything else is mapped point by point.
+ */
+export function transformAnnotation<T extends Annotation>(annotation: T, transform: ImageTransform, size: Size): T {
+	if (isTextAnnotation(annotation)) {
+		const box = measureTextAnnotation(annotation);
+		const center = transformPoint(
+			{ x: annotation.position.x + box.width / 2, y: annotation.position.y + box.height / 2 },
+			transform,
+			size
+		);
+		return { ...annotation, position: { x: center.x - box.width / 2, y: center.y - box.height / 2 } };
+	}
+	if (isStepAnnotation(annotation)) {
+		return { ...annotation, position: transformPoint(annotation.position, transform, size) };
+	}
+	if (isMagnifierAnnotation(annotation)) {
+		return {
+			...annotation,
+			start: transformPoint(annotation.start, transform, size),
+			end: transformPoint(annotation.end, transform, size),
+			target: transformRegion(annotation.target, transform, size)
+		};
+	}
+	return mapAnnotationPoints(annotation, point => transformPoint(point, transform, size));
+}
+
+export function transformImage(source: CanvasImageSource, size: Size, transform: ImageTransform): HTMLCanvasElement {
+	const target = getTransformedSize(size, transform);
+	const canvas = document.createElement('canvas');
+	canvas.width = target.width;
+	canvas.height = target.height;
+	const ctx = canvas.getContext('2d')!;
+
+	switch (transform) {
+		case 'rotate-cw':
+			ctx.translate(size.height, 0);
+			ctx.rotate(Math.PI / 2);
+			break;
+		case 'rotate-ccw':
+			ctx.translate(0, size.width);
+			ctx.rotate(-Math.PI / 2);
+			break;
+		case 'flip-horizontal':
+			ctx.translate(size.width, 0);
+			ctx.scale(-1, 1);
+			break;
+		case 'flip-vertical':
+			ctx.translate(0, size.height);
+			ctx.scale(1, -1);
+			break;
+	}
+	ctx.drawImage(source, 0, 0);
+	return canvas;
+}
+
+// Exported size for an area of `size` pixels
+export function getOutputSize(size: Size, scale: OutputScale): Size {
+	let factor = 1;
+	if (scale.mode === 'percent') {
+		factor = scale.value / 100;
+	} else if (size.width > scale.value) {
+		factor = scale.value / size.width;
+	}
+	return {
+		width: Math.max(1, Math.round(size.width * factor)),
+		height: Math.max(1, Math.round(size.height * factor))
+	};
+}
+
+export function scaleCanvas(source: HTMLCanvasElement, size: Size): HTMLCanvasElement {
+	if (source.width === size.width && source.height === size.height) return source;
+
+	const canvas = document.createElement('canvas');
+	canvas.width = size.width;
+	canvas.height = size.height;
+	const ctx = canvas.getContext('2d')!;
+	ctx.imageSmoothingEnabled = true;
+	ctx.imageSmoothingQuality = 'high';
+	ctx.drawImage(source, 0, 0, size.width, size.height);
+	return canvas;
+}
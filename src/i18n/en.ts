@@ -17,10 +17,28 @@ export default {
   "settings.enableMinimizedCapture.desc": "⚠ Limited by API, performance may be inconsistent",
   "settings.showMinimizedCaptureButton.name": "Show Minimized Obsidian Window Capture Button",
   "settings.showMinimizedCaptureButton.desc": "Show minimized Obsidian window capture button in ribbon",
+  "settings.captureDelaySeconds.name": "Delayed capture countdown",
+  "settings.captureDelaySeconds.desc": "Seconds the \"Delayed capture\" command waits before taking its snapshot, so menus and tooltips can be opened first. The 3, 5 and 10 second commands keep their own countdown",
+  "settings.captureDelaySeconds.option": "{{seconds}} seconds",
+  "settings.sendLastRegionToAI.name": "Send repeated captures to AI",
+  "settings.sendLastRegionToAI.desc": "\"Capture last region\" adds the image straight to the AI queue instead of opening the editor",
   "settings.showAIChatPanelButton.name": "Show AI Chat Panel Button", 
   "settings.showAIChatPanelButton.desc": "Show AI chat panel button in ribbon",
   "settings.imageFormat.name": "Image format",
   "settings.imageFormat.desc": "Choose the format for saved images",
+  "settings.imageQuality.name": "Image quality",
+  "settings.imageQuality.desc": "Quality of JPG, WebP and AVIF images. Lower values give smaller files",
+  "settings.maxImageDimension.name": "Maximum image size",
+  "settings.maxImageDimension.desc": "Scale saved images down so their longest side fits this size",
+  "settings.maxImageDimension.off": "Full size",
+  "settings.palettes.heading": "Annotation colours",
+  "settings.palettes.pen.name": "Pen palettes",
+  "settings.palettes.pen.desc": "Named colour sets shown in the editor toolbar for the pen, shapes and text",
+  "settings.palettes.highlighter.name": "Highlighter palettes",
+  "settings.palettes.highlighter.desc": "Named colour sets shown in the editor toolbar for the highlighter",
+  "settings.palettes.add": "Add palette",
+  "settings.palettes.namePlaceholder": "Palette name",
+  "settings.palettes.remove": "Remove palette",
   "settings.language.name": "Language",
   "settings.language.desc": "Select the language for the plugin interface. Changes take effect after restarting Obsidian.",
   "settings.removeAreaSelect.name": "Remove area selection",
@@ -80,7 +98,24 @@ export default {
   // Context Settings
   "settings.contextSettings": "Context Settings",
   "settings.maxContextMessages.name": "Max Context Message Blocks",
-  "settings.maxContextMessages.desc": "Maximum number of historical message blocks to include in AI conversations (each block counts as 1 regardless of image count)",
+  "settings.maxContextMessages.desc": "Maximum number of historical message blocks to include in AI conversations (each block counts as 1 regardless of image count). Older blocks are also left out when the conversation would not fit the model's context window",
+  "settings.downloadTokenizerTables.name": "Download tokenizer tables",
+  "settings.downloadTokenizerTables.desc": "Downloads OpenAI's tokenizer tables (a few MB each) from openaipublic.blob.core.windows.net the first time an OpenAI model needs them, checks them against pinned SHA-256 hashes and caches them in the plugin folder. Token counts are exact for OpenAI models when on, and estimated otherwise",
+  "settings.piiRedaction.heading": "Privacy review before sending",
+  "settings.piiRedaction.enabled.name": "Review images for sensitive text",
+  "settings.piiRedaction.enabled.desc": "Before images are added to a conversation, queued or referenced in the message, find emails, phone numbers, keys and IP addresses and confirm the proposed redactions in the image editor",
+  "settings.piiRedaction.ocrModel.name": "OCR model",
+  "settings.piiRedaction.ocrModel.desc": "Vision model that reads the text for the review. It receives every image before redaction, so only a model on this machine (Ollama, LM Studio on localhost) is used unless cloud OCR is allowed",
+  "settings.piiRedaction.ocrModel.none": "Choose a model",
+  "settings.piiRedaction.ocrModel.cloudWarning": "⚠ This model is not running on this machine. Unredacted images are only sent to it when cloud OCR is allowed below",
+  "settings.piiRedaction.allowCloudOcr.name": "Allow cloud OCR model",
+  "settings.piiRedaction.allowCloudOcr.desc": "Let an OCR model outside this machine read the images. Its provider receives every image before anything is redacted",
+  "settings.piiRedaction.rules.name": "Detection rules",
+  "settings.piiRedaction.rules.desc": "Regular expressions matched case-insensitively against the recognized text",
+  "settings.piiRedaction.rules.add": "Add rule",
+  "settings.piiRedaction.rules.namePlaceholder": "Rule name",
+  "settings.piiRedaction.rules.patternPlaceholder": "Regular expression",
+  "settings.piiRedaction.rules.remove": "Remove rule",
 
   // AI Chat Panel
   "settings.aiChatPanel.desc": "Open the AI chat panel to interact with your configured models",
@@ -166,7 +201,13 @@ export default {
   // Commands
   "commands.captureNormal.name": "Capture selected area",
   "commands.captureMinimized.name": "Minimized Obsidian window capture",
+  "commands.captureWindow.name": "Capture application window",
+  "commands.captureDelayed.name": "Delayed capture ({{seconds}}s)",
+  "commands.captureDelayedDefault.name": "Delayed capture (countdown from settings)",
+  "commands.captureLastRegion.name": "Capture last region",
   "commands.toggleAiChat.name": "Toggle AI Chat Panel",
+  "menu.reEditScreenshot": "Re-edit screenshot",
+  "menu.annotateImage": "Annotate with CaptureAI",
 
   
   // Notices
@@ -226,6 +267,19 @@ export default {
   "notice.screenRecordingPermissionDenied": "Screen recording permission denied. Please grant screen recording permission to Obsidian in System Preferences.",
   "notice.windowControlNotAvailable": "Window control not available - please ensure you are running on desktop",
   "notice.minimizedCaptureFailed": "Minimized Obsidian window capture failed: {{message}}",
+  "notice.windowCaptureFailed": "Window capture failed: {{message}}",
+  "notice.noWindowsFound": "No capturable windows found",
+  "notice.delayedCaptureCountdown": "Capturing in {{seconds}}s · Press ESC to cancel",
+  "notice.delayedCaptureCancelled": "Delayed capture cancelled",
+  "notice.noLastRegion": "No previous region yet, select one with a normal capture first",
+  "notice.piiScanning": "Checking images for sensitive text...",
+  "notice.piiReviewCancelled": "Sending cancelled, no images were uploaded",
+  "notice.piiScanFailed": "Privacy review failed, nothing was sent: {{message}}",
+  "notice.piiNoOcrModel": "Choose a vision-capable OCR model in the privacy review settings",
+  "notice.piiCloudOcrBlocked": "The OCR model \"{{model}}\" is not local, so it would see the unredacted image. Choose a local model or allow cloud OCR in the privacy review settings",
+  "notice.noEditSidecar": "No saved edits found for this image",
+  "notice.lastRegionAddedToAI": "Last region captured and added to the AI queue",
+  "notice.windowNoLongerAvailable": "The selected window is no longer available",
   "notice.screenPermissionCheckFailed": "Screen recording permission check failed. Please check system permissions.",
   "notice.noScreenSourcesFound": "No screen sources found - check screen recording permissions",
   "notice.noThumbnailAvailable": "No thumbnail available",
@@ -239,6 +293,10 @@ export default {
   "notice.screenshotCapturedSuccessfully": "Screenshot captured successfully!",
   "notice.screenshotSavedToFile": "Screenshot saved to: {{fileName}}",
   "notice.failedToSaveScreenshot": "Failed to save screenshot: {{message}}",
+  "notice.openImageFailed": "Failed to open image: {{message}}",
+  "notice.imageCopySaved": "✅ Annotated copy saved: {{fileName}}",
+  "notice.imageOverwritten": "✅ Image updated: {{fileName}}",
+  "notice.embedNotUpdated": "Copy saved, but the embed could not be found in the note to update",
   "notice.foundScreenSources": "Found {{count}} screen sources",
   "notice.primarySource": "Primary source: {{name}}",
   "notice.remoteDesktopCapturerAccessible": "Remote desktopCapturer accessible, testing capture...",
@@ -252,6 +310,7 @@ export default {
   "imageEditor.cancelButton": "Cancel",
   "imageEditor.undoButton": "Undo",
   "imageEditor.redoButton": "Redo",
+  "imageEditor.selectTool": "Select",
   "imageEditor.penTool": "Pen",
   "imageEditor.lineTool": "Line",
   "imageEditor.arrowTool": "Arrow",
@@ -262,6 +321,25 @@ export default {
   "imageEditor.handTool": "Hand (Move)",
   "imageEditor.cropTool": "Crop",
   "imageEditor.textTool": "Text",
+  "imageEditor.blurTool": "Blur",
+  "imageEditor.pixelateTool": "Pixelate",
+  "imageEditor.blackBoxTool": "Black box",
+  "imageEditor.spotlightTool": "Spotlight",
+  "imageEditor.spotlightEllipseTool": "Round spotlight",
+  "imageEditor.spotlightOpacityTooltip": "Spotlight dimming",
+  "imageEditor.magnifierTool": "Magnifier",
+  "imageEditor.magnifierConnectorTooltip": "Connect magnifiers to the magnified area",
+  "imageEditor.piiReviewHint": "Review the proposed redactions: remove false positives with the select tool or add more with the redaction tools",
+  "imageEditor.piiReviewConfirm": "Confirm and send",
+  "imageEditor.piiReviewCancel": "Cancel sending",
+  "imageEditor.reEditOverwriteTooltip": "Saving replaces the image you are re-editing",
+  "imageEditor.textBackgroundTooltip": "Text background",
+  "imageEditor.stepTool": "Numbered step",
+  "imageEditor.stepConnectorTooltip": "Connect steps with arrows",
+  "imageEditor.eyedropperTooltip": "Pick a colour from the image",
+  "imageEditor.paletteTooltip": "Colour palette",
+  "imageEditor.untitledPalette": "Untitled palette",
+  "imageEditor.recentColors": "Recent colours",
   "imageEditor.wavyLineTool": "Wavy Line",
   "imageEditor.dashedLineTool": "Dashed Line",
   "imageEditor.dottedLineTool": "Dotted Line",
@@ -294,6 +372,20 @@ export default {
   "imageEditor.redoTooltip": "Redo", 
   "imageEditor.clearCanvasTooltip": "Clear Canvas",
   "imageEditor.fileNameConflictWarning": "File name already exists, will be overwritten when saved",
+  "imageEditor.cropAspectTooltip": "Crop aspect ratio",
+  "imageEditor.cropAspectFree": "Free",
+  "imageEditor.cropAspectCustom": "Custom",
+  "imageEditor.cropSnapTooltip": "Snap crop edges to content (hold Alt to place freely)",
+  "imageEditor.rotateLeftTooltip": "Rotate 90° left",
+  "imageEditor.rotateRightTooltip": "Rotate 90° right",
+  "imageEditor.flipHorizontalTooltip": "Flip horizontally",
+  "imageEditor.flipVerticalTooltip": "Flip vertically",
+  "imageEditor.outputScaleTooltip": "Output size",
+  "imageEditor.outputMaxWidth": "Max width",
+  "imageEditor.formatTooltip": "Image format for this save",
+  "imageEditor.qualityTooltip": "Image quality",
+  "imageEditor.saveAsCopy": "Save as copy",
+  "imageEditor.overwriteOriginal": "Overwrite original",
   "imageEditor.fileNameConflictTooltip": "This file name already exists in the target directory",
   "imageEditor.fileNameInvalidWarning": "File name contains invalid characters or format",
   "imageEditor.fileNameInvalidTooltip": "File name cannot contain: \\ / : * ? \" < > |",
@@ -309,6 +401,12 @@ export default {
   "setKeys.verifyingButton": "Verifying...",
   "setKeys.verifiedButton": "Verified",
   "setKeys.retryButton": "Retry",
+  "setKeys.serverUrlLabel": "Server URL",
+  "setKeys.serverUrlDescription": "Address of the local Ollama or LM Studio server, no API key needed",
+  "setKeys.checkConnectionButton": "Check",
+  "setKeys.checkingConnectionButton": "Checking...",
+  "setKeys.reachableButton": "Reachable",
+  "setKeys.unreachableButton": "Unreachable - Retry",
   "setKeys.baseUrlLabel": "Base URL",
   "setKeys.baseUrlDescription": "Enter the base URL for your custom API endpoint",
   "setKeys.baseUrlPlaceholder": "https://api.example.com/v1",
@@ -325,6 +423,7 @@ export default {
   "setKeys.selectModelPlaceholder": "Select a model...",
   "setKeys.customModelPlaceholder": "Enter model name (e.g., gpt-4-vision-preview)",
   "setKeys.verifyApiKeyFirst": "Verify API key first",
+  "setKeys.checkConnectionFirst": "Check the server connection first",
   "setKeys.enterApiKeyFirst": "Please enter an API key first",
   "setKeys.apiKeyVerified": "✅ {{providerName}} API key verified successfully",
   "setKeys.apiKeyVerificationFailed": "❌ {{providerName}} API key verification failed",
@@ -367,6 +466,13 @@ export default {
   "manageModels.systemPromptLabel": "System Prompt",
   "manageModels.systemPromptDescription": "Custom system prompt for this model (optional)",
   "manageModels.systemPromptPlaceholder": "Enter custom system prompt...",
+  "manageModels.fallbackLabel": "Fallback models",
+  "manageModels.fallbackDescription": "Tried in order when this model is still rate-limited or unavailable after retrying. Models without vision are skipped when images are sent.",
+  "manageModels.fallbackAdd": "Add fallback...",
+  "manageModels.fallbackTextOnly": "Text only, skipped for messages with images",
+  "manageModels.fallbackMoveUp": "Move up",
+  "manageModels.fallbackMoveDown": "Move down",
+  "manageModels.fallbackRemove": "Remove fallback",
   "manageModels.resetToDefaultsButton": "Reset to Defaults",
   "manageModels.settingsResetSuccess": "✅ Settings reset to defaults",
   "manageModels.confirmDeleteTitle": "Delete Model Configuration",
@@ -386,6 +492,10 @@ export default {
   "chatHistory.failedToParse": "❌ Failed to parse conversation",
   "chatHistory.failedToLoad": "❌ Failed to load conversation: {{message}}",
 
+  // Window Picker Modal
+  "windowPicker.title": "Select a window to capture",
+  "windowPicker.untitled": "Untitled window",
+
   // AI Chat View
   "aiChat.title": "CaptureAI",
   "aiChat.assistantTitle": "AI Assistant",
@@ -440,9 +550,22 @@ export default {
   "aiChat.clearAllImages": "Clear All",
   "aiChat.removeThisImage": "Remove this image",
   "aiChat.sendMessageTooltip": "Send message (Enter)",
+  "aiChat.stopGeneratingTooltip": "Stop generating",
+  "aiChat.responseCancelled": "⏹️ Response cancelled",
   "aiChat.nonVisionModelWarning": "Current non-vision model cannot send images",
   "aiChat.nonVisionModelCannotSendImages": "Current non-vision model cannot process images. Please enter a text message or switch to a vision-capable model.",
   "aiChat.nonVisionModelNotice": "Current model does not support vision. Please enter a text message or switch to a vision-capable model.",
+  "aiChat.retrying": "{{provider}} is busy, retrying in {{seconds}}s ({{attempt}}/{{max}})",
+  "aiChat.fallingBack": "{{model}} is unavailable, trying {{fallback}}",
+  "aiError.auth": "{{provider}} rejected the API key. Re-verify the key in Settings > Set Keys.",
+  "aiError.quota": "{{provider}} reports that the account has no quota or credit left. Check the billing settings with the provider. ({{detail}})",
+  "aiError.rate-limit": "{{provider}} is rate limiting requests. Wait a moment and try again, or switch to another model.",
+  "aiError.context-overflow": "The conversation is too long for this model. Start a new conversation, send fewer images, or lower the context settings.",
+  "aiError.content-filter": "{{provider}} blocked the request or its reply with a content filter. Rephrase the message or check the images.",
+  "aiError.timeout": "{{provider}} did not respond in time. Try again, or raise the maximum response time in Manage Models.",
+  "aiError.network": "Could not reach {{provider}}. Check the network connection and the base URL in Settings > Set Keys. ({{detail}})",
+  "aiError.server": "{{provider}} had a server error and did not recover after retrying. Try again later. ({{detail}})",
+  "aiError.unknown": "{{provider}} returned an error: {{detail}}",
 
   // AI Chat Modes
   "aiChat.modes.analyze": "Analyze Image",
@@ -472,6 +595,8 @@ export default {
   "notice.messageDeleted": "Message deleted",
   "notice.failedToDeleteMessage": "Failed to delete message",
   "notice.enterApiKeyFirst": "Please enter an API key first",
+  "notice.localServerReachable": "✅ {{provider}} server is reachable",
+  "notice.localServerUnreachable": "❌ Cannot reach {{provider}} at {{url}}. Is the server running?",
   "notice.imageCopiedToClipboard": "✅ Image copied to clipboard",
   "notice.copyFailedUseSave": "❌ Copy failed, please use save function",
   "notice.failedToParseConversation": "❌ Failed to parse conversation",
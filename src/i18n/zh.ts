@@ -17,10 +17,28 @@ export default {
   "settings.enableMinimizedCapture.desc": "⚠ 受限于 API，使用体验可能不够流畅",
   "settings.showMinimizedCaptureButton.name": "显示最小化Obsidian窗口截图按钮",
   "settings.showMinimizedCaptureButton.desc": "在工具栏中显示最小化Obsidian窗口截图按钮",
+  "settings.captureDelaySeconds.name": "延时截图倒计时",
+  "settings.captureDelaySeconds.desc": "“延时截图”命令在拍摄快照前等待的秒数，便于先打开菜单或悬停提示；3、5、10 秒的命令使用各自的倒计时",
+  "settings.captureDelaySeconds.option": "{{seconds}} 秒",
+  "settings.sendLastRegionToAI.name": "重复截图直接发送到 AI",
+  "settings.sendLastRegionToAI.desc": "“重复截取上次区域”直接将图片加入AI预发送区，而不是打开编辑器",
   "settings.showAIChatPanelButton.name": "显示AI聊天面板按钮",
   "settings.showAIChatPanelButton.desc": "在工具栏中显示AI聊天面板按钮",
   "settings.imageFormat.name": "图像格式",
   "settings.imageFormat.desc": "选择保存图像的格式",
+  "settings.imageQuality.name": "图像质量",
+  "settings.imageQuality.desc": "JPG、WebP 和 AVIF 图像的质量，数值越低文件越小",
+  "settings.maxImageDimension.name": "最大图像尺寸",
+  "settings.maxImageDimension.desc": "保存时将图像缩小，使最长边不超过该尺寸",
+  "settings.maxImageDimension.off": "原始尺寸",
+  "settings.palettes.heading": "标注颜色",
+  "settings.palettes.pen.name": "画笔调色板",
+  "settings.palettes.pen.desc": "在编辑器工具栏中为画笔、形状和文本显示的命名颜色组",
+  "settings.palettes.highlighter.name": "荧光笔调色板",
+  "settings.palettes.highlighter.desc": "在编辑器工具栏中为荧光笔显示的命名颜色组",
+  "settings.palettes.add": "添加调色板",
+  "settings.palettes.namePlaceholder": "调色板名称",
+  "settings.palettes.remove": "删除调色板",
   "settings.language.name": "语言",
   "settings.language.desc": "选择插件界面的语言。更改将在重启Obsidian后生效。",
   "settings.removeAreaSelect.name": "移除区域选择",
@@ -80,7 +98,24 @@ export default {
   // Context Settings
   "settings.contextSettings": "上下文设置",
   "settings.maxContextMessages.name": "最大上下文消息块数",
-  "settings.maxContextMessages.desc": "AI会话时包含的历史消息块最大数量（一个消息块无论包含多少张图片都计为1块）",
+  "settings.maxContextMessages.desc": "AI会话时包含的历史消息块最大数量（一个消息块无论包含多少张图片都计为1块）。对话超出模型上下文窗口时，还会进一步省略较早的消息块",
+  "settings.downloadTokenizerTables.name": "下载分词表",
+  "settings.downloadTokenizerTables.desc": "OpenAI 模型首次需要时，从 openaipublic.blob.core.windows.net 下载 OpenAI 的分词表（每个数 MB），校验固定的 SHA-256 后缓存在插件目录中。开启后 OpenAI 模型的 token 数为精确计数，否则为估算",
+  "settings.piiRedaction.heading": "发送前隐私审查",
+  "settings.piiRedaction.enabled.name": "审查图片中的敏感文字",
+  "settings.piiRedaction.enabled.desc": "图片（预发送区或消息中引用的图片）加入对话之前，识别邮箱、电话号码、密钥和 IP 地址，并在图片编辑器中确认建议的遮挡区域",
+  "settings.piiRedaction.ocrModel.name": "OCR 模型",
+  "settings.piiRedaction.ocrModel.desc": "审查时用于识别文字的视觉模型。它会在遮挡之前收到每一张图片，因此默认只使用本机模型（localhost 上的 Ollama、LM Studio），除非允许云端 OCR",
+  "settings.piiRedaction.ocrModel.none": "请选择模型",
+  "settings.piiRedaction.ocrModel.cloudWarning": "⚠ 该模型不在本机运行。只有在下方允许云端 OCR 后，才会把未遮挡的图片发给它",
+  "settings.piiRedaction.allowCloudOcr.name": "允许使用云端 OCR 模型",
+  "settings.piiRedaction.allowCloudOcr.desc": "允许本机以外的 OCR 模型读取图片。该服务商会在遮挡之前收到每一张图片",
+  "settings.piiRedaction.rules.name": "检测规则",
+  "settings.piiRedaction.rules.desc": "对识别出的文字进行不区分大小写匹配的正则表达式",
+  "settings.piiRedaction.rules.add": "添加规则",
+  "settings.piiRedaction.rules.namePlaceholder": "规则名称",
+  "settings.piiRedaction.rules.patternPlaceholder": "正则表达式",
+  "settings.piiRedaction.rules.remove": "删除规则",
 
   // AI Chat Panel
   "settings.aiChatPanel.desc": "打开AI会话面板与您配置的模型交互",
@@ -179,7 +214,13 @@ export default {
   // Commands
   "commands.captureNormal.name": "截图",
   "commands.captureMinimized.name": "最小化Obsidian窗口截图",
+  "commands.captureWindow.name": "应用窗口截图",
+  "commands.captureDelayed.name": "延时截图（{{seconds}} 秒）",
+  "commands.captureDelayedDefault.name": "延时截图（使用设置中的倒计时）",
+  "commands.captureLastRegion.name": "重复截取上次区域",
   "commands.toggleAiChat.name": "切换到 AI 会话面板",
+  "menu.reEditScreenshot": "重新编辑截图",
+  "menu.annotateImage": "使用 CaptureAI 标注",
 
   
   // Notices
@@ -239,6 +280,19 @@ export default {
   "notice.screenRecordingPermissionDenied": "屏幕录制权限被拒绝。请在系统偏好设置中授予 Obsidian 屏幕录制权限。",
   "notice.windowControlNotAvailable": "窗口控制不可用 - 请确保您在桌面版上运行",
   "notice.minimizedCaptureFailed": "最小化Obsidian窗口截图失败: {{message}}",
+  "notice.windowCaptureFailed": "窗口截图失败: {{message}}",
+  "notice.noWindowsFound": "未找到可截取的窗口",
+  "notice.delayedCaptureCountdown": "{{seconds}} 秒后截图 · 按 ESC 取消",
+  "notice.delayedCaptureCancelled": "延时截图已取消",
+  "notice.noLastRegion": "还没有上次截图区域，请先进行一次普通截图",
+  "notice.piiScanning": "正在检查图片中的敏感文字...",
+  "notice.piiReviewCancelled": "已取消发送，没有上传任何图片",
+  "notice.piiScanFailed": "隐私审查失败，未发送任何内容：{{message}}",
+  "notice.piiNoOcrModel": "请在隐私审查设置中选择支持视觉的 OCR 模型",
+  "notice.piiCloudOcrBlocked": "OCR 模型“{{model}}”不在本机运行，会看到未遮挡的图片。请选择本地模型，或在隐私审查设置中允许云端 OCR",
+  "notice.noEditSidecar": "没有找到这张图片的编辑记录",
+  "notice.lastRegionAddedToAI": "已截取上次区域并加入AI预发送区",
+  "notice.windowNoLongerAvailable": "所选窗口已不可用",
   "notice.screenPermissionCheckFailed": "屏幕录制权限检查失败。请检查系统权限。",
   "notice.noScreenSourcesFound": "未找到屏幕源 - 请检查屏幕录制权限",
   "notice.noThumbnailAvailable": "无缩略图可用",
@@ -252,6 +306,10 @@ export default {
   "notice.screenshotCapturedSuccessfully": "截图成功!",
   "notice.screenshotSavedToFile": "截图已保存到: {{fileName}}",
   "notice.failedToSaveScreenshot": "保存截图失败: {{message}}",
+  "notice.openImageFailed": "打开图片失败：{{message}}",
+  "notice.imageCopySaved": "✅ 已保存标注副本：{{fileName}}",
+  "notice.imageOverwritten": "✅ 已更新图片：{{fileName}}",
+  "notice.embedNotUpdated": "副本已保存，但未能在笔记中找到对应的嵌入进行更新",
   "notice.foundScreenSources": "找到 {{count}} 个屏幕源",
   "notice.primarySource": "主要源: {{name}}",
   "notice.remoteDesktopCapturerAccessible": "远程 desktopCapturer 可访问，正在测试截取...",
@@ -265,6 +323,7 @@ export default {
   "imageEditor.cancelButton": "取消",
   "imageEditor.undoButton": "撤销",
   "imageEditor.redoButton": "重做",
+  "imageEditor.selectTool": "选择",
   "imageEditor.penTool": "画笔",
   "imageEditor.lineTool": "直线",
   "imageEditor.arrowTool": "箭头",
@@ -275,6 +334,25 @@ export default {
   "imageEditor.handTool": "移动工具",
   "imageEditor.cropTool": "裁剪",
   "imageEditor.textTool": "文本",
+  "imageEditor.blurTool": "模糊",
+  "imageEditor.pixelateTool": "马赛克",
+  "imageEditor.blackBoxTool": "黑框遮挡",
+  "imageEditor.spotlightTool": "聚光灯",
+  "imageEditor.spotlightEllipseTool": "圆形聚光灯",
+  "imageEditor.spotlightOpacityTooltip": "聚光灯暗度",
+  "imageEditor.magnifierTool": "放大镜",
+  "imageEditor.magnifierConnectorTooltip": "用连接线连接放大区域",
+  "imageEditor.piiReviewHint": "请检查建议的遮挡区域：用选择工具删除误报，或用打码工具补充遮挡",
+  "imageEditor.piiReviewConfirm": "确认并发送",
+  "imageEditor.piiReviewCancel": "取消发送",
+  "imageEditor.reEditOverwriteTooltip": "保存时将覆盖正在重新编辑的图片",
+  "imageEditor.textBackgroundTooltip": "文本背景",
+  "imageEditor.stepTool": "步骤编号",
+  "imageEditor.stepConnectorTooltip": "用箭头连接步骤",
+  "imageEditor.eyedropperTooltip": "从图片中取色",
+  "imageEditor.paletteTooltip": "调色板",
+  "imageEditor.untitledPalette": "未命名调色板",
+  "imageEditor.recentColors": "最近使用的颜色",
   "imageEditor.wavyLineTool": "波浪线",
   "imageEditor.dashedLineTool": "虚线",
   "imageEditor.dottedLineTool": "点线",
@@ -308,6 +386,20 @@ export default {
   "imageEditor.redoTooltip": "重做", 
   "imageEditor.clearCanvasTooltip": "清空画布",
   "imageEditor.fileNameConflictWarning": "文件名已存在，保存时将被覆盖",
+  "imageEditor.cropAspectTooltip": "裁剪比例",
+  "imageEditor.cropAspectFree": "自由",
+  "imageEditor.cropAspectCustom": "自定义",
+  "imageEditor.cropSnapTooltip": "裁剪边缘吸附到内容边缘（按住 Alt 可自由放置）",
+  "imageEditor.rotateLeftTooltip": "向左旋转 90°",
+  "imageEditor.rotateRightTooltip": "向右旋转 90°",
+  "imageEditor.flipHorizontalTooltip": "水平翻转",
+  "imageEditor.flipVerticalTooltip": "垂直翻转",
+  "imageEditor.outputScaleTooltip": "输出尺寸",
+  "imageEditor.outputMaxWidth": "最大宽度",
+  "imageEditor.formatTooltip": "本次保存的图像格式",
+  "imageEditor.qualityTooltip": "图像质量",
+  "imageEditor.saveAsCopy": "另存为副本",
+  "imageEditor.overwriteOriginal": "覆盖原图",
   "imageEditor.fileNameConflictTooltip": "该文件名在目标目录中已存在",
   "imageEditor.fileNameInvalidWarning": "文件名包含非法字符或格式不正确",
   "imageEditor.fileNameInvalidTooltip": "文件名不能包含以下字符: \\ / : * ? \" < > |",
@@ -323,6 +415,12 @@ export default {
   "setKeys.verifyingButton": "验证中...",
   "setKeys.verifiedButton": "已验证",
   "setKeys.retryButton": "重试",
+  "setKeys.serverUrlLabel": "服务地址",
+  "setKeys.serverUrlDescription": "本地 Ollama 或 LM Studio 服务的地址，无需 API 密钥",
+  "setKeys.checkConnectionButton": "检测",
+  "setKeys.checkingConnectionButton": "检测中...",
+  "setKeys.reachableButton": "可连接",
+  "setKeys.unreachableButton": "无法连接 - 重试",
   "setKeys.baseUrlLabel": "基础 URL",
   "setKeys.baseUrlDescription": "输入自定义 API 端点的基础 URL",
   "setKeys.baseUrlPlaceholder": "https://api.example.com/v1",
@@ -339,6 +437,7 @@ export default {
   "setKeys.selectModelPlaceholder": "选择一个模型...",
   "setKeys.customModelPlaceholder": "输入模型名称 (例如: gpt-4-vision-preview)",
   "setKeys.verifyApiKeyFirst": "请先验证 API 密钥",
+  "setKeys.checkConnectionFirst": "请先检测服务连接",
   "setKeys.enterApiKeyFirst": "请先输入 API 密钥",
   "setKeys.apiKeyVerified": "✅ {{providerName}} API 密钥验证成功",
   "setKeys.apiKeyVerificationFailed": "❌ {{providerName}} API 密钥验证失败",
@@ -381,6 +480,13 @@ export default {
   "manageModels.systemPromptLabel": "系统提示词",
   "manageModels.systemPromptDescription": "此模型的自定义系统提示词(可选)",
   "manageModels.systemPromptPlaceholder": "输入自定义系统提示词...",
+  "manageModels.fallbackLabel": "备用模型",
+  "manageModels.fallbackDescription": "当前模型重试后仍被限流或不可用时，按顺序尝试这些模型。发送图片时会跳过不支持视觉的模型。",
+  "manageModels.fallbackAdd": "添加备用模型...",
+  "manageModels.fallbackTextOnly": "仅文本，发送图片时跳过",
+  "manageModels.fallbackMoveUp": "上移",
+  "manageModels.fallbackMoveDown": "下移",
+  "manageModels.fallbackRemove": "移除备用模型",
   "manageModels.resetToDefaultsButton": "重置为默认值",
   "manageModels.settingsResetSuccess": "✅ 设置已重置为默认值",
   "manageModels.confirmDeleteTitle": "删除模型配置",
@@ -400,6 +506,10 @@ export default {
   "chatHistory.failedToParse": "❌ 解析会话失败",
   "chatHistory.failedToLoad": "❌ 加载会话失败: {{message}}",
 
+  // Window Picker Modal
+  "windowPicker.title": "选择要截取的窗口",
+  "windowPicker.untitled": "无标题窗口",
+
   // AI Chat View
   "aiChat.title": "CaptureAI",
   "aiChat.assistantTitle": "AI 助手",
@@ -455,9 +565,22 @@ export default {
   "aiChat.clearAllImages": "清除全部",
   "aiChat.removeThisImage": "移除此图片",
   "aiChat.sendMessageTooltip": "发送消息 (Enter)",
+  "aiChat.stopGeneratingTooltip": "停止生成",
+  "aiChat.responseCancelled": "⏹️ 已取消回复",
   "aiChat.nonVisionModelWarning": "当前为非视觉模型无法发送图片",
   "aiChat.nonVisionModelCannotSendImages": "当前为非视觉模型无法处理图片。请输入文字消息或切换到支持视觉的模型。",
   "aiChat.nonVisionModelNotice": "当前使用的是非视觉模型，无法处理图片。请输入文字消息或切换到支持视觉的模型。",
+  "aiChat.retrying": "{{provider}} 繁忙，{{seconds}} 秒后重试（{{attempt}}/{{max}}）",
+  "aiChat.fallingBack": "{{model}} 不可用，改用 {{fallback}}",
+  "aiError.auth": "{{provider}} 拒绝了 API Key，请在 设置 > Set Keys 中重新验证。",
+  "aiError.quota": "{{provider}} 提示账户额度或余额不足，请检查该提供商的账单设置。（{{detail}}）",
+  "aiError.rate-limit": "{{provider}} 正在限制请求频率，请稍后重试或切换到其他模型。",
+  "aiError.context-overflow": "对话内容超出了该模型的上下文长度。请新建对话、减少图片或调低上下文设置。",
+  "aiError.content-filter": "{{provider}} 的内容过滤拦截了请求或回复，请调整措辞或检查图片。",
+  "aiError.timeout": "{{provider}} 未在规定时间内响应。请重试，或在 Manage Models 中调大最长响应时间。",
+  "aiError.network": "无法连接到 {{provider}}，请检查网络连接以及 设置 > Set Keys 中的 Base URL。（{{detail}}）",
+  "aiError.server": "{{provider}} 服务器出错，重试后仍未恢复，请稍后再试。（{{detail}}）",
+  "aiError.unknown": "{{provider}} 返回错误：{{detail}}",
 
   // AI Chat Modes
   "aiChat.modes.analyze": "图像分析",
@@ -486,6 +609,8 @@ export default {
   "notice.messageDeleted": "消息已删除",
   "notice.failedToDeleteMessage": "删除消息失败",
   "notice.enterApiKeyFirst": "请先输入API密钥",
+  "notice.localServerReachable": "✅ {{provider}} 服务可连接",
+  "notice.localServerUnreachable": "❌ 无法连接 {{provider}}（{{url}}），请确认服务已启动",
   "notice.imageCopiedToClipboard": "✅ 图片已复制到剪贴板",
   "notice.copyFailedUseSave": "❌ 复制失败，请使用保存功能",
   "notice.failedToParseConversation": "❌ 解析会话失败",
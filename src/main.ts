@@ -1,12 +1,15 @@
-import { Plugin, Notice, addIcon, WorkspaceLeaf } from 'obsidian';
+import { Plugin, Notice, addIcon, WorkspaceLeaf, Editor, Menu, TAbstractFile, TFile } from 'obsidian';
 import { ScreenshotManager } from './managers/screenshot-manager';
-import { ImageEditor } from './editors/image-editor';
+import { PIIRedactionManager } from './managers/pii-redaction-manager';
+import { ImageEditor, VaultImageSource } from './editors/image-editor';
 import { ImageCaptureSettingTab } from './settings/settings-tab';
-import { ImageCaptureSettings, DEFAULT_SETTINGS, getLocalizedPrompts, DEFAULT_PROMPTS } from './types';
+import { ImageCaptureSettings, DEFAULT_SETTINGS, DEFAULT_PII_RULES, DEFAULT_COLOR_PALETTES, ColorPalette, getLocalizedPrompts, DEFAULT_PROMPTS } from './types';
 import { AIManager } from './ai/ai-manager';
 import { AIChatView, AI_CHAT_VIEW_TYPE } from './ai/ai-chat-view';
 import { i18n, t } from './i18n';
 import { initializeLogger, getLogger } from './utils/logger';
+import { findImageEmbedAt, isEditableImageExtension } from './utils/image-embeds';
+import { deleteEditSidecar, hasEditSidecar, moveEditSidecar } from './editors/edit-sidecar';
 
 // Interface definitions for type safety
 interface AIChatViewInterface {
@@ -36,6 +39,7 @@ export default class ImageCapturePlugin extends Plugin {
 	screenshotManager: ScreenshotManager;
 	imageEditor: ImageEditor;
 	aiManager: AIManager;
+	piiRedactionManager: PIIRedactionManager;
 	// Store ribbon icon references for dynamic management
 	private ribbonIcons: Map<string, HTMLElement> = new Map();
 
@@ -54,6 +58,7 @@ export default class ImageCapturePlugin extends Plugin {
 		this.screenshotManager = new ScreenshotManager(this);
 		this.imageEditor = new ImageEditor(this);
 		this.aiManager = new AIManager(this);
+		this.piiRedactionManager = new PIIRedactionManager(this);
 
 
 		//Register AI chat icon
@@ -73,6 +78,9 @@ export default class ImageCapturePlugin extends Plugin {
 		// Initialize commands based on settings
 		this.updateCommands();
 
+		// Context menus for images in the vault and in notes
+		this.registerImageMenus();
+
 		this.addSettingTab(new ImageCaptureSettingTab(this.app, this));
 	}
 
@@ -121,6 +129,60 @@ export default class ImageCapturePlugin extends Plugin {
 	}
 
 
+	/**
+	 * 为库中图片注册右键菜单，并让编辑旁路文件跟随图片重命名、删除
+	 */
+	private registerImageMenus(): void {
+		this.registerEvent(this.app.workspace.on('file-menu', (menu: Menu, file: TAbstractFile) => {
+			if (file instanceof TFile) {
+				this.addImageMenuItems(menu, file);
+			}
+		}));
+
+		this.registerEvent(this.app.workspace.on('editor-menu', (menu: Menu, editor: Editor, view) => {
+			const cursor = editor.getCursor();
+			const embed = findImageEmbedAt(editor.getLine(cursor.line), cursor.ch);
+			if (!embed) return;
+			const file = this.app.metadataCache.getFirstLinkpathDest(embed.linkPath, view.file?.path || '');
+			if (file) {
+				const notePath = view.file?.path || '';
+				this.addImageMenuItems(menu, file, { editor, line: cursor.line, embed, notePath });
+			}
+		}));
+
+		this.registerEvent(this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+			if (file instanceof TFile && isEditableImageExtension(file.extension)) {
+				moveEditSidecar(this.app.vault, oldPath, file.path).catch(error => {
+					getLogger().error('Failed to move edit sidecar:', error);
+				});
+			}
+		}));
+
+		this.registerEvent(this.app.vault.on('delete', (file: TAbstractFile) => {
+			if (file instanceof TFile && isEditableImageExtension(file.extension)) {
+				deleteEditSidecar(this.app.vault, file.path).catch(error => {
+					getLogger().error('Failed to delete edit sidecar:', error);
+				});
+			}
+		}));
+	}
+
+	private addImageMenuItems(menu: Menu, file: TFile, embed?: VaultImageSource['embed']): void {
+		if (!isEditableImageExtension(file.extension)) return;
+
+		menu.addItem(item => item
+			.setTitle(t('menu.annotateImage'))
+			.setIcon('image-plus')
+			.onClick(() => this.imageEditor.openVaultImage({ file, embed })));
+
+		if (hasEditSidecar(this.app.vault, file)) {
+			menu.addItem(item => item
+				.setTitle(t('menu.reEditScreenshot'))
+				.setIcon('pencil')
+				.onClick(() => this.imageEditor.reopenFromSidecar(file)));
+		}
+	}
+
 	/**
 	 * Update commands based on current settings
 	 */
@@ -128,6 +190,10 @@ export default class ImageCapturePlugin extends Plugin {
 		// Remove existing commands
 		this.removeCommand('capture-normal-window');
 		this.removeCommand('capture-minimized-window');
+		this.removeCommand('capture-window');
+		this.removeCommand('capture-delayed');
+		[3, 5, 10].forEach(seconds => this.removeCommand(`capture-delayed-${seconds}`));
+		this.removeCommand('capture-last-region');
 		this.removeCommand('toggle-ai-chat');
 
 		// Add normal capture command (always available)
@@ -137,6 +203,34 @@ export default class ImageCapturePlugin extends Plugin {
 			callback: () => this.screenshotManager.startRegionCapture()
 		});
 
+		// Add application window capture command (always available)
+		this.addCommand({
+			id: 'capture-window',
+			name: t('commands.captureWindow.name'),
+			callback: () => this.screenshotManager.startWindowCapture()
+		});
+
+		// Add delayed capture commands, one per countdown plus one using the countdown from settings
+		[3, 5, 10].forEach(seconds => {
+			this.addCommand({
+				id: `capture-delayed-${seconds}`,
+				name: t('commands.captureDelayed.name', { seconds }),
+				callback: () => this.screenshotManager.startDelayedCapture(seconds)
+			});
+		});
+		this.addCommand({
+			id: 'capture-delayed',
+			name: t('commands.captureDelayedDefault.name'),
+			callback: () => this.screenshotManager.startDelayedCapture()
+		});
+
+		// Add repeat last region command (always available)
+		this.addCommand({
+			id: 'capture-last-region',
+			name: t('commands.captureLastRegion.name'),
+			callback: () => this.screenshotManager.captureLastRegion()
+		});
+
 		// Add minimized capture command (only if feature is enabled)
 		if (this.settings.enableMinimizedCapture) {
 			this.addCommand({
@@ -219,6 +313,32 @@ export default class ImageCapturePlugin extends Plugin {
 			needsSave = true;
 		}
 
+		// Fill in privacy review settings added after the first release, without sharing the default rule objects
+		const piiRedaction = this.settings.piiRedaction;
+		if (!piiRedaction || piiRedaction === DEFAULT_SETTINGS.piiRedaction || !Array.isArray(piiRedaction.rules)) {
+			this.settings.piiRedaction = {
+				...DEFAULT_SETTINGS.piiRedaction,
+				...piiRedaction,
+				rules: (piiRedaction?.rules || DEFAULT_PII_RULES).map(rule => ({ ...rule }))
+			};
+		}
+
+		// Fill in annotation colours, copying the defaults so palettes edited in settings don't change them
+		const annotationColors = this.settings.annotationColors;
+		if (!annotationColors || annotationColors === DEFAULT_SETTINGS.annotationColors || !annotationColors.palettes || !annotationColors.recent) {
+			const copyPalettes = (palettes: ColorPalette[]) => palettes.map(palette => ({ ...palette, colors: [...palette.colors] }));
+			this.settings.annotationColors = {
+				palettes: {
+					pen: copyPalettes(annotationColors?.palettes?.pen || DEFAULT_COLOR_PALETTES.pen),
+					highlighter: copyPalettes(annotationColors?.palettes?.highlighter || DEFAULT_COLOR_PALETTES.highlighter)
+				},
+				recent: {
+					pen: [...(annotationColors?.recent?.pen || [])],
+					highlighter: [...(annotationColors?.recent?.highlighter || [])]
+				}
+			};
+		}
+
 		// Remove old screenshotPrompt if it exists
 		if ('screenshotPrompt' in this.settings) {
 			delete (this.settings as Record<string, any>).screenshotPrompt;
@@ -8,6 +8,8 @@ export class MessageRenderManager {
     private messagesContainer: HTMLElement | null = null;
     private shouldScrollToBottom = false;
     private markdownComponent: Component;
+    // 流式消息的渲染状态：渲染中收到的新内容只保留最新一份
+    private streamingStates = new Map<string, { rendering: boolean; pending: AIMessage | null }>();
     
     constructor(private chatView: any) {
         this.markdownComponent = new Component();
@@ -75,6 +77,54 @@ export class MessageRenderManager {
         }
     }
     
+    /**
+     * 流式更新消息 - 合并渲染期间到达的内容，避免每个 token 都重新渲染 Markdown
+     */
+    streamMessage(message: AIMessage): void {
+        let state = this.streamingStates.get(message.id);
+        if (!state) {
+            state = { rendering: false, pending: null };
+            this.streamingStates.set(message.id, state);
+        }
+
+        // 复制一份，调用方会继续修改同一个对象
+        state.pending = { ...message };
+        if (state.rendering) return;
+
+        const streamState = state;
+        const renderNext = async (): Promise<void> => {
+            while (streamState.pending) {
+                const next = streamState.pending;
+                streamState.pending = null;
+                streamState.rendering = true;
+                try {
+                    await this.updateMessage(next);
+                    this.scrollStreamingMessageIntoView(next.id);
+                } catch (error) {
+                    getLogger().warn('Failed to render streaming update:', error);
+                }
+            }
+            streamState.rendering = false;
+            // 消息已被替换或移除，释放状态
+            if (!this.messageElements.has(message.id)) {
+                this.streamingStates.delete(message.id);
+            }
+        };
+        renderNext();
+    }
+    
+    /**
+     * 流式输出时，如果用户停留在底部则保持跟随
+     */
+    private scrollStreamingMessageIntoView(messageId: string): void {
+        if (!this.messagesContainer || !this.messageElements.has(messageId)) return;
+        const container = this.messagesContainer;
+        const distanceFromBottom = container.scrollHeight - container.scrollTop - container.clientHeight;
+        if (distanceFromBottom < 120) {
+            container.scrollTop = container.scrollHeight;
+        }
+    }
+    
     /**
      * 移除消息
      */
@@ -100,6 +150,7 @@ export class MessageRenderManager {
         
         this.messageElements.delete(oldId);
         this.messageElements.set(newMessage.id, newElement);
+        this.streamingStates.delete(oldId);
     }
     
     /**
@@ -416,6 +467,12 @@ export class MessageRenderManager {
             text: this.formatTime(message.timestamp),
             cls: 'ai-chat-message-time'
         });
+        if (message.type === 'assistant' && message.modelName) {
+            messageHeader.createEl('span', {
+                text: message.modelName,
+                cls: 'ai-chat-message-model'
+            });
+        }
         
         // Action buttons container with checkbox as first element
         const actionButtons = messageHeader.createEl('div', { cls: 'ai-chat-message-actions' });
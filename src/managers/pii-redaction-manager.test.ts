@@ -0,0 +1,159 @@
+import { applyReviewedImages, findPIIMatches, OCRLine, parseVisionOCRResponse, PendingImage, TempImageStore } from './pii-redaction-manager';
+import { DEFAULT_PII_RULES, PIIRule } from '../types';
+import { initializeLogger } from '../utils/logger';
+import ImageCapturePlugin from '../main';
+
+const ORIGINAL_QUEUED = 'data:image/png;base64,T1JJR0lOQUwtUVVFVUVE';
+const ORIGINAL_SAVED = 'data:image/png;base64,T1JJR0lOQUwtU0FWRUQ=';
+const ORIGINAL_VAULT = 'data:image/png;base64,T1JJR0lOQUwtVkFVTFQ=';
+
+class FakeTempStore implements TempImageStore {
+	images = new Map<string, string>();
+	refs = new Map<string, number>();
+	private nextId = 1;
+
+	addTempImage(dataUrl: string): string {
+		const tempId = `temp_${this.nextId++}`;
+		this.images.set(tempId, dataUrl);
+		this.refs.set(tempId, 1);
+		return tempId;
+	}
+
+	removeRef(tempId: string): void {
+		const count = (this.refs.get(tempId) || 0) - 1;
+		this.refs.set(tempId, count);
+		if (count <= 0) {
+			this.images.delete(tempId);
+		}
+	}
+}
+
+// What the chat view stores for the user message: queued images first, then the text
+function storedContent(message: string, queued: PendingImage[]): string {
+	const images = queued.map(img => img.localPath ? `![${img.source}](${img.localPath})` : `![${img.source}](temp:${img.tempId})`);
+	return images.join('\n') + '\n\n' + message;
+}
+
+// The images a later turn loads when it rebuilds the context from the stored message
+function resolveStoredImages(content: string, store: FakeTempStore, vault: Map<string, string>): string[] {
+	const resolved: string[] = [];
+	const imageRegex = /!\[(.*?)\]\((.*?)\)/g;
+	let match;
+	while ((match = imageRegex.exec(content)) !== null) {
+		const path = match[2];
+		const dataUrl = path.startsWith('temp:') ? store.images.get(path.slice(5)) : vault.get(path);
+		if (dataUrl) resolved.push(dataUrl);
+	}
+	return resolved;
+}
+
+describe('findPIIMatches', () => {
+	beforeAll(() => {
+		// Invalid rules are reported through the plugin logger
+		initializeLogger({ settings: { enableDebugLogging: false } } as ImageCapturePlugin);
+	});
+
+	const line = (text: string, x = 0, y = 0): OCRLine => ({ text, box: { x, y, width: text.length * 10, height: 20 } });
+
+	it('finds default rule matches and estimates their boxes from character offsets', () => {
+		const matches = findPIIMatches([line('mail jane.doe@example.com now', 100, 50)], DEFAULT_PII_RULES);
+		const email = matches.find(match => match.ruleId === 'email');
+		expect(email?.text).toBe('jane.doe@example.com');
+		// 5 characters in at 10px each, widened by the padding of 15% of the line height
+		expect(email?.box.x).toBeCloseTo(100 + 50 - 3);
+		expect(email?.box.width).toBeCloseTo(200 + 6);
+		expect(email?.box.y).toBeCloseTo(47);
+		expect(email?.box.height).toBeCloseTo(26);
+	});
+
+	it('matches IP addresses and API keys', () => {
+		const matches = findPIIMatches([line('host 192.168.1.20'), line('key sk-abcdefghijklmnop1234')], DEFAULT_PII_RULES);
+		expect(matches.map(match => match.ruleId)).toEqual(expect.arrayContaining(['ip-address', 'api-key']));
+	});
+
+	it('skips disabled, empty and invalid rules', () => {
+		const rules: PIIRule[] = [
+			{ id: 'off', name: 'Off', pattern: 'secret', enabled: false },
+			{ id: 'empty', name: 'Empty', pattern: '  ', enabled: true },
+			{ id: 'broken', name: 'Broken', pattern: '(', enabled: true },
+			{ id: 'word', name: 'Word', pattern: 'secret', enabled: true }
+		];
+		const matches = findPIIMatches([line('a SECRET and a secret')], rules);
+		expect(matches.map(match => match.ruleId)).toEqual(['word', 'word']);
+	});
+
+	it('keeps boxes inside the image at the left edge', () => {
+		const [match] = findPIIMatches([line('a@b.io')], DEFAULT_PII_RULES);
+		expect(match.box.x).toBe(0);
+		expect(match.box.y).toBe(0);
+	});
+});
+
+describe('parseVisionOCRResponse', () => {
+	it('reads pixel boxes and ignores text around the JSON', () => {
+		const lines = parseVisionOCRResponse('Here you go:\n{"lines":[{"text":"hello","box":[10,20,100,18]}]}\n', 800, 600);
+		expect(lines).toEqual([{ text: 'hello', box: { x: 10, y: 20, width: 100, height: 18 } }]);
+	});
+
+	it('scales fractional boxes to pixels', () => {
+		const lines = parseVisionOCRResponse('{"lines":[{"text":"hi","box":[0.5,0.25,0.1,0.05]}]}', 800, 600);
+		expect(lines[0].box).toEqual({ x: 400, y: 150, width: 80, height: 30 });
+	});
+
+	it('drops malformed lines', () => {
+		const lines = parseVisionOCRResponse('{"lines":[{"text":"ok","box":[1,2,3,4]},{"text":"bad","box":[1,2]},{"box":[1,2,3,4]}]}', 10, 10);
+		expect(lines.map(line => line.text)).toEqual(['ok']);
+	});
+
+	it('throws when there is no JSON', () => {
+		expect(() => parseVisionOCRResponse('no text found', 10, 10)).toThrow();
+	});
+});
+
+describe('applyReviewedImages', () => {
+	it('stores redacted images so a second turn does not carry the original pixels', () => {
+		const store = new FakeTempStore();
+		const vault = new Map([['shots/saved.png', ORIGINAL_SAVED], ['shots/other.png', ORIGINAL_VAULT]]);
+		const queuedTempId = store.addTempImage(ORIGINAL_QUEUED);
+		const queued: PendingImage[] = [
+			{ dataUrl: ORIGINAL_QUEUED, fileName: 'a.png', source: 'screenshot', tempId: queuedTempId, localPath: null },
+			{ dataUrl: ORIGINAL_SAVED, fileName: 'saved.png', source: 'screenshot', localPath: 'shots/saved.png' }
+		];
+		const message = 'compare with ![old](shots/other.png) please';
+		const references = [{ path: 'shots/other.png', fileName: 'other.png', dataUrl: ORIGINAL_VAULT }];
+		const reviewed = ['data:image/png;base64,UkVEQUNURUQtMQ==', 'data:image/png;base64,UkVEQUNURUQtMg==', 'data:image/png;base64,UkVEQUNURUQtMw=='];
+
+		const result = applyReviewedImages(message, queued, references, reviewed, store);
+
+		const content = storedContent(result.message, queued);
+		const secondTurn = resolveStoredImages(content, store, vault);
+		expect(secondTurn).toEqual(reviewed);
+		[ORIGINAL_QUEUED, ORIGINAL_SAVED, ORIGINAL_VAULT].forEach(original => {
+			expect(secondTurn).not.toContain(original);
+		});
+		expect(result.message).toMatch(/^compare with !\[old\]\(temp:temp_\d+\) please$/);
+		expect(result.referenceTempIds).toHaveLength(1);
+		// The queued original is released from the store
+		expect(store.images.has(queuedTempId)).toBe(false);
+	});
+
+	it('leaves images the user did not change untouched', () => {
+		const store = new FakeTempStore();
+		const queued: PendingImage[] = [{ dataUrl: ORIGINAL_SAVED, fileName: 'saved.png', source: 'screenshot', localPath: 'shots/saved.png' }];
+		const message = '![old](shots/other.png)';
+		const result = applyReviewedImages(message, queued, [{ path: 'shots/other.png', fileName: 'other.png', dataUrl: ORIGINAL_VAULT }], [ORIGINAL_SAVED, ORIGINAL_VAULT], store);
+
+		expect(result).toEqual({ message, referenceTempIds: [] });
+		expect(queued[0].localPath).toBe('shots/saved.png');
+		expect(store.images.size).toBe(0);
+	});
+
+	it('rewrites every reference to the same redacted image', () => {
+		const store = new FakeTempStore();
+		const message = '![a](shots/other.png) and ![b](shots/other.png)';
+		const result = applyReviewedImages(message, [], [{ path: 'shots/other.png', fileName: 'other.png', dataUrl: ORIGINAL_VAULT }], ['data:image/png;base64,UkVE'], store);
+
+		const [tempId] = result.referenceTempIds;
+		expect(result.message).toBe(`![a](temp:${tempId}) and ![b](temp:${tempId})`);
+	});
+});
@@ -0,0 +1,269 @@
+import { Notice } from 'obsidian';
+import ImageCapturePlugin from '../main';
+import { ModelConfig, PIIRule, Region } from '../types';
+import { t } from '../i18n';
+import { getLogger } from '../utils/logger';
+import { isLocalModel } from '../ai/providers';
+
+// A line of text found by OCR, box is in image pixels
+export interface OCRLine {
+	text: string;
+	box: Region;
+}
+
+// Sensitive text found on an image and the area to cover
+export interface PIIMatch {
+	ruleId: string;
+	text: string;
+	box: Region;
+}
+
+// An image about to be stored with a message, as queued in the chat input area
+export interface PendingImage {
+	dataUrl: string;
+	fileName: string;
+	source: string;
+	tempId?: string | null;
+	localPath?: string | null;
+	imageRef?: string;
+}
+
+// An image the message text refers to with ![alt](path), resolved to its pixels
+export interface ReferencedImage {
+	path: string;
+	fileName: string;
+	dataUrl: string;
+}
+
+// The parts of the temp image store the review needs
+export interface TempImageStore {
+	addTempImage(dataUrl: string, source: string, fileName: string): string;
+	removeRef(tempId: string): void;
+}
+
+const VISION_OCR_PROMPT = `You are an OCR engine. Transcribe every line of text visible in the image.
+Reply with JSON only, no explanation and no code fences, in this exact shape:
+{"lines":[{"text":"<line text>","box":[x,y,width,height]}]}
+Coordinates are integer pixels of the image, with x and y at the top-left corner of the line.`;
+
+/**
+ * Match the enabled rules against OCR lines. The box of a match inside a line is estimated
+ * from its character offsets, so it is widened a little to cover proportional fonts.
+ */
+export function findPIIMatches(lines: OCRLine[], rules: PIIRule[]): PIIMatch[] {
+	const matches: PIIMatch[] = [];
+	const patterns = rules
+		.filter(rule => rule.enabled && rule.pattern.trim())
+		.map(rule => ({ rule, regex: compileRule(rule) }))
+		.filter((entry): entry is { rule: PIIRule; regex: RegExp } => entry.regex !== null);
+
+	lines.forEach(line => {
+		const length = line.text.length;
+		if (length === 0) return;
+		const charWidth = line.box.width / length;
+		const padding = Math.max(2, line.box.height * 0.15);
+
+		patterns.forEach(({ rule, regex }) => {
+			regex.lastIndex = 0;
+			let match: RegExpExecArray | null;
+			while ((match = regex.exec(line.text)) !== null) {
+				if (match[0].length === 0) {
+					regex.lastIndex++;
+					continue;
+				}
+				const start = line.box.x + match.index * charWidth - padding;
+				const end = line.box.x + (match.index + match[0].length) * charWidth + padding;
+				matches.push({
+					ruleId: rule.id,
+					text: match[0],
+					box: {
+						x: Math.max(0, start),
+						y: Math.max(0, line.box.y - padding),
+						width: end - Math.max(0, start),
+						height: line.box.height + padding * 2
+					}
+				});
+			}
+		});
+	});
+	return matches;
+}
+
+// Invalid patterns are skipped rather than blocking the whole review
+function compileRule(rule: PIIRule): RegExp | null {
+	try {
+		return new RegExp(rule.pattern, 'gi');
+	} catch (error) {
+		getLogger().warn(`Invalid privacy rule "${rule.name}":`, error);
+		return null;
+	}
+}
+
+/**
+ * Read the OCR lines out of a vision model reply. Boxes given as fractions of the image
+ * (all values <= 1) are scaled to pixels.
+ */
+export function parseVisionOCRResponse(response: string, width: number, height: number): OCRLine[] {
+	const start = response.indexOf('{');
+	const end = response.lastIndexOf('}');
+	if (start < 0 || end <= start) {
+		throw new Error('OCR response is not JSON');
+	}
+
+	const parsed = JSON.parse(response.slice(start, end + 1));
+	const rawLines: any[] = Array.isArray(parsed?.lines) ? parsed.lines : [];
+	const lines: OCRLine[] = [];
+	rawLines.forEach(line => {
+		const box = Array.isArray(line?.box) ? line.box.map(Number) : [];
+		if (typeof line?.text !== 'string' || box.length !== 4 || box.some((value: number) => !isFinite(value))) return;
+		const normalized = box.every((value: number) => value <= 1);
+		lines.push({
+			text: line.text,
+			box: normalized
+				? { x: box[0] * width, y: box[1] * height, width: box[2] * width, height: box[3] * height }
+				: { x: box[0], y: box[1], width: box[2], height: box[3] }
+		});
+	});
+	return lines;
+}
+
+/**
+ * Point the message at the reviewed images. A redacted image is stored as a new temp image and
+ * the queued image or text reference is switched to it, so later turns that rebuild the context
+ * from the conversation never load the original pixels again.
+ * reviewed lists the queued images first, then the references. Queued images are updated in place;
+ * returns the message text and the temp ids created for references, which the caller releases
+ * once the stored message holds its own reference.
+ */
+export function applyReviewedImages(
+	message: string,
+	queued: PendingImage[],
+	references: ReferencedImage[],
+	reviewed: string[],
+	store: TempImageStore
+): { message: string; referenceTempIds: string[] } {
+	queued.forEach((image, i) => {
+		const dataUrl = reviewed[i];
+		if (dataUrl === image.dataUrl) return;
+		if (image.tempId) {
+			store.removeRef(image.tempId);
+		}
+		image.tempId = store.addTempImage(dataUrl, image.source, image.fileName);
+		image.localPath = null;
+		image.imageRef = `temp:${image.tempId}`;
+		image.dataUrl = dataUrl;
+	});
+
+	const replacements = new Map<string, string>();
+	references.forEach((reference, i) => {
+		const dataUrl = reviewed[queued.length + i];
+		if (dataUrl === reference.dataUrl || replacements.has(reference.path)) return;
+		replacements.set(reference.path, store.addTempImage(dataUrl, 'redacted', reference.fileName));
+	});
+
+	const rewritten = message.replace(/!\[(.*?)\]\((.*?)\)/g, (markdown, alt, path) => {
+		const tempId = replacements.get(path);
+		return tempId ? `![${alt}](temp:${tempId})` : markdown;
+	});
+	return { message: rewritten, referenceTempIds: Array.from(replacements.values()) };
+}
+
+/**
+ * 发送前隐私审查：对待发送图片做 OCR，按规则找出邮箱、电话、密钥、IP 等，
+ * 在图片编辑器中预置遮挡框，由用户确认后才返回处理后的图片
+ */
+export class PIIRedactionManager {
+	private plugin: ImageCapturePlugin;
+
+	constructor(plugin: ImageCapturePlugin) {
+		this.plugin = plugin;
+	}
+
+	isEnabled(): boolean {
+		return !!this.plugin.settings.piiRedaction?.enabled;
+	}
+
+	/**
+	 * Review each image in turn. Returns the images to send (redacted where the user confirmed boxes),
+	 * or null when the user cancelled or an image could not be checked.
+	 */
+	async reviewImages(dataUrls: string[]): Promise<string[] | null> {
+		const reviewed: string[] = [];
+		const notice = new Notice(t('notice.piiScanning'), 0);
+
+		try {
+			for (const dataUrl of dataUrls) {
+				const image = await this.loadImage(dataUrl);
+				const lines = await this.recognizeText(dataUrl, image.naturalWidth, image.naturalHeight);
+				const matches = findPIIMatches(lines, this.plugin.settings.piiRedaction.rules);
+				getLogger().log(`🔒 Privacy review found ${matches.length} matches in ${lines.length} OCR lines`);
+
+				if (matches.length === 0) {
+					reviewed.push(dataUrl);
+					continue;
+				}
+
+				notice.hide();
+				const result = await this.plugin.imageEditor.reviewRedactions(
+					dataUrl,
+					{ width: image.naturalWidth, height: image.naturalHeight },
+					matches.map(match => match.box)
+				);
+				if (result === null) {
+					new Notice(t('notice.piiReviewCancelled'));
+					return null;
+				}
+				reviewed.push(result);
+			}
+		} catch (error) {
+			getLogger().error('Privacy review failed:', error);
+			new Notice(t('notice.piiScanFailed', { message: error.message }));
+			return null;
+		} finally {
+			notice.hide();
+		}
+
+		return reviewed;
+	}
+
+	private async recognizeText(dataUrl: string, width: number, height: number): Promise<OCRLine[]> {
+		const modelConfig = this.getOCRModelConfig();
+		if (!modelConfig) {
+			throw new Error(t('notice.piiNoOcrModel'));
+		}
+
+		// The OCR model sees the image before redaction, so it must run locally unless the user allowed otherwise
+		const credentials = this.plugin.settings.providerCredentials[modelConfig.providerId];
+		if (!this.plugin.settings.piiRedaction.allowCloudOcr && !isLocalModel(modelConfig, credentials)) {
+			throw new Error(t('notice.piiCloudOcrBlocked', { model: modelConfig.name }));
+		}
+
+		const messages = [
+			{ role: 'system', content: VISION_OCR_PROMPT },
+			{
+				role: 'user',
+				content: [
+					{ type: 'text', text: `The image is ${width}x${height} pixels.` },
+					{ type: 'image_url', image_url: { url: dataUrl } }
+				]
+			}
+		];
+		// The unredacted image only goes to the model picked for the review, never to a fallback
+		const content = await this.plugin.aiManager.callAPIWithContextMessages(messages, modelConfig);
+		return parseVisionOCRResponse(content, width, height);
+	}
+
+	private getOCRModelConfig(): ModelConfig | undefined {
+		const { modelConfigs, piiRedaction } = this.plugin.settings;
+		return modelConfigs.find(mc => mc.id === piiRedaction.ocrModelConfigId && mc.isVisionCapable);
+	}
+
+	private loadImage(dataUrl: string): Promise<HTMLImageElement> {
+		return new Promise((resolve, reject) => {
+			const img = new Image();
+			img.onload = () => resolve(img);
+			img.onerror = () => reject(new Error('Failed to load image'));
+			img.src = dataUrl;
+		});
+	}
+}
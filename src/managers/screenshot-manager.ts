@@ -1,8 +1,28 @@
 import { Notice } from 'obsidian';
 import ImageCapturePlugin from '../main';
-import { Region } from '../types';
+import { CaptureDisplay, LastCaptureRegion, Region } from '../types';
 import { t } from '../i18n';
 import { getLogger } from '../utils/logger';
+import { selectRegionOnDisplay } from '../ui/display-selection-window';
+import { formatTimestampForFilename } from '../utils/time';
+import { encodeImage, fitToMaxDimension, resolveSaveFormat, withImageExtension } from '../utils/image-format';
+import { scaleCanvas } from '../editors/image-transform';
+import { WindowPickerModal, WindowSource } from '../ui/window-picker-modal';
+
+// A display snapshot shown under the selection overlay instead of the live screen
+interface FrozenScreen {
+	imageData: string;
+	display: CaptureDisplay;
+	width: number;
+	height: number;
+}
+
+// Where the frozen snapshot is drawn inside the overlay (client coordinates)
+interface FrozenView extends FrozenScreen {
+	left: number;
+	top: number;
+	scale: number;
+}
 
 export class ScreenshotManager {
 	private plugin: ImageCapturePlugin;
@@ -15,13 +35,17 @@ export class ScreenshotManager {
 	private startClientX = 0;
 	private startClientY = 0;
 	private selectionCompleteCallback: ((region: Region | null) => void) | null = null;
+	private frozenView: FrozenView | null = null;
+	private countdownCleanup: (() => void) | null = null;
 	
 	// Cache Electron API for performance
 	private electronAPI: any = null;
 	private desktopCapturer: any = null;
+	private electronScreen: any = null;
 
 	// WeakMap storage for overlay element properties - replaces (element as any) patterns
 	private overlayElements = new WeakMap<HTMLElement, {
+		frozenImageEl?: HTMLElement;
 		instructionEl?: HTMLElement;
 		mouseIndicator?: HTMLElement;
 		coordDisplay?: HTMLElement;
@@ -111,25 +135,33 @@ export class ScreenshotManager {
 			}
 			
 			let region: Region | null = null;
+			let display: CaptureDisplay;
+			let screenshot: string | null = null;
+			
+			// 光标所在的显示器；如果 Obsidian 窗口不在这块屏幕上，遮罩层无法覆盖它，改为在该屏幕上打开选区窗口
+			const cursorDisplay = this.getDisplayAtCursor();
+			const selectOnOtherDisplay = !minimizeWindow && cursorDisplay.id !== this.getWindowDisplay().id;
 			
 			if (minimizeWindow) {
 				// For minimized capture, skip region selection and use full screen
-				getLogger().log('🔍 Using full screen region for minimized capture...');
-				
-				// Create a default selection region in the center of the screen (60% of screen size)
-				const centerX = screen.width / 2;
-				const centerY = screen.height / 2;
-				const defaultWidth = Math.floor(screen.width * 0.6);
-				const defaultHeight = Math.floor(screen.height * 0.6);
-				
-				region = {
-					x: Math.floor(centerX - defaultWidth / 2),
-					y: Math.floor(centerY - defaultHeight / 2),
-					width: defaultWidth,
-					height: defaultHeight
-				};
-				
+				getLogger().log('🔍 Using full screen region of display under cursor:', cursorDisplay);
+				display = cursorDisplay;
+				region = this.createDefaultRegion(display);
 				getLogger().log('🔍 Created default center selection region:', region);
+			} else if (selectOnOtherDisplay) {
+				// Capture first, then select on a snapshot shown at native scale on that display
+				getLogger().log('🔍 Opening selection window on display under cursor:', cursorDisplay);
+				display = cursorDisplay;
+				screenshot = await this.captureScreen(display);
+				if (screenshot) {
+					region = await selectRegionOnDisplay(this.electronAPI.remote, display, screenshot, t('notice.screenCapturingOverlayInstruction'));
+					if (!region) {
+						getLogger().log('❌ Region selection cancelled by user');
+						new Notice(t('notice.regionSelectionCancelled'));
+						return;
+					}
+					this.rememberRegion(region);
+				}
 			} else {
 				// Normal capture with region selection
 				getLogger().log('🔍 Creating overlay for region selection...');
@@ -143,13 +175,16 @@ export class ScreenshotManager {
 					return;
 				}
 				await new Promise(resolve => setTimeout(resolve, 20));
+				display = this.getDisplayForRegion(region);
 			}
 			
-			getLogger().log('✅ Region selected:', region);
+			getLogger().log('✅ Region selected:', region, 'on display:', display);
 			
-			getLogger().log('🔍 Starting screen capture...');
-			const screenshot = await this.captureScreen();
 			if (!screenshot) {
+				getLogger().log('🔍 Starting screen capture...');
+				screenshot = await this.captureScreen(display);
+			}
+			if (!screenshot || !region) {
 				getLogger().error('❌ Failed to capture screen');
 				// Restore window before showing notice if it was minimized
 				if (currentWindow) {
@@ -170,23 +205,13 @@ export class ScreenshotManager {
 			
 			getLogger().log('✅ Screen captured successfully');
 			
-			if (minimizeWindow) {
-				// For minimized capture, create extended crop to show selection handles
-				getLogger().log('🔍 Creating extended crop with default selection...');
-				const extendedImage = await this.createExtendedCrop(screenshot, region);
-				
-				getLogger().log('✅ Extended image created successfully');
-				getLogger().log('🔍 Opening image editor with default selection...');
-				this.plugin.imageEditor.showEditor(extendedImage.imageData, region, extendedImage.extendedRegion, screenshot);
-			} else {
-				// Normal capture with extended crop
-				getLogger().log('🔍 Creating extended crop with surrounding area...');
-				const extendedImage = await this.createExtendedCrop(screenshot, region);
-				
-				getLogger().log('✅ Extended image created successfully');
-				getLogger().log('🔍 Opening image editor...');
-				this.plugin.imageEditor.showEditor(extendedImage.imageData, region, extendedImage.extendedRegion, screenshot);
-			}
+			// Extended crop keeps the surrounding area so the selection can still be adjusted in the editor
+			getLogger().log('🔍 Creating extended crop with surrounding area...');
+			const extendedImage = await this.createExtendedCrop(screenshot, region, display);
+			
+			getLogger().log('✅ Extended image created successfully');
+			getLogger().log('🔍 Opening image editor...');
+			this.plugin.imageEditor.showEditor(extendedImage.imageData, extendedImage.imageRegion, extendedImage.extendedRegion, screenshot);
 			
 		} catch (error: any) {
 			getLogger().error('❌ Region capture failed:', error);
@@ -216,11 +241,450 @@ export class ScreenshotManager {
 	}
 
 
+	/**
+	 * 重复截取上次框选的区域：跳过遮罩层，直接截屏裁剪后进入编辑器（或按设置直接加入AI预发送区）
+	 */
+	async captureLastRegion() {
+		const last = this.plugin.settings.lastCaptureRegion;
+		if (!last) {
+			new Notice(t('notice.noLastRegion'));
+			return;
+		}
+		if (this.isScreenshotModeActive) {
+			return;
+		}
+		this.isScreenshotModeActive = true;
+		
+		try {
+			if (!this.ensureCaptureAPI()) {
+				return;
+			}
+			
+			const display = this.resolveLastDisplay(last);
+			getLogger().log('🔍 Capturing last region:', last.region, 'on display:', display);
+			
+			const screenshot = await this.captureScreen(display);
+			if (!screenshot) {
+				getLogger().error('❌ Failed to capture screen');
+				new Notice(t('notice.screenCaptureFailed'));
+				return;
+			}
+			
+			const canvas = await this.cropToCanvas(screenshot, last.region, display);
+			
+			if (this.plugin.settings.sendLastRegionToAI) {
+				// Queued images skip the editor, so encode them the way the editor saves
+				const { imageFormat, imageQuality, maxImageDimension } = this.plugin.settings;
+				const format = resolveSaveFormat(imageFormat);
+				const output = scaleCanvas(canvas, fitToMaxDimension(canvas, maxImageDimension));
+				const fileName = withImageExtension(`screenshot-${formatTimestampForFilename()}`, format);
+				await this.plugin.ensureAIChatPanelVisible();
+				await this.plugin.addImageToAIQueue(encodeImage(output, format, imageQuality), fileName, null);
+				new Notice(t('notice.lastRegionAddedToAI'));
+			} else {
+				const imageData = canvas.toDataURL('image/png');
+				const size = await this.getImageSize(imageData);
+				this.plugin.imageEditor.showEditor(imageData, { x: 0, y: 0, width: size.width, height: size.height });
+			}
+		} catch (error: any) {
+			getLogger().error('❌ Last region capture failed:', error);
+			new Notice(t('notice.regionCaptureFailed', { message: error.message }));
+		} finally {
+			this.isScreenshotModeActive = false;
+		}
+	}
+
+	/**
+	 * The saved display may have moved or been disconnected since the region was
+	 * recorded: prefer the current geometry of the same display, else whichever holds the region.
+	 */
+	private resolveLastDisplay(last: LastCaptureRegion): CaptureDisplay {
+		const current = this.getAllDisplays().find(display => display.id === last.display.id);
+		return current || this.getDisplayForRegion(last.region);
+	}
+
+	// Remember a finished selection for "Capture last region"
+	private rememberRegion(region: Region) {
+		const display = this.frozenView ? this.frozenView.display : this.getDisplayForRegion(region);
+		this.plugin.settings.lastCaptureRegion = { region: { ...region }, display };
+		this.plugin.saveSettings().catch((error) => {
+			getLogger().error('❌ Failed to save last capture region:', error);
+		});
+	}
+
+	/**
+	 * 延时截图：倒计时结束后拍下光标所在显示器的快照，再在冻结的画面上框选区域
+	 * 便于截取菜单、悬停提示等一旦切换焦点就会消失的界面
+	 */
+	async startDelayedCapture(delaySeconds: number = this.plugin.settings.captureDelaySeconds) {
+		if (this.isScreenshotModeActive) {
+			return;
+		}
+		this.isScreenshotModeActive = true;
+		
+		try {
+			if (!this.ensureCaptureAPI()) {
+				return;
+			}
+			
+			const completed = await this.runCountdown(delaySeconds);
+			if (!completed) {
+				getLogger().log('❌ Delayed capture cancelled by user');
+				new Notice(t('notice.delayedCaptureCancelled'));
+				return;
+			}
+			
+			// Give the renderer a frame to remove the countdown indicator before capturing
+			await new Promise(resolve => setTimeout(resolve, 50));
+			
+			const display = this.getDisplayAtCursor();
+			getLogger().log('🔍 Taking delayed snapshot of display:', display);
+			const screenshot = await this.captureScreen(display);
+			if (!screenshot) {
+				getLogger().error('❌ Failed to capture screen');
+				new Notice(t('notice.screenCaptureFailed'));
+				return;
+			}
+			
+			let region: Region | null;
+			if (display.id !== this.getWindowDisplay().id) {
+				// The Obsidian window is on another screen, select on that screen at native scale instead
+				getLogger().log('🔍 Opening selection window on snapshot display...');
+				region = await selectRegionOnDisplay(this.electronAPI.remote, display, screenshot, t('notice.screenCapturingOverlayInstruction'));
+				if (region) {
+					this.rememberRegion(region);
+				}
+			} else {
+				const size = await this.getImageSize(screenshot);
+				getLogger().log('🔍 Creating overlay on frozen snapshot...');
+				this.createOverlay({ imageData: screenshot, display, width: size.width, height: size.height });
+				region = await this.waitForRegionSelection();
+			}
+			if (!region) {
+				getLogger().log('❌ Region selection cancelled by user');
+				new Notice(t('notice.regionSelectionCancelled'));
+				return;
+			}
+			
+			getLogger().log('✅ Region selected on frozen snapshot:', region);
+			const extendedImage = await this.createExtendedCrop(screenshot, region, display);
+			this.plugin.imageEditor.showEditor(extendedImage.imageData, extendedImage.imageRegion, extendedImage.extendedRegion, screenshot);
+		} catch (error: any) {
+			getLogger().error('❌ Delayed capture failed:', error);
+			new Notice(t('notice.regionCaptureFailed', { message: error.message }));
+			this.removeOverlay();
+		} finally {
+			this.removeCountdown();
+			this.isScreenshotModeActive = false;
+		}
+	}
+
+	/**
+	 * Show the countdown indicator, resolves false when cancelled with ESC or a click on the indicator
+	 */
+	private runCountdown(seconds: number): Promise<boolean> {
+		return new Promise((resolve) => {
+			let remaining = Math.max(1, Math.round(seconds));
+			
+			const indicator = document.createElement('div');
+			indicator.className = 'screenshot-countdown-base';
+			const render = () => {
+				indicator.textContent = t('notice.delayedCaptureCountdown', { seconds: remaining });
+			};
+			render();
+			document.body.appendChild(indicator);
+			
+			const finish = (completed: boolean) => {
+				this.removeCountdown();
+				resolve(completed);
+			};
+			
+			const timer = window.setInterval(() => {
+				remaining--;
+				if (remaining <= 0) {
+					finish(true);
+				} else {
+					render();
+				}
+			}, 1000);
+			
+			const keyDownHandler = (e: KeyboardEvent) => {
+				if (e.key === 'Escape') {
+					e.preventDefault();
+					finish(false);
+				}
+			};
+			const clickHandler = () => finish(false);
+			document.addEventListener('keydown', keyDownHandler);
+			indicator.addEventListener('click', clickHandler);
+			
+			this.countdownCleanup = () => {
+				window.clearInterval(timer);
+				document.removeEventListener('keydown', keyDownHandler);
+				indicator.removeEventListener('click', clickHandler);
+				indicator.remove();
+			};
+		});
+	}
+
+	private removeCountdown() {
+		if (this.countdownCleanup) {
+			this.countdownCleanup();
+			this.countdownCleanup = null;
+		}
+	}
 
-	private createOverlay() {
+	/**
+	 * 截取单个应用窗口：列出所有窗口的缩略图供选择，选中后以原始分辨率重新截取并直接进入编辑器
+	 */
+	async startWindowCapture() {
+		if (this.isScreenshotModeActive) {
+			return;
+		}
+		this.isScreenshotModeActive = true;
+		
+		try {
+			if (!this.ensureCaptureAPI()) {
+				return;
+			}
+			
+			getLogger().log('🔍 Listing windows for capture...');
+			const sources = await this.desktopCapturer.getSources({
+				types: ['window'],
+				thumbnailSize: { width: 320, height: 200 },
+				fetchWindowIcons: true
+			});
+			
+			const windows: WindowSource[] = sources
+				.filter((source: any) => source.thumbnail && !source.thumbnail.isEmpty())
+				.map((source: any) => ({
+					id: source.id,
+					name: source.name,
+					thumbnailDataUrl: source.thumbnail.toDataURL(),
+					appIconDataUrl: source.appIcon && !source.appIcon.isEmpty() ? source.appIcon.toDataURL() : undefined
+				}));
+			
+			getLogger().log(`🔍 Found ${windows.length} capturable windows`);
+			if (windows.length === 0) {
+				new Notice(t('notice.noWindowsFound'));
+				return;
+			}
+			
+			const chosen = await new Promise<WindowSource | null>((resolve) => {
+				new WindowPickerModal(this.plugin, windows, resolve).open();
+			});
+			if (!chosen) {
+				getLogger().log('❌ Window selection cancelled by user');
+				return;
+			}
+			
+			// Let the picker modal disappear before grabbing the window contents
+			await new Promise(resolve => setTimeout(resolve, 100));
+			
+			const imageData = await this.captureWindow(chosen.id);
+			if (!imageData) {
+				new Notice(t('notice.windowNoLongerAvailable'));
+				return;
+			}
+			
+			const size = await this.getImageSize(imageData);
+			const region: Region = { x: 0, y: 0, width: size.width, height: size.height };
+			
+			getLogger().log('✅ Window captured:', chosen.name, size);
+			this.plugin.imageEditor.showEditor(imageData, region);
+		} catch (error: any) {
+			getLogger().error('❌ Window capture failed:', error);
+			new Notice(t('notice.windowCaptureFailed', { message: error.message }));
+		} finally {
+			this.isScreenshotModeActive = false;
+		}
+	}
+
+	/**
+	 * Capture one window by source id. Thumbnails keep the window's aspect ratio, so asking
+	 * for the largest display's native size returns the window at full resolution.
+	 */
+	private async captureWindow(sourceId: string): Promise<string | null> {
+		const maxSize = this.getAllDisplays().reduce((size, display) => ({
+			width: Math.max(size.width, Math.round(display.bounds.width * display.scaleFactor)),
+			height: Math.max(size.height, Math.round(display.bounds.height * display.scaleFactor))
+		}), { width: 0, height: 0 });
+		
+		const sources = await this.desktopCapturer.getSources({
+			types: ['window'],
+			thumbnailSize: maxSize
+		});
+		
+		const source = sources.find((s: any) => s.id === sourceId);
+		if (!source || !source.thumbnail || source.thumbnail.isEmpty()) {
+			getLogger().error('❌ Selected window source not found:', sourceId);
+			return null;
+		}
+		return source.thumbnail.toDataURL();
+	}
+
+	private getImageSize(imageData: string): Promise<{ width: number, height: number }> {
+		return new Promise((resolve, reject) => {
+			const img = new Image();
+			img.onload = () => resolve({ width: img.width, height: img.height });
+			img.onerror = () => reject(new Error('Failed to load captured image'));
+			img.src = imageData;
+		});
+	}
+
+	/**
+	 * Default selection in the center of a display (60% of its size), in screen coordinates
+	 */
+	private createDefaultRegion(display: CaptureDisplay): Region {
+		const { bounds } = display;
+		const defaultWidth = Math.floor(bounds.width * 0.6);
+		const defaultHeight = Math.floor(bounds.height * 0.6);
+		return {
+			x: Math.floor(bounds.x + (bounds.width - defaultWidth) / 2),
+			y: Math.floor(bounds.y + (bounds.height - defaultHeight) / 2),
+			width: defaultWidth,
+			height: defaultHeight
+		};
+	}
+
+	/**
+	 * Load and cache desktopCapturer / screen from the Electron remote module
+	 */
+	private ensureCaptureAPI(): boolean {
+		if (this.desktopCapturer) {
+			return true;
+		}
+		
+		this.electronAPI = this.plugin.getElectronAPI();
+		
+		if (!this.electronAPI) {
+			getLogger().error('❌ Electron API not available');
+			new Notice(t('notice.electronAPINotAvailable'));
+			return false;
+		}
+		
+		if (!this.electronAPI.remote) {
+			getLogger().error('❌ Electron remote not available');
+			new Notice(t('notice.electronRemoteNotAvailable'));
+			return false;
+		}
+		
+		const remoteElectron = this.electronAPI.remote.require('electron');
+		this.desktopCapturer = remoteElectron.desktopCapturer;
+		this.electronScreen = remoteElectron.screen || this.electronAPI.screen || null;
+		
+		if (!this.desktopCapturer) {
+			getLogger().error('❌ desktopCapturer not available');
+			new Notice(t('notice.desktopCapturerNotAvailable'));
+			return false;
+		}
+		
+		return true;
+	}
+
+	private toCaptureDisplay(display: any): CaptureDisplay {
+		return {
+			id: String(display.id),
+			bounds: {
+				x: display.bounds.x,
+				y: display.bounds.y,
+				width: display.bounds.width,
+				height: display.bounds.height
+			},
+			scaleFactor: display.scaleFactor || 1
+		};
+	}
+
+	// Used when Electron's screen module is unavailable: the screen Obsidian is on
+	private getFallbackDisplay(): CaptureDisplay {
+		return {
+			id: '',
+			bounds: { x: 0, y: 0, width: screen.width, height: screen.height },
+			scaleFactor: window.devicePixelRatio || 1
+		};
+	}
+
+	private getAllDisplays(): CaptureDisplay[] {
+		if (!this.ensureCaptureAPI() || !this.electronScreen) {
+			return [this.getFallbackDisplay()];
+		}
+		return this.electronScreen.getAllDisplays().map((display: any) => this.toCaptureDisplay(display));
+	}
+
+	private getDisplayAtCursor(): CaptureDisplay {
+		if (!this.ensureCaptureAPI() || !this.electronScreen) {
+			return this.getFallbackDisplay();
+		}
+		const point = this.electronScreen.getCursorScreenPoint();
+		return this.toCaptureDisplay(this.electronScreen.getDisplayNearestPoint(point));
+	}
+
+	// Display showing most of the Obsidian window, i.e. the one the selection overlay covers
+	private getWindowDisplay(): CaptureDisplay {
+		return this.getDisplayForRegion({
+			x: window.screenX,
+			y: window.screenY,
+			width: window.outerWidth,
+			height: window.outerHeight
+		});
+	}
+
+	// Display that contains most of the region (screen coordinates)
+	private getDisplayForRegion(region: Region): CaptureDisplay {
+		if (!this.ensureCaptureAPI() || !this.electronScreen) {
+			return this.getFallbackDisplay();
+		}
+		const rect = {
+			x: Math.round(region.x),
+			y: Math.round(region.y),
+			width: Math.max(1, Math.round(region.width)),
+			height: Math.max(1, Math.round(region.height))
+		};
+		return this.toCaptureDisplay(this.electronScreen.getDisplayMatching(rect));
+	}
+
+	/**
+	 * 将屏幕坐标（DIP）下的选区换算为该显示器截图中的像素坐标
+	 * 用截图实际尺寸计算缩放比例，混合 DPI 的多显示器下同样准确
+	 */
+	private toImageRegion(region: Region, display: CaptureDisplay, imageWidth: number, imageHeight: number): Region {
+		const scaleX = imageWidth / display.bounds.width;
+		const scaleY = imageHeight / display.bounds.height;
+		return {
+			x: (region.x - display.bounds.x) * scaleX,
+			y: (region.y - display.bounds.y) * scaleY,
+			width: region.width * scaleX,
+			height: region.height * scaleY
+		};
+	}
+
+	private createOverlay(frozen?: FrozenScreen) {
 		this.overlay = document.createElement('div');
 		this.overlay.className = 'screenshot-overlay-base';
 		
+		// Show the frozen snapshot, scaled to fit the window, instead of the live screen
+		let frozenImageEl: HTMLElement | undefined;
+		if (frozen) {
+			const scale = Math.min(window.innerWidth / frozen.width, window.innerHeight / frozen.height);
+			this.frozenView = {
+				...frozen,
+				scale,
+				left: (window.innerWidth - frozen.width * scale) / 2,
+				top: (window.innerHeight - frozen.height * scale) / 2
+			};
+			this.overlay.addClass('frozen');
+			
+			const img = document.createElement('img');
+			img.className = 'screenshot-frozen-image';
+			img.src = frozen.imageData;
+			img.style.setProperty('--x', this.frozenView.left + 'px');
+			img.style.setProperty('--y', this.frozenView.top + 'px');
+			img.style.setProperty('--width', frozen.width * scale + 'px');
+			img.style.setProperty('--height', frozen.height * scale + 'px');
+			this.overlay.appendChild(img);
+			frozenImageEl = img;
+		}
+		
 		// Add instructions for user
 		const instructionEl = document.createElement('div');
 		instructionEl.className = 'screenshot-instruction-base';
@@ -245,6 +709,7 @@ export class ScreenshotManager {
 		
 		// Store references for cleanup
 		this.overlayElements.set(this.overlay, {
+			frozenImageEl: frozenImageEl,
 			instructionEl: instructionEl,
 			mouseIndicator: mouseIndicator,
 			coordDisplay: coordDisplay
@@ -306,12 +771,30 @@ export class ScreenshotManager {
 		}
 	}
 
+	/**
+	 * Screen coordinates of a mouse event. On a frozen snapshot the pointer is over the
+	 * scaled image, so the position is mapped back onto the captured display.
+	 */
+	private getEventScreenPoint(e: MouseEvent): { x: number, y: number } {
+		const view = this.frozenView;
+		if (!view) {
+			return { x: e.screenX, y: e.screenY };
+		}
+		const imageX = Math.max(0, Math.min(view.width, (e.clientX - view.left) / view.scale));
+		const imageY = Math.max(0, Math.min(view.height, (e.clientY - view.top) / view.scale));
+		return {
+			x: Math.round(view.display.bounds.x + imageX * view.display.bounds.width / view.width),
+			y: Math.round(view.display.bounds.y + imageY * view.display.bounds.height / view.height)
+		};
+	}
+
 	private handleMouseDown(e: MouseEvent, mouseIndicator?: HTMLElement, coordDisplay?: HTMLElement) {
 		this.isSelecting = true;
 		
 		// Use direct screen coordinates - much simpler and more reliable
-		this.startX = e.screenX;
-		this.startY = e.screenY;
+		const point = this.getEventScreenPoint(e);
+		this.startX = point.x;
+		this.startY = point.y;
 		// Also store client coordinates for CSS variables
 		this.startClientX = e.clientX;
 		this.startClientY = e.clientY;
@@ -345,7 +828,8 @@ export class ScreenshotManager {
 				coordDisplay.style.setProperty('--x', (e.clientX + 10) + 'px');
 				coordDisplay.style.setProperty('--y', (e.clientY - 30) + 'px');
 				// Show screen coordinates in display for debugging
-				coordDisplay.textContent = `Screen: ${e.screenX}, ${e.screenY}`;
+				const point = this.getEventScreenPoint(e);
+				coordDisplay.textContent = `Screen: ${point.x}, ${point.y}`;
 			}
 		}
 		
@@ -364,8 +848,9 @@ export class ScreenshotManager {
 		
 		// Update coordinate display during selection
 		if (coordDisplay) {
-			const currentScreenX = e.screenX;
-			const currentScreenY = e.screenY;
+			const point = this.getEventScreenPoint(e);
+			const currentScreenX = point.x;
+			const currentScreenY = point.y;
 			const screenWidth = Math.abs(currentScreenX - this.startX);
 			const screenHeight = Math.abs(currentScreenY - this.startY);
 			coordDisplay.style.setProperty('--x', (e.clientX + 10) + 'px');
@@ -381,8 +866,9 @@ export class ScreenshotManager {
 		
 		if (this.selectionCompleteCallback) {
 			// Use screen coordinates for the final region calculation
-			const currentScreenX = e.screenX;
-			const currentScreenY = e.screenY;
+			const point = this.getEventScreenPoint(e);
+			const currentScreenX = point.x;
+			const currentScreenY = point.y;
 			
 			// Calculate screen-based region
 			const rect: Region = {
@@ -395,6 +881,7 @@ export class ScreenshotManager {
 			getLogger().log('🔍 Final screen-based selection region:', rect);
 			
 			if (rect.width > 10 && rect.height > 10) {
+				this.rememberRegion(rect);
 				this.selectionCompleteCallback(rect);
 			} else {
 				this.selectionCompleteCallback(null);
@@ -431,11 +918,12 @@ export class ScreenshotManager {
 			
 			// Clean up additional elements
 			if (overlayData) {
+				const frozenImageEl = overlayData.frozenImageEl;
 				const instructionEl = overlayData.instructionEl;
 				const mouseIndicator = overlayData.mouseIndicator;
 				const coordDisplay = overlayData.coordDisplay;
 				
-				[instructionEl, mouseIndicator, coordDisplay].forEach((el) => {
+				[frozenImageEl, instructionEl, mouseIndicator, coordDisplay].forEach((el) => {
 					if (el && el.parentNode) {
 						el.parentNode.removeChild(el);
 					}
@@ -457,45 +945,37 @@ export class ScreenshotManager {
 		this.overlay = null;
 		this.selectionBox = null;
 		this.selectionCompleteCallback = null;
+		this.frozenView = null;
 		
 		// 重置截图模式状态
 		this.isScreenshotModeActive = false;
 	}
 
-	private async captureScreen(): Promise<string | null> {
+	/**
+	 * Find the desktopCapturer source of a display. display_id is empty on some
+	 * platforms, in that case sources follow the order of screen.getAllDisplays().
+	 */
+	private findDisplaySource(sources: any[], display: CaptureDisplay): any {
+		const byId = sources.find((source: any) => source.display_id && source.display_id === display.id);
+		if (byId) return byId;
+		
+		const index = this.getAllDisplays().findIndex(d => d.id === display.id);
+		return sources[index] || sources[0];
+	}
+
+	private async captureScreen(display: CaptureDisplay): Promise<string | null> {
 		try {
 			// Use cached Electron API for better performance
-			if (!this.electronAPI) {
-				this.electronAPI = this.plugin.getElectronAPI();
-				
-				if (!this.electronAPI) {
-					getLogger().error('❌ Electron API not available');
-					new Notice(t('notice.electronAPINotAvailable'));
-					return null;
-				}
-				
-				if (!this.electronAPI.remote) {
-					getLogger().error('❌ Electron remote not available');
-					new Notice(t('notice.electronRemoteNotAvailable'));
-					return null;
-				}
-				
-				const remoteElectron = this.electronAPI.remote.require('electron');
-				this.desktopCapturer = remoteElectron.desktopCapturer;
-				
-				if (!this.desktopCapturer) {
-					getLogger().error('❌ desktopCapturer not available');
-					new Notice(t('notice.desktopCapturerNotAvailable'));
-					return null;
-				}
+			if (!this.ensureCaptureAPI()) {
+				return null;
 			}
 			
-			// Fast path using cached API
+			// Request the display's native device-pixel resolution so scaled displays stay sharp
 			const sources = await this.desktopCapturer.getSources({
 				types: ['screen'],
 				thumbnailSize: { 
-					width: screen.width,
-					height: screen.height
+					width: Math.round(display.bounds.width * display.scaleFactor),
+					height: Math.round(display.bounds.height * display.scaleFactor)
 				}
 			});
 			
@@ -507,8 +987,8 @@ export class ScreenshotManager {
 				return null;
 			}
 			
-			const primarySource = sources[0];
-			getLogger().log('🔍 Primary source:', primarySource.name);
+			const primarySource = this.findDisplaySource(sources, display);
+			getLogger().log('🔍 Display source:', primarySource.name, primarySource.display_id);
 			
 			const primaryThumbnail = primarySource.thumbnail;
 			if (!primaryThumbnail) {
@@ -544,7 +1024,7 @@ export class ScreenshotManager {
 					});
 					
 					if (altSources.length > 0) {
-						const altThumbnail = altSources[0].thumbnail;
+						const altThumbnail = this.findDisplaySource(altSources, display).thumbnail;
 						if (altThumbnail && !altThumbnail.isEmpty()) {
 							const altSize = altThumbnail.getSize();
 							getLogger().log(`🔍 Alternative capture size: ${altSize.width}x${altSize.height}`);
@@ -587,7 +1067,11 @@ export class ScreenshotManager {
 		}
 	}
 
-	private async createExtendedCrop(imageData: string, region: Region): Promise<{imageData: string, extendedRegion: Region}> {
+	/**
+	 * Crop the selection plus surrounding area from a display screenshot.
+	 * imageRegion is the selection in screenshot pixels, which is what the editor works in.
+	 */
+	private async createExtendedCrop(imageData: string, region: Region, display: CaptureDisplay): Promise<{imageData: string, extendedRegion: Region, imageRegion: Region}> {
 		return new Promise((resolve) => {
 			const img = new Image();
 			img.onload = () => {
@@ -596,15 +1080,16 @@ export class ScreenshotManager {
 				const extensionX = Math.floor(region.width * extensionFactor);
 				const extensionY = Math.floor(region.height * extensionFactor);
 				
-				// Calculate scale factors (screenshot should match screen resolution)
-				const scaleX = img.width / screen.width;
-				const scaleY = img.height / screen.height;
+				// Calculate scale factors (screenshot is in the display's device pixels)
+				const scaleX = img.width / display.bounds.width;
+				const scaleY = img.height / display.bounds.height;
 				
-				// Apply scaling to screen coordinates
-				const scaledX = region.x * scaleX;
-				const scaledY = region.y * scaleY;
-				const scaledWidth = region.width * scaleX;
-				const scaledHeight = region.height * scaleY;
+				// Map screen coordinates into the display screenshot
+				const imageRegion = this.toImageRegion(region, display, img.width, img.height);
+				const scaledX = imageRegion.x;
+				const scaledY = imageRegion.y;
+				const scaledWidth = imageRegion.width;
+				const scaledHeight = imageRegion.height;
 				const scaledExtensionX = extensionX * scaleX;
 				const scaledExtensionY = extensionY * scaleY;
 				
@@ -644,28 +1129,26 @@ export class ScreenshotManager {
 				
 				resolve({
 					imageData: canvas.toDataURL('image/png'),
-					extendedRegion: extendedRegion
+					extendedRegion: extendedRegion,
+					imageRegion: imageRegion
 				});
 			};
 			img.src = imageData;
 		});
 	}
 
-	private async cropImage(imageData: string, region: Region): Promise<string> {
+	private async cropToCanvas(imageData: string, region: Region, display: CaptureDisplay): Promise<HTMLCanvasElement> {
 		return new Promise((resolve) => {
 			const img = new Image();
 			img.onload = () => {
 				getLogger().log('🔍 Screenshot dimensions:', { width: img.width, height: img.height });
 				
-				// Calculate scale factors (screenshot should match screen resolution)
-				const scaleX = img.width / screen.width;
-				const scaleY = img.height / screen.height;
-				
-				// Apply scaling to get final crop coordinates - region is already in screen coordinates
-				const finalX = region.x * scaleX;
-				const finalY = region.y * scaleY;
-				const finalWidth = region.width * scaleX;
-				const finalHeight = region.height * scaleY;
+				// Map screen coordinates into the display screenshot
+				const imageRegion = this.toImageRegion(region, display, img.width, img.height);
+				const finalX = imageRegion.x;
+				const finalY = imageRegion.y;
+				const finalWidth = imageRegion.width;
+				const finalHeight = imageRegion.height;
 				
 				getLogger().log('🔍 Final crop coordinates (after scaling):', { 
 					x: finalX, 
@@ -698,13 +1181,14 @@ export class ScreenshotManager {
 					);
 				}
 				
-				resolve(canvas.toDataURL('image/png'));
+				resolve(canvas);
 			};
 			img.src = imageData;
 		});
 	}
 
 	cleanup() {
+		this.removeCountdown();
 		this.removeOverlay();
 	}
 }
\ No newline at end of file
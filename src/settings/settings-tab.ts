@@ -1,10 +1,12 @@
 import { App, PluginSettingTab, Setting, Notice, WorkspaceLeaf } from 'obsidian';
 import ImageCapturePlugin from '../main';
-import { LLM_PROVIDERS, LLMProvider, LLMModel, AIChatMode } from '../types';
+import { LLM_PROVIDERS, LLMProvider, LLMModel, AIChatMode, ImageFormat, ColorPalette, PaletteTarget } from '../types';
 import { SetKeysModal } from '../ui/set-keys-modal';
 import { ManageModelsModal } from '../ui/manage-models-modal';
 import { i18n, t } from '../i18n';
 import { getLogger } from '../utils/logger';
+import { isLocalModel } from '../ai/providers';
+import { getImageFormatLabel, getSupportedImageFormats } from '../utils/image-format';
 
 // Interface for AI Chat View
 interface AIChatView {
@@ -118,6 +120,31 @@ export class ImageCaptureSettingTab extends PluginSettingTab {
 					}));
 		}
 
+		// 延时截图倒计时设置
+		new Setting(containerEl)
+			.setName(t('settings.captureDelaySeconds.name'))
+			.setDesc(t('settings.captureDelaySeconds.desc'))
+			.addDropdown(dropdown => dropdown
+				.addOption('3', t('settings.captureDelaySeconds.option', { seconds: 3 }))
+				.addOption('5', t('settings.captureDelaySeconds.option', { seconds: 5 }))
+				.addOption('10', t('settings.captureDelaySeconds.option', { seconds: 10 }))
+				.setValue(String(this.plugin.settings.captureDelaySeconds))
+				.onChange(async (value) => {
+					this.plugin.settings.captureDelaySeconds = parseInt(value, 10);
+					await this.plugin.saveSettings();
+				}));
+
+		// 重复截取上次区域时直接发送到AI预发送区
+		new Setting(containerEl)
+			.setName(t('settings.sendLastRegionToAI.name'))
+			.setDesc(t('settings.sendLastRegionToAI.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.sendLastRegionToAI)
+				.onChange(async (value) => {
+					this.plugin.settings.sendLastRegionToAI = value;
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl)
 			.setName(t('settings.defaultSaveLocation.name'))
 			.setDesc(t('settings.defaultSaveLocation.desc'))
@@ -132,15 +159,51 @@ export class ImageCaptureSettingTab extends PluginSettingTab {
 		new Setting(containerEl)
 			.setName(t('settings.imageFormat.name'))
 			.setDesc(t('settings.imageFormat.desc'))
+			.addDropdown(dropdown => {
+				// Formats this device can't encode are hidden, a saved one stays listed so it isn't silently changed
+				const formats = getSupportedImageFormats();
+				if (!formats.includes(this.plugin.settings.imageFormat)) {
+					formats.push(this.plugin.settings.imageFormat);
+				}
+				formats.forEach(format => dropdown.addOption(format, getImageFormatLabel(format)));
+				dropdown
+					.setValue(this.plugin.settings.imageFormat)
+					.onChange(async (value: ImageFormat) => {
+						this.plugin.settings.imageFormat = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(t('settings.imageQuality.name'))
+			.setDesc(t('settings.imageQuality.desc'))
+			.addSlider(slider => slider
+				.setLimits(10, 100, 5)
+				.setValue(this.plugin.settings.imageQuality)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.imageQuality = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.maxImageDimension.name'))
+			.setDesc(t('settings.maxImageDimension.desc'))
 			.addDropdown(dropdown => dropdown
-				.addOption('png', 'PNG (lossless)')
-				.addOption('jpg', 'JPG (compressed)')
-				.setValue(this.plugin.settings.imageFormat)
-				.onChange(async (value: 'png' | 'jpg') => {
-					this.plugin.settings.imageFormat = value;
+				.addOption('0', t('settings.maxImageDimension.off'))
+				.addOption('3840', '3840 px')
+				.addOption('2560', '2560 px')
+				.addOption('1920', '1920 px')
+				.addOption('1280', '1280 px')
+				.setValue(String(this.plugin.settings.maxImageDimension))
+				.onChange(async (value) => {
+					this.plugin.settings.maxImageDimension = parseInt(value, 10);
 					await this.plugin.saveSettings();
 				}));
 
+		// 标注调色板
+		this.createPaletteSettings(containerEl);
+
 		// AI Chat功能设置分类
 		containerEl.createEl('h3', { text: t('settings.aiFunction') });
 
@@ -303,6 +366,21 @@ export class ImageCaptureSettingTab extends PluginSettingTab {
 					})
 				);
 
+			new Setting(containerEl)
+				.setName(t('settings.downloadTokenizerTables.name'))
+				.setDesc(t('settings.downloadTokenizerTables.desc'))
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings.downloadTokenizerTables)
+					.onChange(async (value) => {
+						this.plugin.settings.downloadTokenizerTables = value;
+						await this.plugin.saveSettings();
+						this.plugin.aiManager.updateTokenizerSource();
+					}));
+
+
+			// 发送前隐私审查
+			this.createPrivacyReviewSettings(containerEl);
+
 				
 			// 第三块：会话记录相关设置
 			containerEl.createEl('h4', { text: t('settings.conversationHistory') });
@@ -517,6 +595,195 @@ export class ImageCaptureSettingTab extends PluginSettingTab {
 		}
 	}
 
+	/**
+	 * 发送前隐私审查设置：开关、OCR 来源与模型、检测规则列表
+	 */
+	private createPrivacyReviewSettings(containerEl: HTMLElement) {
+		const settings = this.plugin.settings.piiRedaction;
+		containerEl.createEl('h4', { text: t('settings.piiRedaction.heading') });
+
+		new Setting(containerEl)
+			.setName(t('settings.piiRedaction.enabled.name'))
+			.setDesc(t('settings.piiRedaction.enabled.desc'))
+			.addToggle(toggle => toggle
+				.setValue(settings.enabled)
+				.onChange(async (value) => {
+					settings.enabled = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (!settings.enabled) return;
+
+		const visionModels = this.plugin.settings.modelConfigs.filter(mc => mc.isVisionCapable);
+		const ocrModel = visionModels.find(mc => mc.id === settings.ocrModelConfigId);
+		const ocrSetting = new Setting(containerEl)
+			.setName(t('settings.piiRedaction.ocrModel.name'))
+			.setDesc(t('settings.piiRedaction.ocrModel.desc'))
+			.addDropdown(dropdown => {
+				dropdown.addOption('', t('settings.piiRedaction.ocrModel.none'));
+				visionModels.forEach(modelConfig => dropdown.addOption(modelConfig.id, modelConfig.name));
+				dropdown.setValue(ocrModel ? ocrModel.id : '')
+					.onChange(async (value) => {
+						settings.ocrModelConfigId = value;
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+
+		// The OCR model sees the images before redaction, warn when it is not on this machine
+		if (ocrModel && !isLocalModel(ocrModel, this.plugin.settings.providerCredentials[ocrModel.providerId])) {
+			ocrSetting.descEl.createDiv({ cls: 'pii-ocr-cloud-warning', text: t('settings.piiRedaction.ocrModel.cloudWarning') });
+		}
+
+		new Setting(containerEl)
+			.setName(t('settings.piiRedaction.allowCloudOcr.name'))
+			.setDesc(t('settings.piiRedaction.allowCloudOcr.desc'))
+			.addToggle(toggle => toggle
+				.setValue(settings.allowCloudOcr)
+				.onChange(async (value) => {
+					settings.allowCloudOcr = value;
+					await this.plugin.saveSettings();
+				}));
+
+		const rulesContainer = containerEl.createEl('div', { cls: 'pii-rules-container' });
+		new Setting(rulesContainer)
+			.setName(t('settings.piiRedaction.rules.name'))
+			.setDesc(t('settings.piiRedaction.rules.desc'))
+			.addButton(button => button
+				.setButtonText(t('settings.piiRedaction.rules.add'))
+				.onClick(async () => {
+					settings.rules.push({ id: `custom-${Date.now()}`, name: '', pattern: '', enabled: true });
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		settings.rules.forEach((rule, index) => {
+			const ruleSetting = new Setting(rulesContainer)
+				.addText(text => text
+					.setPlaceholder(t('settings.piiRedaction.rules.namePlaceholder'))
+					.setValue(rule.name)
+					.onChange(async (value) => {
+						rule.name = value;
+						await this.plugin.saveSettings();
+					}))
+				.addText(text => {
+					text.inputEl.addClass('pii-rule-pattern-input');
+					text.setPlaceholder(t('settings.piiRedaction.rules.patternPlaceholder'))
+						.setValue(rule.pattern)
+						.onChange(async (value) => {
+							rule.pattern = value;
+							// Keep invalid patterns so typing isn't interrupted, they are skipped during the review
+							text.inputEl.toggleClass('pii-rule-invalid', !this.isValidPattern(value));
+							await this.plugin.saveSettings();
+						});
+					text.inputEl.toggleClass('pii-rule-invalid', !this.isValidPattern(rule.pattern));
+				})
+				.addToggle(toggle => toggle
+					.setValue(rule.enabled)
+					.onChange(async (value) => {
+						rule.enabled = value;
+						await this.plugin.saveSettings();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash-2')
+					.setTooltip(t('settings.piiRedaction.rules.remove'))
+					.onClick(async () => {
+						settings.rules.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+			ruleSetting.settingEl.addClass('pii-rule-setting');
+		});
+	}
+
+	private createPaletteSettings(containerEl: HTMLElement) {
+		containerEl.createEl('h4', { text: t('settings.palettes.heading') });
+
+		const targets: { target: PaletteTarget, name: string, desc: string }[] = [
+			{ target: 'pen', name: t('settings.palettes.pen.name'), desc: t('settings.palettes.pen.desc') },
+			{ target: 'highlighter', name: t('settings.palettes.highlighter.name'), desc: t('settings.palettes.highlighter.desc') }
+		];
+		targets.forEach(({ target, name, desc }) => {
+			const palettes = this.plugin.settings.annotationColors.palettes[target];
+			const palettesContainer = containerEl.createEl('div', { cls: 'palette-settings-container' });
+			new Setting(palettesContainer)
+				.setName(name)
+				.setDesc(desc)
+				.addButton(button => button
+					.setButtonText(t('settings.palettes.add'))
+					.onClick(async () => {
+						palettes.push({ id: `palette-${Date.now()}`, name: '', colors: [] });
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+
+			palettes.forEach((palette, index) => {
+				const paletteSetting = new Setting(palettesContainer);
+				const preview = paletteSetting.infoEl.createDiv({ cls: 'palette-preview' });
+				this.renderPalettePreview(preview, palette);
+
+				paletteSetting
+					.addText(text => text
+						.setPlaceholder(t('settings.palettes.namePlaceholder'))
+						.setValue(palette.name)
+						.onChange(async (value) => {
+							palette.name = value;
+							await this.plugin.saveSettings();
+						}))
+					.addText(text => {
+						text.inputEl.addClass('palette-colors-input');
+						text.setPlaceholder('#2563eb, #dc2626')
+							.setValue(palette.colors.join(', '))
+							.onChange(async (value) => {
+								// Colours are only stored once every entry is a valid hex colour
+								const colors = this.parsePaletteColors(value);
+								text.inputEl.toggleClass('palette-colors-invalid', colors === null);
+								if (!colors) return;
+								palette.colors = colors;
+								this.renderPalettePreview(preview, palette);
+								await this.plugin.saveSettings();
+							});
+					})
+					.addExtraButton(button => button
+						.setIcon('trash-2')
+						.setTooltip(t('settings.palettes.remove'))
+						.onClick(async () => {
+							palettes.splice(index, 1);
+							await this.plugin.saveSettings();
+							this.display();
+						}));
+				paletteSetting.settingEl.addClass('palette-setting');
+			});
+		});
+	}
+
+	private renderPalettePreview(preview: HTMLElement, palette: ColorPalette) {
+		preview.empty();
+		palette.colors.forEach(color => {
+			const swatch = preview.createSpan({ cls: 'palette-preview-swatch' });
+			swatch.style.setProperty('--swatch-color', color);
+			swatch.title = color;
+		});
+	}
+
+	// '#rrggbb' colours separated by commas or spaces, null when one of them isn't valid
+	private parsePaletteColors(value: string): string[] | null {
+		const entries = value.split(/[\s,]+/).filter(entry => entry.length > 0);
+		const colors = entries.map(entry => entry.startsWith('#') ? entry : `#${entry}`);
+		if (colors.some(color => !/^#[0-9a-f]{6}$/i.test(color))) return null;
+		return colors.map(color => color.toLowerCase());
+	}
+
+	private isValidPattern(pattern: string): boolean {
+		try {
+			new RegExp(pattern, 'gi');
+			return true;
+		} catch (error) {
+			return false;
+		}
+	}
+
 	private refreshModelDependentComponents() {
 		// Refresh AI chat views
 		const aiChatLeaves = this.plugin.app.workspace.getLeavesOfType('ai-chat');
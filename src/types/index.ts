@@ -28,6 +28,8 @@ export interface ModelConfig {
 	settings: ModelSettings;
 	createdAt: Date;
 	lastUsed?: Date;
+	// Model config ids tried in order when this model is rate-limited or unavailable
+	fallbackModelIds?: string[];
 	// For custom providers, store provider info directly in model config
 	customProvider?: {
 		name: string;
@@ -91,6 +93,9 @@ export const AI_CHAT_MODES: AIChatModeConfig[] = [
 	}
 ];
 
+// Saved image formats, WebP and AVIF only where the canvas can encode them
+export type ImageFormat = 'png' | 'jpg' | 'webp' | 'avif';
+
 export interface ImageCaptureSettings {
 	language: string;
 	defaultSaveLocation: string;
@@ -99,7 +104,9 @@ export interface ImageCaptureSettings {
 	autoSavedConversationLocation: string;
 	tempImageLimit: number; // Maximum number of temporary images before warning
 	enableAIAnalysis: boolean;
-	imageFormat: 'png' | 'jpg';
+	imageFormat: ImageFormat;
+	imageQuality: number; // 10-100, used by JPG, WebP and AVIF
+	maxImageDimension: number; // Longest side of saved images in pixels, 0 keeps the full size
 	enableRegionSelect: boolean;
 	useRelativePath: boolean;
 	autoSaveConversations: boolean;
@@ -120,6 +127,7 @@ export interface ImageCaptureSettings {
 	contextSettings: {
 		maxContextMessages: number;      // Maximum number of historical message blocks to include (1 block = 1 UI message regardless of image count)
 	};
+	downloadTokenizerTables: boolean;   // Download OpenAI's tokenizer tables for exact token counts, otherwise tokens are estimated
 	// Debug settings
 	enableDebugLogging: boolean;        // Enable debug logging to console
 	// Send-only button settings
@@ -128,11 +136,84 @@ export interface ImageCaptureSettings {
 	showNormalCaptureButton: boolean;       // Whether to show normal capture button
 	enableMinimizedCapture: boolean;        // Whether to enable minimized capture feature
 	showMinimizedCaptureButton: boolean;    // Whether to show minimized capture button (sub-option)
+	captureDelaySeconds: number;            // Countdown before a delayed capture (3, 5 or 10 seconds)
+	lastCaptureRegion: LastCaptureRegion | null; // Last overlay selection, reused by "Capture last region"
+	sendLastRegionToAI: boolean;            // "Capture last region" skips the editor and adds the image to the AI queue
 	showAIChatPanelButton: boolean;         // Whether to show AI chat panel button
+	// Privacy review of queued images before they are sent to a model
+	piiRedaction: PIIRedactionSettings;
+	// Named palettes and recently used colours in the image editor
+	annotationColors: AnnotationColorSettings;
 	// Internal tracking for UI refresh
 	_modelConfigsLastCount?: number;   // Internal: tracks model count for settings refresh
 }
 
+// Pattern for one kind of sensitive text found by the pre-send privacy review
+export interface PIIRule {
+	id: string;
+	name: string;
+	pattern: string;   // Regular expression source, matched case-insensitively
+	enabled: boolean;
+}
+
+export interface PIIRedactionSettings {
+	enabled: boolean;
+	ocrModelConfigId: string;   // Vision model used for OCR, the review fails until one is chosen
+	allowCloudOcr: boolean;     // Let a non-local OCR model see the unredacted images
+	rules: PIIRule[];
+}
+
+export const DEFAULT_PII_RULES: PIIRule[] = [
+	{
+		id: 'email',
+		name: 'Email address',
+		pattern: '[A-Z0-9._%+-]+@[A-Z0-9.-]+\\.[A-Z]{2,}',
+		enabled: true
+	},
+	{
+		id: 'phone',
+		name: 'Phone number',
+		pattern: '(?:\\+?\\d{1,3}[\\s.-]?)?(?:\\(\\d{2,4}\\)|\\d{2,4})[\\s.-]?\\d{3,4}[\\s.-]?\\d{3,4}',
+		enabled: true
+	},
+	{
+		id: 'api-key',
+		name: 'API key or token',
+		pattern: '\\b(?:sk|pk|rk|ghp|gho|ghs|xox[abpr]|AKIA|AIza)[-_A-Z0-9]{12,}|\\b[A-Z0-9_-]{32,}\\b',
+		enabled: true
+	},
+	{
+		id: 'ip-address',
+		name: 'IP address',
+		pattern: '\\b(?:(?:25[0-5]|2[0-4]\\d|1?\\d?\\d)\\.){3}(?:25[0-5]|2[0-4]\\d|1?\\d?\\d)\\b|\\b(?:[0-9A-F]{1,4}:){7}[0-9A-F]{1,4}\\b',
+		enabled: true
+	}
+];
+
+// Named set of annotation colours, e.g. a team's brand colours
+export interface ColorPalette {
+	id: string;
+	name: string;
+	colors: string[];   // '#rrggbb'
+}
+
+// The pen and the highlighter keep separate palettes and recent colours
+export type PaletteTarget = 'pen' | 'highlighter';
+
+export interface AnnotationColorSettings {
+	palettes: Record<PaletteTarget, ColorPalette[]>;
+	recent: Record<PaletteTarget, string[]>;   // Most recent first
+}
+
+export const DEFAULT_COLOR_PALETTES: Record<PaletteTarget, ColorPalette[]> = {
+	pen: [
+		{ id: 'default', name: 'Default', colors: ['#2563eb', '#dc2626', '#16a34a', '#f59e0b', '#000000', '#ffffff'] }
+	],
+	highlighter: [
+		{ id: 'default', name: 'Default', colors: ['#ffff00', '#a3e635', '#f472b6', '#60a5fa', '#fb923c'] }
+	]
+};
+
 export interface CustomProvider {
 	id: string;
 	name: string;
@@ -243,6 +324,16 @@ export const LLM_PROVIDERS: LLMProvider[] = [
 			{ id: 'qwen/qwen-vl-chat', name: 'Qwen VL Chat', hasVision: true, maxTokens: 4096, contextWindow: 32768 }
 		]
 	},
+	{
+		id: 'ollama',
+		name: 'Ollama',
+		displayName: 'Local (Ollama / LM Studio)',
+		requiresApiKey: false,
+		requiresBaseUrl: true,
+		defaultBaseUrl: 'http://localhost:11434',
+		// Installed models are discovered from the local server
+		models: []
+	},
 	{
 		id: 'custom',
 		name: 'Custom',
@@ -325,6 +416,8 @@ export const DEFAULT_SETTINGS: ImageCaptureSettings = {
 	tempImageLimit: 10,
 	enableAIAnalysis: true,
 	imageFormat: 'png',
+	imageQuality: 90,
+	maxImageDimension: 0,
 	enableRegionSelect: true,
 	useRelativePath: true,
 	autoSaveConversations: true,
@@ -342,6 +435,7 @@ export const DEFAULT_SETTINGS: ImageCaptureSettings = {
 	contextSettings: {
 		maxContextMessages: 10,
 	},
+	downloadTokenizerTables: false,
 	// Debug settings
 	enableDebugLogging: false,
 	// Send-only button settings
@@ -350,7 +444,23 @@ export const DEFAULT_SETTINGS: ImageCaptureSettings = {
 	showNormalCaptureButton: true,
 	enableMinimizedCapture: false,
 	showMinimizedCaptureButton: true,
-	showAIChatPanelButton: false
+	captureDelaySeconds: 3,
+	lastCaptureRegion: null,
+	sendLastRegionToAI: false,
+	showAIChatPanelButton: false,
+	piiRedaction: {
+		enabled: false,
+		ocrModelConfigId: '',
+		allowCloudOcr: false,
+		rules: DEFAULT_PII_RULES.map(rule => ({ ...rule }))
+	},
+	annotationColors: {
+		palettes: {
+			pen: DEFAULT_COLOR_PALETTES.pen.map(palette => ({ ...palette, colors: [...palette.colors] })),
+			highlighter: DEFAULT_COLOR_PALETTES.highlighter.map(palette => ({ ...palette, colors: [...palette.colors] }))
+		},
+		recent: { pen: [], highlighter: [] }
+	}
 };
 
 export interface EditTool {
@@ -366,6 +476,19 @@ export interface Region {
 	height: number;
 }
 
+// A physical display, bounds are in screen (DIP) coordinates as reported by Electron
+export interface CaptureDisplay {
+	id: string;
+	bounds: Region;
+	scaleFactor: number;
+}
+
+// Last region selected on the overlay, in screen coordinates, with the display it was on
+export interface LastCaptureRegion {
+	region: Region;
+	display: CaptureDisplay;
+}
+
 export type StrokeSize = 'small' | 'medium' | 'large';
 
 export interface StrokeSetting {
@@ -373,15 +496,96 @@ export interface StrokeSetting {
 	width: number;
 }
 
-// Stroke object for zoom-aware rendering
-export interface Stroke {
+export interface Point {
+	x: number;
+	y: number;
+}
+
+// Fields shared by every annotation on the image editor's edit layer
+interface BaseAnnotation {
 	id: string;
-	tool: string;
-	points: {x: number, y: number}[];
 	color: string;
-	thickness: number;
 	strokeSize: StrokeSize;
-	isHighlighter: boolean;
-	userZoom: number; // Zoom level when this stroke was drawn
-	timestamp: number;
-}
\ No newline at end of file
+	thickness: number; // Line width in full screenshot pixels
+}
+
+// Free-hand stroke, highlighter strokes are composited on their own translucent layer
+export interface PathAnnotation extends BaseAnnotation {
+	type: 'pen' | 'highlighter';
+	points: Point[];
+}
+
+export type ShapeType = 'line' | 'wavy-line' | 'dashed-line' | 'dotted-line' | 'rectangle' | 'ellipse' | 'arrow';
+
+// Two-point shape drawn from start to end
+export interface ShapeAnnotation extends BaseAnnotation {
+	type: ShapeType;
+	start: Point;
+	end: Point;
+}
+
+// Text label, position is the top-left corner of its box
+export interface TextAnnotation extends BaseAnnotation {
+	type: 'text';
+	position: Point;
+	text: string;
+	fontSize: number; // In full screenshot pixels
+	background: boolean; // Draw a contrasting box behind the text
+}
+
+export type RedactionStyle = 'blur' | 'pixelate' | 'solid';
+
+// Rectangle whose background pixels are obscured, not painted over
+export interface RedactionAnnotation extends BaseAnnotation {
+	type: 'redaction';
+	style: RedactionStyle;
+	start: Point;
+	end: Point;
+}
+
+// Numbered circle, the number is its position among the step markers so deleting one renumbers the rest
+export interface StepAnnotation extends BaseAnnotation {
+	type: 'step';
+	position: Point;   // Centre of the circle
+	radius: number;
+	connector: boolean; // Draw an arrow from the previous step to this one
+}
+
+export type SpotlightShape = 'rectangle' | 'ellipse';
+
+// Area left bright while everything outside every spotlight is dimmed
+export interface SpotlightAnnotation extends BaseAnnotation {
+	type: 'spotlight';
+	shape: SpotlightShape;
+	start: Point;
+	end: Point;
+	opacity: number;   // Darkness of the dimmed area, 0-1
+}
+
+// Enlarged copy of the area between start and end, sampled from the full resolution capture
+export interface MagnifierAnnotation extends BaseAnnotation {
+	type: 'magnifier';
+	start: Point;       // Corners of the magnified area
+	end: Point;
+	target: Region;     // Where the enlarged copy is drawn, its size sets the zoom
+	connector: boolean; // Draw a line from the magnified area to the copy
+}
+
+// Annotation object, coordinates are in full screenshot pixels
+export type Annotation = PathAnnotation | ShapeAnnotation | TextAnnotation | RedactionAnnotation | StepAnnotation | SpotlightAnnotation | MagnifierAnnotation;
+
+// Size of the exported image: a percentage of the crop, or a width it is scaled down to fit
+export interface OutputScale {
+	mode: 'percent' | 'max-width';
+	value: number;
+}
+
+// Editable state saved next to an image so the editor can reopen it
+export interface EditSidecar {
+	version: number;
+	originalFile: string;      // PNG next to the sidecar: the exported area plus a margin, with redactions, rotation and flips already applied
+	crop: Region | null;       // Exported area in pixels of the original, null when the whole original was exported
+	annotations: Annotation[]; // In pixels of the original, everything except redactions, which are baked into it
+	outputScale?: OutputScale;
+	savedAt: string;
+}
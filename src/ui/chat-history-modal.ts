@@ -272,12 +272,14 @@ export class ChatHistoryModal extends Modal {
 				// Parse timestamp and includeInContext info
 				let timestampStr = timestampAndContextInfo;
 				let includeInContext = true; // default value
+				let modelName: string | undefined;
 				
-				// Check if there's includeInContext info in the comment
-				const contextInfoMatch = timestampAndContextInfo.match(/(.*?)\|includeInContext:(true|false)$/);
+				// Check if there's includeInContext info (and the answering model) in the comment
+				const contextInfoMatch = timestampAndContextInfo.match(/(.*?)\|includeInContext:(true|false)(?:\|model:(.*))?$/);
 				if (contextInfoMatch) {
 					timestampStr = contextInfoMatch[1];
 					includeInContext = contextInfoMatch[2] === 'true';
+					modelName = contextInfoMatch[3]?.trim() || undefined;
 				}
 				
 				let timestamp = new Date();
@@ -291,7 +293,8 @@ export class ChatHistoryModal extends Modal {
 					id: 'loaded_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9),
 					type: messageType as 'user' | 'assistant',
 					timestamp: timestamp,
-					includeInContext: includeInContext
+					includeInContext: includeInContext,
+					modelName: modelName
 				};
 				
 				currentContent = initialContent ? [initialContent] : [];
@@ -0,0 +1,128 @@
+import { CaptureDisplay, Region } from '../types';
+
+interface SelectionPageOptions {
+	image: string;
+	instruction: string;
+}
+
+/**
+ * Runs inside the selection window, so it must not reference anything outside its own body.
+ * The snapshot fills the window at the display's own size, one image pixel per physical pixel.
+ * Resolves with the dragged rectangle in window (DIP) coordinates, or null when cancelled.
+ */
+function runSelectionPage(options: SelectionPageOptions): Promise<Region | null> {
+	return new Promise(resolve => {
+		const body = document.body;
+		body.style.cssText = 'margin:0;overflow:hidden;cursor:crosshair;user-select:none;background:#000;';
+
+		const image = document.createElement('img');
+		image.src = options.image;
+		image.draggable = false;
+		image.style.cssText = 'position:fixed;left:0;top:0;width:100vw;height:100vh;pointer-events:none;';
+
+		const shade = document.createElement('div');
+		shade.style.cssText = 'position:fixed;left:0;top:0;right:0;bottom:0;background:rgba(0,0,0,0.3);pointer-events:none;';
+
+		const box = document.createElement('div');
+		box.style.cssText = 'position:fixed;display:none;border:2px solid #00ff00;background:rgba(0,255,0,0.1);box-shadow:0 0 0 9999px rgba(0,0,0,0.3);pointer-events:none;box-sizing:border-box;';
+
+		const hint = document.createElement('div');
+		hint.textContent = options.instruction;
+		hint.style.cssText = 'position:fixed;top:20px;left:50%;transform:translateX(-50%);padding:8px 16px;border-radius:6px;background:rgba(0,0,0,0.8);color:#fff;font:14px sans-serif;pointer-events:none;';
+
+		body.append(image, shade, box, hint);
+
+		let start: { x: number; y: number } | null = null;
+		let done = false;
+		const finish = (region: Region | null) => {
+			if (done) return;
+			done = true;
+			resolve(region);
+		};
+		const toRect = (from: { x: number; y: number }, e: MouseEvent): Region => ({
+			x: Math.min(from.x, e.clientX),
+			y: Math.min(from.y, e.clientY),
+			width: Math.abs(e.clientX - from.x),
+			height: Math.abs(e.clientY - from.y)
+		});
+
+		document.addEventListener('mousedown', e => {
+			if (e.button !== 0) return;
+			start = { x: e.clientX, y: e.clientY };
+			shade.style.display = 'none';
+			hint.style.display = 'none';
+			box.style.display = 'block';
+		});
+		document.addEventListener('mousemove', e => {
+			if (!start) return;
+			const rect = toRect(start, e);
+			box.style.left = rect.x + 'px';
+			box.style.top = rect.y + 'px';
+			box.style.width = rect.width + 'px';
+			box.style.height = rect.height + 'px';
+		});
+		document.addEventListener('mouseup', e => {
+			if (!start) return;
+			const rect = toRect(start, e);
+			finish(rect.width > 10 && rect.height > 10 ? rect : null);
+		});
+		document.addEventListener('keydown', e => {
+			if (e.key === 'Escape') finish(null);
+		});
+	});
+}
+
+/**
+ * 在目标显示器上打开一个覆盖整屏的无边框窗口，显示该屏截图并按原生比例框选
+ * 用于光标所在屏幕不是 Obsidian 窗口所在屏幕的情况，返回屏幕坐标（DIP）下的选区，取消时返回 null
+ */
+export async function selectRegionOnDisplay(remote: any, display: CaptureDisplay, screenshot: string, instruction: string): Promise<Region | null> {
+	const { bounds } = display;
+	const selectionWindow = new remote.BrowserWindow({
+		x: bounds.x,
+		y: bounds.y,
+		width: bounds.width,
+		height: bounds.height,
+		show: false,
+		frame: false,
+		resizable: false,
+		movable: false,
+		minimizable: false,
+		maximizable: false,
+		fullscreenable: false,
+		skipTaskbar: true,
+		hasShadow: false,
+		enableLargerThanScreen: true,
+		backgroundColor: '#000000',
+		webPreferences: { nodeIntegration: false, contextIsolation: true }
+	});
+
+	try {
+		// Cover menu bars and docks as well, and pin the window to the target display
+		selectionWindow.setAlwaysOnTop(true, 'screen-saver');
+		selectionWindow.setBounds({ x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height });
+		await selectionWindow.loadURL('about:blank');
+		selectionWindow.show();
+		selectionWindow.focus();
+
+		const options: SelectionPageOptions = { image: screenshot, instruction };
+		const closed = new Promise<null>(resolve => selectionWindow.once('closed', () => resolve(null)));
+		const selected: Promise<Region | null> = selectionWindow.webContents.executeJavaScript(
+			`(${runSelectionPage.toString()})(${JSON.stringify(options)})`,
+			true
+		);
+		const region = await Promise.race([selected, closed]);
+		if (!region) return null;
+
+		return {
+			x: bounds.x + region.x,
+			y: bounds.y + region.y,
+			width: region.width,
+			height: region.height
+		};
+	} finally {
+		if (!selectionWindow.isDestroyed()) {
+			selectionWindow.destroy();
+		}
+	}
+}
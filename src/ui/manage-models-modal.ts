@@ -255,6 +255,9 @@ export class ManageModelsModal extends Modal {
 					await this.plugin.saveSettings();
 				}));
 
+		// Fallback models
+		this.renderFallbackSettings(settingsForm, modelConfig);
+
 		// Reset to defaults button
 		const resetBtn = settingsForm.createEl('button', { 
 			text: t('manageModels.resetToDefaultsButton'),
@@ -268,11 +271,86 @@ export class ManageModelsModal extends Modal {
 		});
 	}
 
+	/**
+	 * 备用模型链：当前模型在重试后仍被限流或不可用时，按顺序尝试这些模型
+	 * 发送图片时会跳过不支持视觉的备用模型
+	 */
+	private renderFallbackSettings(container: HTMLElement, modelConfig: ModelConfig) {
+		const fallbackEl = container.createEl('div', { cls: 'model-fallbacks' });
+
+		const update = async (ids: string[]) => {
+			modelConfig.fallbackModelIds = ids;
+			await this.plugin.saveSettings();
+			render();
+		};
+
+		const render = () => {
+			fallbackEl.empty();
+			const others = this.plugin.settings.modelConfigs.filter(mc => mc.id !== modelConfig.id);
+			const fallbackIds = (modelConfig.fallbackModelIds || []).filter(id => others.some(mc => mc.id === id));
+			const available = others.filter(mc => !fallbackIds.includes(mc.id));
+
+			const setting = new Setting(fallbackEl)
+				.setName(t('manageModels.fallbackLabel'))
+				.setDesc(t('manageModels.fallbackDescription'));
+			if (available.length > 0) {
+				setting.addDropdown(dropdown => {
+					dropdown.addOption('', t('manageModels.fallbackAdd'));
+					available.forEach(mc => dropdown.addOption(mc.id, mc.name));
+					dropdown.onChange(async (id) => {
+						if (id) {
+							await update([...fallbackIds, id]);
+						}
+					});
+				});
+			}
+
+			fallbackIds.forEach((id, index) => {
+				const fallback = others.find(mc => mc.id === id);
+				if (!fallback) return;
+				const swap = (other: number) => {
+					const ids = [...fallbackIds];
+					[ids[index], ids[other]] = [ids[other], ids[index]];
+					return update(ids);
+				};
+				const row = new Setting(fallbackEl)
+					.setName(`${index + 1}. ${fallback.name}`)
+					.setClass('model-fallback-item');
+				if (!fallback.isVisionCapable) {
+					row.setDesc(t('manageModels.fallbackTextOnly'));
+				}
+				row.addExtraButton(button => button
+					.setIcon('arrow-up')
+					.setTooltip(t('manageModels.fallbackMoveUp'))
+					.setDisabled(index === 0)
+					.onClick(() => swap(index - 1)));
+				row.addExtraButton(button => button
+					.setIcon('arrow-down')
+					.setTooltip(t('manageModels.fallbackMoveDown'))
+					.setDisabled(index === fallbackIds.length - 1)
+					.onClick(() => swap(index + 1)));
+				row.addExtraButton(button => button
+					.setIcon('x')
+					.setTooltip(t('manageModels.fallbackRemove'))
+					.onClick(() => update(fallbackIds.filter(fallbackId => fallbackId !== id))));
+			});
+		};
+
+		render();
+	}
+
 	private confirmDelete(modelConfig: ModelConfig, index: number) {
 		const modal = new ConfirmDeleteModal(this.plugin, modelConfig, () => {
 			// Remove from settings
 			this.plugin.settings.modelConfigs.splice(index, 1);
 			
+			// Drop the deleted model from other models' fallback chains
+			this.plugin.settings.modelConfigs.forEach(mc => {
+				if (mc.fallbackModelIds) {
+					mc.fallbackModelIds = mc.fallbackModelIds.filter(id => id !== modelConfig.id);
+				}
+			});
+			
 			// If this was the default model, clear the default or set to first available model
 			if (this.plugin.settings.defaultModelConfigId === modelConfig.id) {
 				// Find another model to set as default (prefer vision-capable, but any will do)
@@ -1,8 +1,9 @@
-import { Modal, Setting, Notice, DropdownComponent, requestUrl, RequestUrlResponsePromise, RequestUrlResponse, WorkspaceLeaf } from 'obsidian';
+import { Modal, Setting, Notice, DropdownComponent, WorkspaceLeaf } from 'obsidian';
 import ImageCapturePlugin from '../main';
 import { LLM_PROVIDERS, LLMProvider, LLMModel, ModelConfig, DEFAULT_MODEL_SETTINGS } from '../types';
 import { t } from '../i18n';
 import { getLogger } from '../utils/logger';
+import { getProviderAdapter, isProviderReady, ProviderCredential } from '../ai/providers';
 
 // Interface for AI Chat View
 interface AIChatView {
@@ -98,23 +99,25 @@ export class SetKeysModal extends Modal {
 		}
 
 		// API Key setting with inline verify button
+		// Local providers need no key: the same row holds the server URL and a reachability check
+		const isLocalProvider = !provider.requiresApiKey;
 		const apiKeyContainer = providerEl.createEl('div', { cls: 'api-key-container' });
 		const apiKeyLabel = apiKeyContainer.createEl('div', { cls: 'setting-item-info' });
-		apiKeyLabel.createEl('div', { text: t('setKeys.apiKeyLabel'), cls: 'setting-item-name' });
-		apiKeyLabel.createEl('div', { text: t('setKeys.apiKeyDescription'), cls: 'setting-item-description' });
+		apiKeyLabel.createEl('div', { text: isLocalProvider ? t('setKeys.serverUrlLabel') : t('setKeys.apiKeyLabel'), cls: 'setting-item-name' });
+		apiKeyLabel.createEl('div', { text: isLocalProvider ? t('setKeys.serverUrlDescription') : t('setKeys.apiKeyDescription'), cls: 'setting-item-description' });
 		
 		const apiKeyInputContainer = apiKeyContainer.createEl('div', { cls: 'api-key-input-container' });
 		
 		const apiKeyInput = apiKeyInputContainer.createEl('input', { 
-			type: 'password',
-			placeholder: t('setKeys.apiKeyPlaceholder'),
+			type: isLocalProvider ? 'text' : 'password',
+			placeholder: isLocalProvider ? (provider.defaultBaseUrl || '') : t('setKeys.apiKeyPlaceholder'),
 			cls: 'input-base api-key-input'
 		});
-		apiKeyInput.value = apiKey;
+		apiKeyInput.value = isLocalProvider ? baseUrl : apiKey;
 		
 		// Verify button inline with input
 		const verifyButton = apiKeyInputContainer.createEl('button', { 
-			text: t('setKeys.verifyButton'),
+			text: isLocalProvider ? t('setKeys.checkConnectionButton') : t('setKeys.verifyButton'),
 			cls: 'btn-base verify-button-inline'
 		});
 		
@@ -127,7 +130,11 @@ export class SetKeysModal extends Modal {
 					verified: false
 				};
 			}
-			this.plugin.settings.providerCredentials[provider.id].apiKey = value;
+			if (isLocalProvider) {
+				this.plugin.settings.providerCredentials[provider.id].baseUrl = value.trim();
+			} else {
+				this.plugin.settings.providerCredentials[provider.id].apiKey = value;
+			}
 			await this.plugin.saveSettings();
 			
 			// Reset verification state when API key changes
@@ -140,8 +147,8 @@ export class SetKeysModal extends Modal {
 		
 		verifyButton.addEventListener('click', () => this.verifyProvider(provider.id));
 
-		// Base URL setting (if required)
-		if (provider.requiresBaseUrl) {
+		// Base URL setting (if required, local providers already show it next to the connection check)
+		if (provider.requiresBaseUrl && !isLocalProvider) {
 			new Setting(providerEl)
 				.setName(t('setKeys.baseUrlLabel'))
 				.setDesc(t('setKeys.baseUrlDescription'))
@@ -307,27 +314,29 @@ export class SetKeysModal extends Modal {
 		const verifyButton = providerData.verifyButton;
 
 		const state = this.verificationStates.get(providerId) || 'idle';
+		// Local providers report reachability rather than key validity
+		const isLocalProvider = !provider.requiresApiKey;
 		
 		// Remove all state classes first
 		verifyButton.classList.remove('verified', 'verifying', 'error');
 		
 		switch (state) {
 			case 'idle':
-				verifyButton.textContent = t('setKeys.verifyButton');
+				verifyButton.textContent = isLocalProvider ? t('setKeys.checkConnectionButton') : t('setKeys.verifyButton');
 				verifyButton.disabled = false;
 				break;
 			case 'verifying':
-				verifyButton.textContent = t('setKeys.verifyingButton');
+				verifyButton.textContent = isLocalProvider ? t('setKeys.checkingConnectionButton') : t('setKeys.verifyingButton');
 				verifyButton.disabled = true;
 				verifyButton.classList.add('verifying');
 				break;
 			case 'verified':
-				verifyButton.textContent = t('setKeys.verifiedButton');
+				verifyButton.textContent = isLocalProvider ? t('setKeys.reachableButton') : t('setKeys.verifiedButton');
 				verifyButton.disabled = false;
 				verifyButton.classList.add('verified', 'set-keys-verify-success');
 				break;
 			case 'error':
-				verifyButton.textContent = t('setKeys.retryButton');
+				verifyButton.textContent = isLocalProvider ? t('setKeys.unreachableButton') : t('setKeys.retryButton');
 				verifyButton.disabled = false;
 				verifyButton.classList.add('error', 'set-keys-verify-error');
 				break;
@@ -350,6 +359,7 @@ export class SetKeysModal extends Modal {
 
 		const state = this.verificationStates.get(providerId) || 'idle';
 		const isVerified = state === 'verified';
+		const verifyFirstText = provider.requiresApiKey ? t('setKeys.verifyApiKeyFirst') : t('setKeys.checkConnectionFirst');
 		
 		addModelButton.disabled = !isVerified;
 		modelInput.disabled = !isVerified;
@@ -391,7 +401,7 @@ export class SetKeysModal extends Modal {
 			
 			if (isCustomProvider) {
 				const textInput = modelInput as HTMLInputElement;
-				textInput.placeholder = t('setKeys.verifyApiKeyFirst');
+				textInput.placeholder = verifyFirstText;
 				textInput.value = '';
 			} else {
 				const dropdown = modelInput as HTMLSelectElement;
@@ -404,7 +414,7 @@ export class SetKeysModal extends Modal {
 				// Add disabled placeholder option
 				const placeholderOption = document.createElement('option');
 				placeholderOption.value = '';
-				placeholderOption.textContent = t('setKeys.verifyApiKeyFirst');
+				placeholderOption.textContent = verifyFirstText;
 				dropdown.appendChild(placeholderOption);
 			}
 		}
@@ -414,8 +424,17 @@ export class SetKeysModal extends Modal {
 		const provider = LLM_PROVIDERS.find(p => p.id === providerId);
 		if (!provider) return;
 
+		if (!provider.requiresApiKey && !this.plugin.settings.providerCredentials[providerId]) {
+			// Local providers can be checked straight away against the default server URL
+			this.plugin.settings.providerCredentials[providerId] = {
+				apiKey: '',
+				baseUrl: provider.defaultBaseUrl,
+				verified: false
+			};
+		}
+
 		const credentials = this.plugin.settings.providerCredentials[providerId];
-		if (!credentials || !credentials.apiKey.trim()) {
+		if (!credentials || (provider.requiresApiKey && !credentials.apiKey.trim())) {
 			new Notice(t('notice.enterApiKeyFirst'));
 			return;
 		}
@@ -436,12 +455,21 @@ export class SetKeysModal extends Modal {
 				// Load available models
 				await this.loadAvailableModels(provider);
 				
-				new Notice(`✅ ${provider.displayName} API key verified successfully`);
+				if (provider.requiresApiKey) {
+					new Notice(`✅ ${provider.displayName} API key verified successfully`);
+				} else {
+					new Notice(t('notice.localServerReachable', { provider: provider.displayName }));
+				}
 			} else {
 				this.verificationStates.set(providerId, 'error');
 				credentials.verified = false;
-				credentials.lastError = 'Invalid API key';
-				new Notice(`❌ ${provider.displayName} API key verification failed`);
+				if (provider.requiresApiKey) {
+					credentials.lastError = 'Invalid API key';
+					new Notice(`❌ ${provider.displayName} API key verification failed`);
+				} else {
+					credentials.lastError = 'Server not reachable';
+					new Notice(t('notice.localServerUnreachable', { provider: provider.displayName, url: credentials.baseUrl || provider.defaultBaseUrl || '' }));
+				}
 			}
 
 			await this.plugin.saveSettings();
@@ -461,36 +489,20 @@ export class SetKeysModal extends Modal {
 		}
 	}
 
-	private async testApiKey(provider: LLMProvider, credentials: any): Promise<boolean> {
-		// This is a simplified test - in a real implementation you'd make actual API calls
-		// For now, we'll just check that the API key is not empty and has reasonable format
-		const apiKey = credentials.apiKey.trim();
-		
-		if (!apiKey) return false;
-
-		// Basic format validation
-		switch (provider.id) {
-			case 'openai':
-				return apiKey.startsWith('sk-') && apiKey.length > 40;
-			case 'anthropic':
-				return apiKey.startsWith('sk-ant-') && apiKey.length > 50;
-			case 'google':
-				return apiKey.length > 30; // Google API keys vary in format
-			case 'cohere':
-				return apiKey.length > 30;
-			case 'openrouter':
-				return apiKey.startsWith('sk-or-') && apiKey.length > 50; // OpenRouter format
-			case 'custom':
-				return apiKey.length > 5; // Very basic check for custom
-			default:
-				return apiKey.length > 5;
+	private async testApiKey(provider: LLMProvider, credentials: ProviderCredential): Promise<boolean> {
+		if (provider.requiresApiKey && !credentials.apiKey.trim()) return false;
+
+		const adapter = getProviderAdapter(provider.id);
+		if (!adapter) {
+			return credentials.apiKey.trim().length > 5;
 		}
+		return adapter.verifyKey(credentials);
 	}
 
 	private async loadAvailableModels(provider: LLMProvider) {
 		try {
 			const credentials = this.plugin.settings.providerCredentials[provider.id];
-			if (!credentials || !credentials.apiKey) {
+			if (!credentials || (provider.requiresApiKey && !credentials.apiKey)) {
 				getLogger().warn(`No API key found for provider ${provider.id}`);
 				this.availableModels.set(provider.id, provider.models || []);
 				return;
@@ -524,190 +536,20 @@ export class SetKeysModal extends Modal {
 		}
 	}
 
-	private async fetchModelsFromAPI(provider: LLMProvider, credentials: any): Promise<LLMModel[]> {
-		const baseUrl = credentials.baseUrl || provider.defaultBaseUrl;
-		const apiKey = credentials.apiKey;
+	private async fetchModelsFromAPI(provider: LLMProvider, credentials: ProviderCredential): Promise<LLMModel[]> {
+		const adapter = getProviderAdapter(provider.id);
+		if (!adapter) {
+			return provider.models || [];
+		}
 
 		try {
-			let url: string;
-			let headers: Record<string, string>;
-
-			switch (provider.id) {
-				case 'openai':
-					url = `${baseUrl}/models`;
-					headers = {
-						'Authorization': `Bearer ${apiKey}`,
-						'Content-Type': 'application/json'
-					};
-					break;
-				
-				case 'anthropic':
-					// Anthropic has a models endpoint as of 2025
-					url = `${baseUrl}/models`;
-					headers = {
-						'x-api-key': apiKey,
-						'anthropic-version': '2023-06-01',
-						'Content-Type': 'application/json'
-					};
-					break;
-				
-				case 'google':
-					// Google AI Studio models endpoint
-					url = `https://generativelanguage.googleapis.com/v1beta/models?key=${apiKey}`;
-					headers = {
-						'Content-Type': 'application/json'
-					};
-					break;
-				
-				case 'cohere':
-					url = `${baseUrl}/models`;
-					headers = {
-						'Authorization': `Bearer ${apiKey}`,
-						'Content-Type': 'application/json'
-					};
-					break;
-				
-				case 'openrouter':
-					url = `${baseUrl}/models`;
-					headers = {
-						'Authorization': `Bearer ${apiKey}`,
-						'Content-Type': 'application/json'
-					};
-					break;
-				
-				default:
-					return provider.models || [];
-			}
-
-			// Create an timeoutPromise for timeout
-
-			getLogger().log("URL debug:", JSON.stringify(url));
-			getLogger().log("headers debug:", JSON.stringify(headers));
-			const response = await requestUrl( {
-				url:url,
-				method: 'GET',
-				headers: headers,
-
-			});
-
-
-			if (response.status < 200 || response.status >= 300) {
-				throw new Error(`HTTP ${response.status}: ${response.text}`);
-			}
-
-			const data = response.json;
-			return this.parseModelsResponse(provider.id, data);
-
+			return await adapter.listModels(credentials);
 		} catch (error) {
 			getLogger().error(`API call failed for ${provider.displayName}:`, error);
 			throw error;
 		}
 	}
 
-	private parseModelsResponse(providerId: string, data: any): LLMModel[] {
-		try {
-			switch (providerId) {
-				case 'openai':
-					if (data.data && Array.isArray(data.data)) {
-						return data.data
-							.filter((model: any) => {
-								// Include all OpenAI models
-								const id = model.id?.toLowerCase() || '';
-								return id.includes('gpt') || id.includes('davinci') || id.includes('curie') || id.includes('babbage') || id.includes('ada');
-							})
-							.map((model: any) => {
-								return {
-									id: model.id,
-									name: model.id,
-									hasVision: true, // Will be tested when adding model
-									contextWindow: 4096 // Default, can be improved
-								};
-							});
-					}
-					break;
-				
-				case 'anthropic':
-					if (data.data && Array.isArray(data.data)) {
-						return data.data
-							.filter((model: any) => {
-								// Include all Claude models
-								const id = model.id?.toLowerCase() || '';
-								return id.includes('claude');
-							})
-							.map((model: any) => {
-								const displayName = model.display_name || model.id;
-								
-								// Determine context window based on known models
-								let contextWindow = 200000; // Default for Claude 3+ models
-								const id = model.id?.toLowerCase() || '';
-								if (id.includes('claude-4')) {
-									contextWindow = 1000000; // Claude 4 supports 1M tokens
-								}
-								
-								return {
-									id: model.id,
-									name: displayName,
-									hasVision: true, // Will be tested when adding model
-									contextWindow: contextWindow,
-									maxTokens: 8192
-								};
-							});
-					}
-					break;
-				
-				case 'google':
-					if (data.models && Array.isArray(data.models)) {
-						return data.models
-							.filter((model: any) => {
-								// Include all Google models that support text generation
-								const name = model.name?.toLowerCase() || '';
-								return name.includes('gemini') || name.includes('bison') || name.includes('chat');
-							})
-							.map((model: any) => {
-								return {
-									id: model.name.replace('models/', ''),
-									name: model.displayName || model.name.replace('models/', ''),
-									hasVision: true, // Will be tested when adding model
-									contextWindow: 4096
-								};
-							});
-					}
-					break;
-				
-				case 'cohere':
-					if (data.models && Array.isArray(data.models)) {
-						return data.models
-							.filter((model: any) => model.endpoints?.includes('chat'))
-							.map((model: any) => ({
-								id: model.name,
-								name: model.name,
-								hasVision: true, // Will be tested when adding model
-								contextWindow: model.context_length || 4096
-							}));
-					}
-					break;
-				
-				case 'openrouter':
-					if (data.data && Array.isArray(data.data)) {
-						return data.data
-							.map((model: any) => {
-								return {
-									id: model.id,
-									name: model.name || model.id,
-									hasVision: true, // Will be tested when adding model
-									contextWindow: model.context_length || 4096
-								};
-							});
-					}
-					break;
-			}
-		} catch (error) {
-			getLogger().error(`Failed to parse models response for ${providerId}:`, error);
-		}
-		
-		return [];
-	}
-
 	private addCustomModel(provider: LLMProvider, modelName: string) {
 		const providerEl = this.contentEl.querySelector(`[data-provider="${provider.id}"]`) as HTMLElement;
 		if (!providerEl) return;
@@ -941,203 +783,24 @@ export class SetKeysModal extends Modal {
 
 	private async testVisionCapability(modelConfig: ModelConfig): Promise<boolean> {
 		try {
-			// Create a small test image (1x1 red pixel) as base64
-			const testImageBase64 = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==';
-			
 			// Get provider credentials
 			const credentials = this.plugin.settings.providerCredentials[modelConfig.providerId];
-			if (!credentials || !credentials.verified || !credentials.apiKey.trim()) {
+			if (!credentials || !isProviderReady(modelConfig.providerId, credentials)) {
 				throw new Error('Provider credentials not verified');
 			}
 
-			// Send test message with image
-			const testMessage = 'This is a vision test. Can you see this image? Please respond with yes or no.';
-			const result = await this.sendVisionTestRequest(testMessage, testImageBase64, modelConfig, credentials);
-			
-			return result;
-		} catch (error) {
-			getLogger().error('Vision capability test failed:', error);
-			throw error;
-		}
-	}
-
-	private async sendVisionTestRequest(message: string, imageBase64: string, modelConfig: ModelConfig, credentials: any): Promise<boolean> {
-		const provider = LLM_PROVIDERS.find(p => p.id === modelConfig.providerId);
-		if (!provider) {
-			throw new Error(`Unknown provider: ${modelConfig.providerId}`);
-		}
-
-		let response: RequestUrlResponse;
-		
-		// Remove data URL prefix to get just the base64
-		const base64Data = imageBase64.replace(/^data:image\/[a-z]+;base64,/, '');
-
-		try {
-			switch (provider.id) {
-				case 'openai':
-					response = await this.testOpenAIVision(message, base64Data, modelConfig, credentials);
-					break;
-				case 'anthropic':
-					response = await this.testAnthropicVision(message, base64Data, modelConfig, credentials);
-					break;
-				case 'google':
-					response = await this.testGoogleVision(message, base64Data, modelConfig, credentials);
-					break;
-				case 'openrouter':
-					response = await this.testOpenRouterVision(message, base64Data, modelConfig, credentials);
-					break;
-				case 'custom':
-					response = await this.testCustomVision(message, base64Data, modelConfig, credentials);
-					break;
-				default:
-					throw new Error(`Vision testing not implemented for provider: ${provider.id}`);
-			}
-
-			if (response.status < 200 || response.status >= 300) {
-				const errorText = response.text;
-				getLogger().log('Vision test API error response:', errorText);
-				
-				// Check if the error indicates vision is not supported
-				if (errorText.toLowerCase().includes('vision') || 
-					errorText.toLowerCase().includes('image') ||
-					errorText.toLowerCase().includes('multimodal') ||
-					response.status === 400) {
-					return false; // Vision not supported
-				}
-				
-				throw new Error(`API call failed: ${response.status} ${response.text}`);
+			const adapter = getProviderAdapter(modelConfig.providerId);
+			if (!adapter) {
+				throw new Error(`Unknown provider: ${modelConfig.providerId}`);
 			}
 
-			// If we get a successful response, the model supports vision
-			const responseData = response.json;
-			getLogger().log('Vision test successful, response:', responseData);
-			return true;
-			
+			// Send test message with a tiny image
+			return await adapter.testVision(modelConfig, credentials);
 		} catch (error) {
-			// If there's a network error or parsing error, check the error message
-			const errorMessage = error.message.toLowerCase();
-			if (errorMessage.includes('vision') || 
-				errorMessage.includes('image') || 
-				errorMessage.includes('multimodal') ||
-				errorMessage.includes('does not support')) {
-				return false; // Vision not supported
-			}
-			
-			// For other errors, re-throw
+			getLogger().error('Vision capability test failed:', error);
 			throw error;
 		}
 	}
-
-	private async testOpenAIVision(message: string, base64Image: string, modelConfig: ModelConfig, credentials: any): Promise<RequestUrlResponsePromise> {
-		return requestUrl( {
-			url:'https://api.openai.com/v1/chat/completions',
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-				'Authorization': `Bearer ${credentials.apiKey}`
-			},
-			body: JSON.stringify({
-				model: modelConfig.modelId,
-				messages: [{
-					role: 'user',
-					content: [
-						{ type: 'text', text: message },
-						{ type: 'image_url', image_url: { url: `data:image/png;base64,${base64Image}` } }
-					]
-				}],
-				max_tokens: 10
-			})
-		});
-	}
-
-	private async testAnthropicVision(message: string, base64Image: string, modelConfig: ModelConfig, credentials: any): Promise<RequestUrlResponsePromise> {
-		return requestUrl( {
-			url:'https://api.anthropic.com/v1/messages',
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-				'x-api-key': credentials.apiKey,
-				'anthropic-version': '2023-06-01'
-			},
-			body: JSON.stringify({
-				model: modelConfig.modelId,
-				messages: [{
-					role: 'user',
-					content: [
-						{ type: 'text', text: message },
-						{ type: 'image', source: { type: 'base64', media_type: 'image/png', data: base64Image } }
-					]
-				}],
-				max_tokens: 10
-			})
-		});
-	}
-
-	private async testGoogleVision(message: string, base64Image: string, modelConfig: ModelConfig, credentials: any): Promise<RequestUrlResponsePromise> {
-		return requestUrl( {
-			url:`https://generativelanguage.googleapis.com/v1beta/models/${modelConfig.modelId}:generateContent?key=${credentials.apiKey}`,
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json'
-			},
-			body: JSON.stringify({
-				contents: [{
-					parts: [
-						{ text: message },
-						{ inline_data: { mime_type: 'image/png', data: base64Image } }
-					]
-				}],
-				generationConfig: { maxOutputTokens: 10 }
-			})
-		});
-	}
-
-	private async testOpenRouterVision(message: string, base64Image: string, modelConfig: ModelConfig, credentials: any): Promise<RequestUrlResponsePromise> {
-		return requestUrl( {
-			url:'https://openrouter.ai/api/v1/chat/completions',
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-				'Authorization': `Bearer ${credentials.apiKey}`,
-				'HTTP-Referer': 'https://obsidian.md',
-				'X-Title': 'Obsidian CaptureAI Plugin'
-			},
-			body: JSON.stringify({
-				model: modelConfig.modelId,
-				messages: [{
-					role: 'user',
-					content: [
-						{ type: 'text', text: message },
-						{ type: 'image_url', image_url: { url: `data:image/png;base64,${base64Image}` } }
-					]
-				}],
-				max_tokens: 10
-			})
-		});
-	}
-
-	private async testCustomVision(message: string, base64Image: string, modelConfig: ModelConfig, credentials: any): Promise<RequestUrlResponsePromise> {
-		const baseUrl = credentials.baseUrl || 'https://api.openai.com/v1';
-		return requestUrl( {
-			url:`${baseUrl}/chat/completions`, 
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-				'Authorization': `Bearer ${credentials.apiKey}`
-			},
-			body: JSON.stringify({
-				model: modelConfig.modelId,
-				messages: [{
-					role: 'user',
-					content: [
-						{ type: 'text', text: message },
-						{ type: 'image_url', image_url: { url: `data:image/png;base64,${base64Image}` } }
-					]
-				}],
-				max_tokens: 10
-			})
-		});
-	}
 }
 
 class ModelSelectionModal extends Modal {
@@ -0,0 +1,76 @@
+import { Modal } from 'obsidian';
+import ImageCapturePlugin from '../main';
+import { t } from '../i18n';
+
+// A capturable application window as listed by desktopCapturer
+export interface WindowSource {
+	id: string;
+	name: string;
+	thumbnailDataUrl: string;
+	appIconDataUrl?: string;
+}
+
+/**
+ * 窗口选择弹窗：以缩略图网格展示可截取的应用窗口，点击后回调所选窗口
+ */
+export class WindowPickerModal extends Modal {
+	private sources: WindowSource[];
+	private onSelect: (source: WindowSource | null) => void;
+	private selected = false;
+
+	constructor(plugin: ImageCapturePlugin, sources: WindowSource[], onSelect: (source: WindowSource | null) => void) {
+		super(plugin.app);
+		this.sources = sources;
+		this.onSelect = onSelect;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.modalEl.addClass('window-picker-modal');
+
+		contentEl.createEl('h2', { text: t('windowPicker.title'), cls: 'window-picker-title' });
+
+		const grid = contentEl.createEl('div', { cls: 'window-picker-grid' });
+		this.sources.forEach(source => this.createWindowItem(grid, source));
+	}
+
+	private createWindowItem(container: HTMLElement, source: WindowSource) {
+		const item = container.createEl('div', { cls: 'window-picker-item' });
+		item.setAttribute('tabindex', '0');
+		item.setAttribute('title', source.name);
+
+		item.createEl('img', {
+			cls: 'window-picker-thumbnail',
+			attr: { src: source.thumbnailDataUrl, alt: source.name }
+		});
+
+		const label = item.createEl('div', { cls: 'window-picker-label' });
+		if (source.appIconDataUrl) {
+			label.createEl('img', { cls: 'window-picker-app-icon', attr: { src: source.appIconDataUrl } });
+		}
+		label.createSpan({ text: source.name || t('windowPicker.untitled'), cls: 'window-picker-name' });
+
+		const select = () => {
+			this.selected = true;
+			this.close();
+			this.onSelect(source);
+		};
+		item.addEventListener('click', select);
+		item.addEventListener('keydown', (e: KeyboardEvent) => {
+			if (e.key === 'Enter' || e.key === ' ') {
+				e.preventDefault();
+				select();
+			}
+		});
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		// Closing without a choice counts as cancel
+		if (!this.selected) {
+			this.onSelect(null);
+		}
+	}
+}
@@ -0,0 +1,71 @@
+/**
+ * Helpers for image embeds in markdown notes (`![[image.png]]` and `![alt](image.png)`)
+ */
+
+export const EDITABLE_IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp', 'avif'];
+
+// An image embed on a line, start/end are character offsets of the whole embed
+export interface ImageEmbed {
+	text: string;      // The embed as written
+	rawPath: string;   // Link target as written, still URL-encoded for markdown links
+	linkPath: string;
+	start: number;
+	end: number;
+	isWikiLink: boolean;
+}
+
+export function isEditableImageExtension(extension: string): boolean {
+	return EDITABLE_IMAGE_EXTENSIONS.includes(extension.toLowerCase());
+}
+
+export function getImageMimeType(extension: string): string {
+	switch (extension.toLowerCase()) {
+		case 'jpg':
+		case 'jpeg': return 'image/jpeg';
+		case 'webp': return 'image/webp';
+		case 'avif': return 'image/avif';
+		default: return 'image/png';
+	}
+}
+
+/**
+ * The embed pointing at a file with a different name in the same folder. Wiki links take
+ * `linkText` as computed by Obsidian, markdown links keep their path and only swap the file name.
+ */
+export function replaceEmbedTarget(embed: ImageEmbed, newFileName: string, linkText: string): string {
+	if (embed.isWikiLink) {
+		return embed.text.replace(embed.rawPath, linkText);
+	}
+	const slash = embed.rawPath.lastIndexOf('/');
+	const encoded = /%[0-9a-f]{2}/i.test(embed.rawPath) || !embed.rawPath.includes(' ') ? encodeURI(newFileName) : newFileName;
+	return embed.text.replace(embed.rawPath, embed.rawPath.slice(0, slash + 1) + encoded);
+}
+
+/**
+ * Image embed under the cursor, or the only image embed on the line when the cursor is elsewhere
+ */
+export function findImageEmbedAt(line: string, ch: number): ImageEmbed | null {
+	const embeds: ImageEmbed[] = [];
+	const pattern = /!\[\[([^\]|#]+)(?:[#|][^\]]*)?\]\]|!\[[^\]]*\]\(\s*<?([^)>]+?)>?(?:\s+"[^"]*")?\s*\)/g;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(line)) !== null) {
+		const isWikiLink = match[1] !== undefined;
+		const rawPath = (isWikiLink ? match[1] : match[2]).trim();
+		const linkPath = isWikiLink ? rawPath : safeDecodeURI(rawPath);
+		const extension = linkPath.split('.').pop() || '';
+		if (!isEditableImageExtension(extension) || /^[a-z]+:\/\//i.test(linkPath)) continue;
+		embeds.push({ text: match[0], rawPath, linkPath, start: match.index, end: match.index + match[0].length, isWikiLink });
+	}
+
+	const underCursor = embeds.find(embed => ch >= embed.start && ch <= embed.end);
+	if (underCursor) return underCursor;
+	return embeds.length === 1 ? embeds[0] : null;
+}
+
+function safeDecodeURI(path: string): string {
+	try {
+		return decodeURI(path);
+	} catch (error) {
+		return path;
+	}
+}
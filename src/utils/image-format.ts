@@ -0,0 +1,83 @@
+import { ImageFormat } from '../types';
+
+/**
+ * Formats screenshots can be saved in. WebP and AVIF depend on what the canvas can encode.
+ */
+
+export const IMAGE_FORMATS: ImageFormat[] = ['png', 'jpg', 'webp', 'avif'];
+
+const IMAGE_EXTENSION_PATTERN = /\.(png|jpe?g|webp|avif)$/i;
+
+const supportCache = new Map<ImageFormat, boolean>();
+
+export function getImageFormatMimeType(format: ImageFormat): string {
+	return format === 'jpg' ? 'image/jpeg' : `image/${format}`;
+}
+
+export function getImageFormatLabel(format: ImageFormat): string {
+	switch (format) {
+		case 'png': return 'PNG (lossless)';
+		case 'jpg': return 'JPG (compressed)';
+		case 'webp': return 'WebP';
+		case 'avif': return 'AVIF';
+	}
+}
+
+// Whether the quality setting has any effect on the format
+export function isLossyImageFormat(format: ImageFormat): boolean {
+	return format !== 'png';
+}
+
+export function imageFormatFromExtension(extension: string): ImageFormat {
+	const lower = extension.toLowerCase();
+	if (lower === 'jpeg') return 'jpg';
+	return (IMAGE_FORMATS as string[]).includes(lower) ? lower as ImageFormat : 'png';
+}
+
+/**
+ * Canvas falls back to PNG for types it can't encode, so a format is supported
+ * when the encoded data URL keeps its type
+ */
+export function isImageFormatSupported(format: ImageFormat): boolean {
+	if (format === 'png' || format === 'jpg') return true;
+	let supported = supportCache.get(format);
+	if (supported === undefined) {
+		const canvas = document.createElement('canvas');
+		canvas.width = 1;
+		canvas.height = 1;
+		const mimeType = getImageFormatMimeType(format);
+		supported = canvas.toDataURL(mimeType).startsWith(`data:${mimeType}`);
+		supportCache.set(format, supported);
+	}
+	return supported;
+}
+
+export function getSupportedImageFormats(): ImageFormat[] {
+	return IMAGE_FORMATS.filter(isImageFormatSupported);
+}
+
+// Format new screenshots are saved in: the configured one, or PNG when the canvas can't encode it
+export function resolveSaveFormat(format: ImageFormat): ImageFormat {
+	return isImageFormatSupported(format) ? format : 'png';
+}
+
+// Encode a canvas in a save format, quality is 10-100 and has no effect on PNG
+export function encodeImage(canvas: HTMLCanvasElement, format: ImageFormat, quality: number): string {
+	return canvas.toDataURL(getImageFormatMimeType(format), quality / 100);
+}
+
+// Replace the image extension of a file name, or add one
+export function withImageExtension(fileName: string, format: ImageFormat | string): string {
+	return `${fileName.replace(IMAGE_EXTENSION_PATTERN, '')}.${format}`;
+}
+
+// Size that fits within maxDimension on both sides, 0 leaves the size unchanged
+export function fitToMaxDimension(size: { width: number; height: number }, maxDimension: number): { width: number; height: number } {
+	const longest = Math.max(size.width, size.height);
+	if (maxDimension <= 0 || longest <= maxDimension) return { ...size };
+	const factor = maxDimension / longest;
+	return {
+		width: Math.max(1, Math.round(size.width * factor)),
+		height: Math.max(1, Math.round(size.height * factor))
+	};
+}
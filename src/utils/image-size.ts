@@ -0,0 +1,113 @@
+/**
+ * Image dimensions read from the file header of a base64 data URL, without decoding the image.
+ * Supports PNG, JPEG, GIF and WebP, which covers everything the plugin sends to models.
+ */
+
+export interface ImageSize {
+	width: number;
+	height: number;
+}
+
+// JPEG dimensions sit in the SOF segment, which follows EXIF data and thumbnails
+const JPEG_HEADER_BYTES = 128 * 1024;
+const HEADER_BYTES = 64;
+
+export function readImageSize(dataUrl: string): ImageSize | null {
+	const comma = dataUrl.indexOf(',');
+	if (!dataUrl.startsWith('data:') || comma < 0) return null;
+	const mimeType = dataUrl.slice(5, comma).split(';')[0];
+
+	const bytes = decodeBase64Prefix(dataUrl.slice(comma + 1), mimeType === 'image/jpeg' ? JPEG_HEADER_BYTES : HEADER_BYTES);
+	if (!bytes) return null;
+
+	// Detect by signature rather than trusting the MIME type
+	if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+		return readPngSize(bytes);
+	}
+	if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+		return readJpegSize(bytes);
+	}
+	if (bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46) {
+		return bytes.length >= 10 ? { width: readUint16LE(bytes, 6), height: readUint16LE(bytes, 8) } : null;
+	}
+	if (readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP') {
+		return readWebpSize(bytes);
+	}
+	return null;
+}
+
+function decodeBase64Prefix(base64: string, byteCount: number): Uint8Array | null {
+	// 4 base64 characters encode 3 bytes
+	const prefix = base64.slice(0, Math.ceil(byteCount / 3) * 4);
+	let binary: string;
+	try {
+		binary = atob(prefix);
+	} catch (error) {
+		return null;
+	}
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i);
+	}
+	return bytes;
+}
+
+function readPngSize(bytes: Uint8Array): ImageSize | null {
+	// IHDR is always the first chunk: width and height follow the 8 byte signature and chunk header
+	if (bytes.length < 24) return null;
+	return { width: readUint32BE(bytes, 16), height: readUint32BE(bytes, 20) };
+}
+
+function readJpegSize(bytes: Uint8Array): ImageSize | null {
+	let offset = 2;
+	while (offset + 9 < bytes.length) {
+		if (bytes[offset] !== 0xff) return null;
+		const marker = bytes[offset + 1];
+		// Padding bytes between segments
+		if (marker === 0xff) {
+			offset++;
+			continue;
+		}
+		// SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC) which share the range
+		if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+			return { width: readUint16BE(bytes, offset + 7), height: readUint16BE(bytes, offset + 5) };
+		}
+		offset += 2 + readUint16BE(bytes, offset + 2);
+	}
+	return null;
+}
+
+function readWebpSize(bytes: Uint8Array): ImageSize | null {
+	if (bytes.length < 30) return null;
+	switch (readAscii(bytes, 12, 4)) {
+		case 'VP8 ':
+			return { width: readUint16LE(bytes, 26) & 0x3fff, height: readUint16LE(bytes, 28) & 0x3fff };
+		case 'VP8L': {
+			const bits = bytes[21] | (bytes[22] << 8) | (bytes[23] << 16) | (bytes[24] << 24);
+			return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+		}
+		case 'VP8X':
+			return {
+				width: 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16)),
+				height: 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16))
+			};
+		default:
+			return null;
+	}
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+	return String.fromCharCode(...Array.from(bytes.subarray(offset, offset + length)));
+}
+
+function readUint16BE(bytes: Uint8Array, offset: number): number {
+	return (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+function readUint16LE(bytes: Uint8Array, offset: number): number {
+	return bytes[offset] | (bytes[offset + 1] << 8);
+}
+
+function readUint32BE(bytes: Uint8Array, offset: number): number {
+	return ((bytes[offset] << 24) >>> 0) + ((bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]);
+}